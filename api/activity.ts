@@ -1,7 +1,10 @@
-import {publicApi} from "@/api/client";
+import {publicApi, privateApi} from "@/api/client";
 import {ActivityStatus} from "@/types/ActivityStatus";
+import {ActivityRequest} from "@/types/ActivityRequest";
+import {ActivityResponse} from "@/types/ActivityResponse";
 import {LocationRequest} from "@/types/LocationRequest";
 import {LocationResponse} from "@/types/LocationResponse";
+import {GymLocation} from "@/types/GymLocation";
 
 export interface PaginationParams {
     page?: number;
@@ -62,7 +65,62 @@ export const getTotalActivity = async (
     return response.data;
 };
 
+/**
+ * Collects the activity history of a user from consecutive pages of getTotalActivity
+ * @param userId - Owner of the activities
+ * @param pageSize - Activities per request
+ * @param maxPages - Upper bound of requests, so years of sessions are not paged through
+ */
+export const getActivityHistory = async (
+    userId: string,
+    pageSize: number,
+    maxPages: number
+): Promise<ActivityResponse[]> => {
+    const items: ActivityResponse[] = [];
+    for (let page = 0; page < maxPages; page++) {
+        const stats = await getTotalActivity(userId, { page, size: pageSize });
+        items.push(...stats.activities.content);
+        if (page >= stats.activities.totalPages - 1) break;
+    }
+    return items;
+};
+
 export const getUsersOnGym = async (): Promise<number> => {
     const response = await publicApi.get(`/activities/users`);
     return response.data;
-};
\ No newline at end of file
+};
+
+export const getGymLocations = async (): Promise<GymLocation[]> => {
+    const response = await publicApi.get(`/activities/gym-locations`);
+    return response.data;
+};
+
+/**
+ * Logs a workout the location tracking missed
+ * @param userId - Owner of the activity
+ * @param request - Start/end time and optional note
+ */
+export const createActivity = async (
+    userId: string,
+    request: ActivityRequest
+): Promise<ActivityResponse> => {
+    const response = await privateApi.post(`/activities/manual/${userId}`, request);
+    return response.data;
+};
+
+/**
+ * Corrects the times or note of an activity, auto-detected ones become MANUAL
+ * @param activityId - Activity to change
+ * @param request - New start/end time and optional note
+ */
+export const updateActivity = async (
+    activityId: string,
+    request: ActivityRequest
+): Promise<ActivityResponse> => {
+    const response = await privateApi.put(`/activities/${activityId}`, request);
+    return response.data;
+};
+
+export const deleteActivity = async (activityId: string): Promise<void> => {
+    await privateApi.delete(`/activities/${activityId}`);
+};
@@ -1,6 +1,10 @@
 import {User} from "@/types/User";
 import {AuthResponse} from "@/types/AuthResponse";
 import {privateApi, publicApi} from "@/api/client";
+import {clearApiCache} from "@/api/cache";
+import {clearPhotoCache} from "@/api/photoCache";
+import {clearCardSecret, saveCardSecret} from "@/utils/membershipCard";
+import {saveBiometricEnabled} from "@/utils/biometrics";
 import * as SecureStore from "expo-secure-store";
 import {ResultResponse} from "@/types/ResultResponse";
 
@@ -15,6 +19,9 @@ export const login = async (params: LoginParams): Promise<AuthResponse> => {
     await SecureStore.setItemAsync('accessToken', data.accessToken);
     await SecureStore.setItemAsync('refreshToken', data.refreshToken);
     await SecureStore.setItemAsync('user', JSON.stringify(data.user));
+    if (data.cardSecret) {
+        await saveCardSecret(data.cardSecret);
+    }
 
     return data;
 }
@@ -48,4 +55,9 @@ export const logout = async (): Promise<void> => {
     await SecureStore.deleteItemAsync("accessToken");
     await SecureStore.deleteItemAsync("refreshToken");
     await SecureStore.deleteItemAsync("user");
+    await clearCardSecret();
+    // The setting lives on the device, the next account must not inherit it
+    await saveBiometricEnabled(false);
+    await clearApiCache();
+    clearPhotoCache();
 };
\ No newline at end of file
@@ -0,0 +1,316 @@
+import axios, { AxiosHeaders, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+declare module 'axios' {
+    interface AxiosRequestConfig {
+        /** Set to false to always go to the network and skip the response cache */
+        cache?: boolean;
+    }
+}
+
+const CACHE_PREFIX = 'api_cache:';
+const MINUTE = 60 * 1000;
+
+interface CachePolicy {
+    pattern: RegExp;
+    /** How long a cached response is served without revalidation */
+    ttl: number;
+}
+
+interface CacheEntry {
+    data: unknown;
+    status: number;
+    headers: Record<string, string>;
+    storedAt: number;
+    /** Set by expireCache, the entry is then only an offline fallback */
+    expired?: boolean;
+}
+
+export interface OfflineStatus {
+    isOffline: boolean;
+    /** Time the oldest response shown while offline was fetched */
+    dataTimestamp: number | null;
+}
+
+/**
+ * Cached GET endpoints with their freshness windows.
+ * Endpoints not listed here always go to the network.
+ */
+const CACHE_POLICIES: CachePolicy[] = [
+    { pattern: /^\/schedules/, ttl: 5 * MINUTE },
+    { pattern: /^\/bookings\/user/, ttl: MINUTE },
+    { pattern: /^\/waitlist\/user/, ttl: MINUTE },
+    { pattern: /^\/activities\/users/, ttl: 0 },
+    { pattern: /^\/activities\//, ttl: 2 * MINUTE },
+    { pattern: /^\/memberships\//, ttl: 5 * MINUTE },
+    { pattern: /^\/membership_types/, ttl: 60 * MINUTE },
+    { pattern: /^\/purchases\//, ttl: 30 * MINUTE },
+    { pattern: /^\/users\/info$/, ttl: 10 * MINUTE },
+    { pattern: /^\/exercises/, ttl: 60 * MINUTE },
+    { pattern: /^\/ranking-entries\/user/, ttl: MINUTE },
+    { pattern: /^\/ranking-entries/, ttl: 10 * MINUTE },
+    { pattern: /^\/posts/, ttl: 10 * MINUTE },
+    { pattern: /^\/products/, ttl: 30 * MINUTE },
+    { pattern: /^\/sativa-/, ttl: 60 * MINUTE },
+];
+
+/**
+ * Extra cache prefixes cleared by a successful mutation, on top of its own resource
+ */
+const MUTATION_INVALIDATIONS: { pattern: RegExp; prefixes: string[] }[] = [
+    { pattern: /^\/bookings/, prefixes: ['/schedules', '/waitlist'] },
+    { pattern: /^\/waitlist/, prefixes: ['/schedules', '/bookings'] },
+    { pattern: /^\/purchases/, prefixes: ['/memberships'] },
+];
+
+let offlineStatus: OfflineStatus = { isOffline: false, dataTimestamp: null };
+const offlineListeners = new Set<() => void>();
+
+const setOfflineStatus = (status: OfflineStatus) => {
+    if (status.isOffline === offlineStatus.isOffline && status.dataTimestamp === offlineStatus.dataTimestamp) {
+        return;
+    }
+    offlineStatus = status;
+    offlineListeners.forEach(listener => listener());
+};
+
+const markOnline = () => setOfflineStatus({ isOffline: false, dataTimestamp: null });
+
+const markOffline = (storedAt: number | null) => {
+    const timestamps = [offlineStatus.dataTimestamp, storedAt].filter((t): t is number => t !== null);
+    setOfflineStatus({
+        isOffline: true,
+        dataTimestamp: timestamps.length > 0 ? Math.min(...timestamps) : null,
+    });
+};
+
+/**
+ * Returns the current offline status snapshot
+ */
+export const getOfflineStatus = (): OfflineStatus => offlineStatus;
+
+/**
+ * Subscribes to offline status changes
+ * @param listener - Called whenever the status changes
+ * @returns Function removing the subscription
+ */
+export const subscribeOfflineStatus = (listener: () => void): (() => void) => {
+    offlineListeners.add(listener);
+    return () => {
+        offlineListeners.delete(listener);
+    };
+};
+
+/**
+ * Strips the base URL and query string, leaving the endpoint path
+ * @param url - Request URL
+ */
+const getPath = (url: string = ''): string => url.split('?')[0];
+
+const findPolicy = (url?: string): CachePolicy | undefined =>
+    CACHE_POLICIES.find(policy => policy.pattern.test(getPath(url)));
+
+/**
+ * Builds a cache key from the endpoint and its query params, independent of param order
+ * @param config - Request config
+ */
+const getCacheKey = (config: InternalAxiosRequestConfig): string => {
+    const params = config.params
+        ? Object.keys(config.params)
+            .sort()
+            .filter(key => config.params[key] !== undefined)
+            .map(key => `${key}=${String(config.params[key])}`)
+            .join('&')
+        : '';
+    return `${CACHE_PREFIX}${config.url}${params ? `?${params}` : ''}`;
+};
+
+/**
+ * A network error means no response was received at all, as opposed to an HTTP error status
+ * @param error - Error thrown by the adapter
+ */
+const isNetworkError = (error: unknown): boolean => axios.isAxiosError(error) && !error.response;
+
+const readEntry = async (key: string): Promise<CacheEntry | null> => {
+    try {
+        const stored = await AsyncStorage.getItem(key);
+        return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+        console.warn('Cache read failed:', error);
+        return null;
+    }
+};
+
+const writeEntry = async (key: string, response: AxiosResponse): Promise<void> => {
+    try {
+        const entry: CacheEntry = {
+            data: response.data,
+            status: response.status,
+            headers: AxiosHeaders.from(response.headers as AxiosHeaders).toJSON(true) as Record<string, string>,
+            storedAt: Date.now(),
+        };
+        await AsyncStorage.setItem(key, JSON.stringify(entry));
+    } catch (error) {
+        console.warn('Cache write failed:', error);
+    }
+};
+
+const toResponse = (entry: CacheEntry, config: InternalAxiosRequestConfig): AxiosResponse => ({
+    data: entry.data,
+    status: entry.status,
+    statusText: 'OK',
+    headers: AxiosHeaders.from(entry.headers),
+    config,
+    request: undefined,
+});
+
+/**
+ * Removes cached responses whose endpoint starts with one of the prefixes
+ * @param prefixes - Endpoint prefixes, e.g. '/bookings'
+ */
+export const invalidateCache = async (...prefixes: string[]): Promise<void> => {
+    try {
+        const keys = await AsyncStorage.getAllKeys();
+        const stale = keys.filter(key =>
+            prefixes.some(prefix => key.startsWith(`${CACHE_PREFIX}${prefix}`))
+        );
+        if (stale.length > 0) {
+            await AsyncStorage.multiRemove(stale);
+        }
+    } catch (error) {
+        console.warn('Cache invalidation failed:', error);
+    }
+};
+
+/**
+ * Marks cached responses whose endpoint starts with one of the prefixes as outdated.
+ * Their next request goes to the network first and falls back to them only when offline,
+ * which is what a pull-to-refresh needs.
+ * @param prefixes - Endpoint prefixes, e.g. '/schedules'
+ */
+export const expireCache = async (...prefixes: string[]): Promise<void> => {
+    try {
+        const keys = await AsyncStorage.getAllKeys();
+        const matching = keys.filter(key =>
+            prefixes.some(prefix => key.startsWith(`${CACHE_PREFIX}${prefix}`))
+        );
+        if (matching.length === 0) return;
+
+        const stored = await AsyncStorage.multiGet(matching);
+        const expired = stored
+            .filter((pair): pair is [string, string] => pair[1] !== null)
+            .map(([key, value]): [string, string] => [key, JSON.stringify({ ...JSON.parse(value), expired: true })]);
+        await AsyncStorage.multiSet(expired);
+    } catch (error) {
+        console.warn('Cache expiry failed:', error);
+    }
+};
+
+/**
+ * Removes every cached response, e.g. on logout so the next user never sees them
+ */
+export const clearApiCache = async (): Promise<void> => {
+    await invalidateCache('');
+    markOnline();
+};
+
+/**
+ * Clears the resource touched by a mutation along with its dependent resources
+ * @param url - URL of the successful POST/PUT/PATCH/DELETE request
+ */
+const invalidateAfterMutation = async (url?: string): Promise<void> => {
+    const path = getPath(url);
+    const rootSegment = path.split('/').filter(Boolean)[0];
+    if (!rootSegment) return;
+
+    const extra = MUTATION_INVALIDATIONS
+        .filter(rule => rule.pattern.test(path))
+        .flatMap(rule => rule.prefixes);
+
+    await invalidateCache(`/${rootSegment}`, ...extra);
+};
+
+/**
+ * Installs a stale-while-revalidate response cache on an axios instance.
+ *
+ * For GET requests of endpoints listed in CACHE_POLICIES:
+ * - fresh cache entries are returned without touching the network,
+ * - stale entries are returned immediately and refreshed in the background,
+ * - entries outdated with expireCache are refreshed before answering,
+ * - when the network is unreachable, any cached entry is returned and the app is marked offline.
+ * Successful mutations invalidate the cached responses of the resource they change.
+ * @param instance - Axios instance to wrap
+ */
+export const installResponseCache = (instance: AxiosInstance): void => {
+    const networkAdapter = axios.getAdapter(instance.defaults.adapter);
+
+    const fetchFromNetwork = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+        try {
+            const response = await networkAdapter(config);
+            markOnline();
+            return response;
+        } catch (error) {
+            if (isNetworkError(error)) {
+                markOffline(null);
+            } else if (axios.isAxiosError(error) && error.response) {
+                // The server answered, so connectivity is fine even if the request failed
+                markOnline();
+            }
+            throw error;
+        }
+    };
+
+    instance.defaults.adapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+        const method = (config.method || 'get').toLowerCase();
+
+        if (method !== 'get') {
+            const response = await fetchFromNetwork(config);
+            await invalidateAfterMutation(config.url);
+            return response;
+        }
+
+        const policy = findPolicy(config.url);
+        const isCacheable = policy && config.cache !== false && !config.responseType?.startsWith('array');
+        if (!isCacheable) {
+            return fetchFromNetwork(config);
+        }
+
+        const key = getCacheKey(config);
+        const entry = await readEntry(key);
+
+        const revalidate = async (): Promise<AxiosResponse> => {
+            const response = await fetchFromNetwork(config);
+            await writeEntry(key, response);
+            return response;
+        };
+
+        if (!entry) {
+            return revalidate();
+        }
+
+        const age = Date.now() - entry.storedAt;
+
+        if (age < policy.ttl && !entry.expired) {
+            return toResponse(entry, config);
+        }
+
+        if (offlineStatus.isOffline || policy.ttl === 0 || entry.expired) {
+            // Live data, a manual refresh or known to be offline: try the network, but fall back to the stale entry
+            try {
+                return await revalidate();
+            } catch (error) {
+                if (!isNetworkError(error)) throw error;
+                markOffline(entry.storedAt);
+                return toResponse(entry, config);
+            }
+        }
+
+        // Stale: answer from cache now and refresh in the background
+        revalidate().catch(error => {
+            if (isNetworkError(error)) {
+                markOffline(entry.storedAt);
+            }
+        });
+        return toResponse(entry, config);
+    };
+};
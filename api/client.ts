@@ -1,7 +1,12 @@
 import axios from 'axios';
-import * as SecureStore from "expo-secure-store";
 import { apiUrl } from '@/api/apiUrl';
-import { RefreshResponse } from '@/types/RefreshResponse';
+import { installResponseCache } from '@/api/cache';
+import {
+    expireSession,
+    getTokenAfterUnauthorized,
+    getValidAccessToken,
+    isRejectedRefresh
+} from '@/api/tokenManager';
 
 const apiBaseUrl = apiUrl;
 
@@ -20,29 +25,11 @@ export const privateApi = axios.create({
     timeout: 60000,
 });
 
-export const refreshTokenInternal = async (): Promise<string> => {
-    const refresh = await SecureStore.getItemAsync("refreshToken");
-    if (!refresh) throw new Error("No refresh token available");
-
-    const { data } = await publicApi.post<RefreshResponse>("/auth/refresh-token", {}, {
-        headers: {
-            'Authorization': `Bearer ${refresh}`
-        }
-    });
-
-    await SecureStore.setItemAsync("accessToken", data.accessToken);
-    await SecureStore.setItemAsync("refreshToken", data.refreshToken);
-    return data.accessToken;
-};
-
-const logoutInternal = async (): Promise<void> => {
-    await SecureStore.deleteItemAsync("accessToken");
-    await SecureStore.deleteItemAsync("refreshToken");
-    await SecureStore.deleteItemAsync("user");
-};
+installResponseCache(publicApi);
+installResponseCache(privateApi);
 
 privateApi.interceptors.request.use(async config => {
-    const token = await SecureStore.getItemAsync('accessToken');
+    const token = await getValidAccessToken();
     if (token) {
         config.headers!['Authorization'] = `Bearer ${token}`;
     }
@@ -62,16 +49,20 @@ privateApi.interceptors.response.use(
         if (error.response?.status === 401 && !original._retry) {
             original._retry = true;
             try {
-                const newToken = await refreshTokenInternal();
+                const sentToken = String(original.headers['Authorization'] ?? '').replace('Bearer ', '') || null;
+                const newToken = await getTokenAfterUnauthorized(sentToken);
                 original.headers['Authorization'] = `Bearer ${newToken}`;
                 return privateApi(original);
             } catch (refreshError) {
                 console.error('Token refresh failed:', refreshError);
-                await logoutInternal();
+                // A network failure keeps the session, only a rejected refresh token ends it
+                if (isRejectedRefresh(refreshError)) {
+                    await expireSession();
+                }
                 return Promise.reject(refreshError);
             }
         }
 
         return Promise.reject(error);
     }
-);
\ No newline at end of file
+);
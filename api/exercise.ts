@@ -1,7 +1,15 @@
 import {publicApi} from "@/api/client";
 import {RankingEntry} from "@/types/RankingEntry";
+import {RankingFilters} from "@/types/RankingFilters";
 
-export const getRankingEntries = async (exerciseId: string): Promise<RankingEntry[]> => {
-    const response = await publicApi.get('/ranking-entries/' + exerciseId);
+export const getRankingEntries = async (exerciseId: string, filters?: RankingFilters): Promise<RankingEntry[]> => {
+    const response = await publicApi.get('/ranking-entries/' + exerciseId, {
+        params: filters && {
+            scope: filters.scope,
+            gender: filters.gender ?? undefined,
+            minAge: filters.ageBracket?.minAge,
+            maxAge: filters.ageBracket?.maxAge ?? undefined
+        }
+    });
     return response.data;
-};
\ No newline at end of file
+};
@@ -1,12 +1,80 @@
 import {privateApi, publicApi} from "@/api/client";
 import { Membership } from "@/types/Membership";
 import {MembershipType} from "@/types/MembershipType";
+import {FreezeRequest, FreezeRules} from "@/types/MembershipFreeze";
+import {EntryDisputeRequest, EntryLedgerItem} from "@/types/EntryLedger";
+import {PageResponse} from "@/types/PageResponse";
 
 export const getMembership = async (userId: string): Promise<Membership> => {
     const { data } = await privateApi.get<Membership>(`/memberships/${userId}`);
     return data;
 };
 
+/**
+ * Returns the freeze limits that apply to the membership
+ * @param membershipId - Membership identifier
+ */
+export const getFreezeRules = async (membershipId: string): Promise<FreezeRules> => {
+    const { data } = await privateApi.get<FreezeRules>(`/memberships/${membershipId}/freeze-rules`);
+    return data;
+};
+
+/**
+ * Freezes the membership for the given days, its expiry date moves by the frozen days
+ * @param membershipId - Membership identifier
+ * @param request - First and last frozen day
+ */
+export const freezeMembership = async (membershipId: string, request: FreezeRequest): Promise<Membership> => {
+    const { data } = await privateApi.post<Membership>(`/memberships/${membershipId}/freeze`, request);
+    return data;
+};
+
+/**
+ * Ends the current freeze early, only the days actually frozen extend the membership
+ * @param membershipId - Membership identifier
+ */
+export const unfreezeMembership = async (membershipId: string): Promise<Membership> => {
+    const { data } = await privateApi.post<Membership>(`/memberships/${membershipId}/unfreeze`);
+    return data;
+};
+/**
+ * Returns consumed entries of a count based membership, newest first
+ * @param membershipId - Membership identifier
+ * @param page - Page number
+ * @param size - Entries per page
+ */
+export const getEntryLedger = async (
+    membershipId: string,
+    page: number = 0,
+    size: number = 20
+): Promise<PageResponse<EntryLedgerItem>> => {
+    const { data } = await privateApi.get<PageResponse<EntryLedgerItem>>(
+        `/memberships/${membershipId}/entries`,
+        {
+            params: { page, size }
+        }
+    );
+    return data;
+};
+
+/**
+ * Reports an entry the member does not recognise, the reception reviews it
+ * and gives the entry back when the report is accepted
+ * @param membershipId - Membership identifier
+ * @param entryId - Disputed entry
+ * @param request - Reason given by the member
+ */
+export const reportEntryDispute = async (
+    membershipId: string,
+    entryId: string,
+    request: EntryDisputeRequest
+): Promise<EntryLedgerItem> => {
+    const { data } = await privateApi.post<EntryLedgerItem>(
+        `/memberships/${membershipId}/entries/${entryId}/dispute`,
+        request
+    );
+    return data;
+};
 
 export const getActiveMembershipTypes = async (): Promise<MembershipType[]> => {
     const { data } = await publicApi.get<MembershipType[]>('/membership_types/active');
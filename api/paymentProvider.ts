@@ -0,0 +1,39 @@
+import { PaymentProvider, PaymentRequest, PaymentResult } from "@/types/Payment";
+
+// Simulated time of the payment gateway round trip
+const FAKE_PAYMENT_DELAY = 1500;
+
+/**
+ * Provider for local testing, accepts every payment without charging anything.
+ * It is installed only in development builds.
+ * An amount ending with 13 gr is declined, so the failure path can be tried out too.
+ */
+export const fakePaymentProvider: PaymentProvider = {
+    id: 'fake',
+    methods: ['card', 'blik', 'transfer'],
+    pay: async ({ amount }: PaymentRequest): Promise<PaymentResult> => {
+        await new Promise(resolve => setTimeout(resolve, FAKE_PAYMENT_DELAY));
+
+        if (Math.round(amount * 100) % 100 === 13) {
+            return { status: 'failed', message: 'Płatność została odrzucona' };
+        }
+        return { status: 'succeeded', transactionId: `fake-${Date.now()}` };
+    },
+};
+
+// Release builds have no provider until a real gateway integration registers one
+let currentProvider: PaymentProvider | null = __DEV__ ? fakePaymentProvider : null;
+
+/**
+ * Returns the provider used by the checkout
+ * @returns Provider, or null when payments in the app are not available
+ */
+export const getPaymentProvider = (): PaymentProvider | null => currentProvider;
+
+/**
+ * Replaces the checkout's payment provider, e.g. with a real gateway integration
+ * @param provider - Provider to use for next payments
+ */
+export const setPaymentProvider = (provider: PaymentProvider): void => {
+    currentProvider = provider;
+};
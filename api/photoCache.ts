@@ -0,0 +1,59 @@
+import { Directory, File, Paths } from 'expo-file-system';
+import { getUserPhotoData } from '@/api/user';
+
+const PHOTO_DIRECTORY = 'profile-photos';
+
+const getPhotoDirectory = (): Directory => new Directory(Paths.cache, PHOTO_DIRECTORY);
+
+/**
+ * Builds the file name of a photo version. The update date is part of the name,
+ * so a changed photo never collides with its stale copy.
+ * @param userId - Photo owner
+ * @param photoUpdatedDate - UserInfo.photoUpdatedDate of the version
+ */
+const getPhotoFileName = (userId: string, photoUpdatedDate: string): string =>
+    `${userId}_${photoUpdatedDate.replace(/[^0-9A-Za-z]/g, '')}`;
+
+/**
+ * Returns a file URI of the user's profile photo, downloading it only when
+ * the cached copy is missing or belongs to an older photoUpdatedDate.
+ * @param userId - Photo owner
+ * @param photoUpdatedDate - UserInfo.photoUpdatedDate of the current photo
+ * @returns File URI for expo-image, or null when the user has no photo
+ */
+export const getCachedUserPhoto = async (userId: string, photoUpdatedDate: string): Promise<string | null> => {
+    const directory = getPhotoDirectory();
+    const file = new File(directory, getPhotoFileName(userId, photoUpdatedDate));
+    if (file.exists && file.size > 0) {
+        return file.uri;
+    }
+
+    const data = await getUserPhotoData(userId);
+    if (!data) {
+        return null;
+    }
+
+    directory.create({ idempotent: true });
+    // Older versions of this user's photo are never shown again
+    directory.list()
+        .filter(entry => entry instanceof File && entry.name.startsWith(`${userId}_`))
+        .forEach(entry => entry.delete());
+
+    file.create({ overwrite: true });
+    file.write(new Uint8Array(data));
+    return file.uri;
+};
+
+/**
+ * Removes all cached photos, e.g. on logout so the next user never sees them
+ */
+export const clearPhotoCache = (): void => {
+    try {
+        const directory = getPhotoDirectory();
+        if (directory.exists) {
+            directory.delete();
+        }
+    } catch (error) {
+        console.warn('Photo cache cleanup failed:', error);
+    }
+};
@@ -1,6 +1,7 @@
 import { privateApi } from "@/api/client";
 import { MembershipPurchase } from "@/types/MembershipPurchase";
 import { PageResponse } from "@/types/PageResponse";
+import { PurchaseRequest } from "@/types/PurchaseRequest";
 
 export const getPurchasesByMembershipId = async (
     membershipId: string,
@@ -21,4 +22,34 @@ export const getLastPurchase = async (membershipId: string): Promise<MembershipP
             `/purchases/${membershipId}/last`
         );
         return data;
-}
\ No newline at end of file
+}
+
+/**
+ * Records a paid membership purchase, the API activates the membership from the start date
+ * @param request - Bought type, start date and the payment's transaction reference
+ * @returns The created purchase
+ */
+export const purchaseMembership = async (request: PurchaseRequest): Promise<MembershipPurchase> => {
+    // The transaction id makes retries of the same payment safe
+    const { data } = await privateApi.post<MembershipPurchase>('/purchases', request, {
+        headers: {
+            'Idempotency-Key': request.transactionId,
+        },
+    });
+    return data;
+};
+
+/**
+ * Downloads the invoice of a purchase as a PDF
+ * @param purchaseId - Purchase identifier
+ * @returns PDF bytes
+ */
+export const getPurchaseInvoice = async (purchaseId: string): Promise<ArrayBuffer> => {
+    const { data } = await privateApi.get<ArrayBuffer>(`/purchases/${purchaseId}/invoice`, {
+        responseType: 'arraybuffer',
+        headers: {
+            'Accept': 'application/pdf',
+        },
+    });
+    return data;
+};
@@ -1,7 +1,58 @@
-import {publicApi} from "@/api/client";
+import {publicApi, privateApi} from "@/api/client";
 import {Exercise} from "@/types/Exercise";
+import {RankingEntry} from "@/types/RankingEntry";
+import {RankingPosition} from "@/types/RankingPosition";
+import {UploadFile, UploadOptions, uploadForm} from "@/api/upload";
+
+export type RankingEntryProof = UploadFile;
 
 export const getExercises = async (): Promise<Exercise[]> => {
     const response = await publicApi.get('/exercises/active');
     return response.data;
-};
\ No newline at end of file
+};
+
+/**
+ * Returns the current user's submitted results with their review status
+ * @param exerciseId - Limits the history to one exercise
+ */
+export const getMyRankingEntries = async (exerciseId?: string): Promise<RankingEntry[]> => {
+    const {data} = await privateApi.get<RankingEntry[]>('/ranking-entries/user', {
+        params: {
+            exerciseId
+        }
+    });
+    return data;
+};
+
+/**
+ * Returns the current user's position in the all-time ranking of an exercise and how it changed
+ * @param exerciseId - Exercise identifier
+ */
+export const getMyRankingPosition = async (exerciseId: string): Promise<RankingPosition> => {
+    const {data} = await privateApi.get<RankingPosition>(`/ranking-entries/user/position/${exerciseId}`);
+    return data;
+};
+
+/**
+ * Submits a result for review. It shows up in the ranking once approved.
+ * @param exerciseId - Exercise the result belongs to
+ * @param result - Result in the exercise unit
+ * @param proof - Optional photo or video of the attempt
+ * @param options - Upload progress callback and abort signal
+ */
+export const submitRankingEntry = async (
+    exerciseId: string,
+    result: number,
+    proof?: RankingEntryProof,
+    options?: UploadOptions
+): Promise<RankingEntry> => {
+    const formData = new FormData();
+    formData.append('exerciseId', exerciseId);
+    formData.append('result', result.toString());
+
+    if (proof) {
+        formData.append('proof', proof as any);
+    }
+
+    return uploadForm<RankingEntry>('post', '/ranking-entries', formData, options);
+};
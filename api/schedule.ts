@@ -4,4 +4,13 @@ import {publicApi} from "@/api/client";
 export const getCurrentWeekSchedule = async (): Promise<WeeklySchedule> => {
     const response = await publicApi.get('/schedules');
     return response.data;
-};
\ No newline at end of file
+};
+
+export const getWeekSchedule = async (yearWeek: string): Promise<WeeklySchedule> => {
+    const response = await publicApi.get('/schedules', {
+        params: {
+            yearWeek
+        }
+    });
+    return response.data;
+};
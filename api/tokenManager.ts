@@ -0,0 +1,135 @@
+import axios from 'axios';
+import * as SecureStore from 'expo-secure-store';
+import { jwtDecode } from 'jwt-decode';
+import { apiUrl } from '@/api/apiUrl';
+import { clearApiCache } from '@/api/cache';
+import { clearCardSecret } from '@/utils/membershipCard';
+import { saveBiometricEnabled } from '@/utils/biometrics';
+import { RefreshResponse } from '@/types/RefreshResponse';
+
+// Refresh this long before expiry, so a request never leaves with a token about to expire
+const REFRESH_MARGIN = 60 * 1000;
+
+let refreshPromise: Promise<string> | null = null;
+const sessionExpiredListeners = new Set<() => void>();
+
+/**
+ * Reads the expiry time of a JWT
+ * @param token - Access token
+ * @returns Expiry in milliseconds, null when the token has no readable expiry
+ */
+export const getTokenExpiry = (token: string): number | null => {
+    try {
+        const { exp } = jwtDecode(token);
+        return exp ? exp * 1000 : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Whether the refresh endpoint rejected the refresh token itself,
+ * as opposed to the request failing on the way
+ */
+export const isRejectedRefresh = (error: unknown): boolean => {
+    if (!axios.isAxiosError(error)) {
+        return true;
+    }
+    const status = error.response?.status;
+    return status !== undefined && status >= 400 && status < 500;
+};
+
+const requestNewTokens = async (): Promise<string> => {
+    const refresh = await SecureStore.getItemAsync("refreshToken");
+    if (!refresh) throw new Error("No refresh token available");
+
+    // Plain axios keeps the refresh call out of the interceptors and the response cache
+    const { data } = await axios.post<RefreshResponse>(`${apiUrl}/auth/refresh-token`, {}, {
+        headers: {
+            'Authorization': `Bearer ${refresh}`
+        }
+    });
+
+    await SecureStore.setItemAsync("accessToken", data.accessToken);
+    await SecureStore.setItemAsync("refreshToken", data.refreshToken);
+    return data.accessToken;
+};
+
+/**
+ * Refreshes the tokens. Concurrent callers share one request,
+ * since the refresh token is rotated and can be used only once.
+ * @returns New access token
+ */
+export const refreshTokenInternal = (): Promise<string> => {
+    if (!refreshPromise) {
+        refreshPromise = requestNewTokens().finally(() => {
+            refreshPromise = null;
+        });
+    }
+    return refreshPromise;
+};
+
+/**
+ * Clears the stored session and tells listeners the user has to log in again
+ */
+export const expireSession = async (): Promise<void> => {
+    await SecureStore.deleteItemAsync("accessToken");
+    await SecureStore.deleteItemAsync("refreshToken");
+    await SecureStore.deleteItemAsync("user");
+    await clearCardSecret();
+    await saveBiometricEnabled(false);
+    await clearApiCache();
+    sessionExpiredListeners.forEach(listener => listener());
+};
+
+/**
+ * Subscribes to session expiry
+ * @param listener - Called after the stored session was cleared
+ * @returns Function removing the subscription
+ */
+export const subscribeSessionExpired = (listener: () => void): (() => void) => {
+    sessionExpiredListeners.add(listener);
+    return () => {
+        sessionExpiredListeners.delete(listener);
+    };
+};
+
+/**
+ * Returns the access token, refreshed first when it expires within the margin.
+ * A refresh that fails on the network keeps the current token, the request decides then.
+ * @returns Access token, null when logged out
+ */
+export const getValidAccessToken = async (): Promise<string | null> => {
+    const token = await SecureStore.getItemAsync('accessToken');
+    if (!token) return token;
+
+    const expiry = getTokenExpiry(token);
+    if (expiry === null || expiry - REFRESH_MARGIN > Date.now()) {
+        return token;
+    }
+
+    try {
+        return await refreshTokenInternal();
+    } catch (error) {
+        if (isRejectedRefresh(error)) {
+            console.error('Proactive token refresh rejected:', error);
+            await expireSession();
+            return null;
+        }
+        console.log('Proactive token refresh failed, using current token');
+        return token;
+    }
+};
+
+/**
+ * Resolves the token to retry a request that got 401.
+ * If another request refreshed meanwhile, its token is reused instead of refreshing again.
+ * @param sentToken - Access token the failed request was sent with
+ */
+export const getTokenAfterUnauthorized = async (sentToken: string | null): Promise<string> => {
+    const current = await SecureStore.getItemAsync('accessToken');
+    if (current && current !== sentToken) {
+        return current;
+    }
+    return refreshTokenInternal();
+};
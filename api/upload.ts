@@ -0,0 +1,72 @@
+import axios from 'axios';
+import { privateApi } from '@/api/client';
+
+// Photos and videos on mobile data take longer than the default request timeout
+const UPLOAD_TIMEOUT = 5 * 60 * 1000;
+
+export interface UploadOptions {
+    /** Called with the uploaded share of the request body, from 0 to 1 */
+    onProgress?: (progress: number) => void;
+    /** Aborts the upload when signalled */
+    signal?: AbortSignal;
+}
+
+export interface UploadFile {
+    uri: string;
+    name: string;
+    type: string;
+}
+
+/**
+ * Describes a local image for a multipart form, deriving the MIME type from the extension
+ * @param uri - Local file URI
+ */
+export const createImageFile = (uri: string): UploadFile => {
+    const name = uri.split('/').pop()!;
+    const match = /\.(\w+)$/.exec(name);
+    return {
+        uri,
+        name,
+        type: match ? `image/${match[1]}` : 'image/jpeg',
+    };
+};
+
+/**
+ * Sends a multipart form through privateApi, so uploads get the same token refresh
+ * and error handling as any other authenticated request.
+ * @param method - HTTP method of the endpoint
+ * @param url - Endpoint path
+ * @param formData - Form with fields and files
+ * @param options - Progress callback and abort signal
+ */
+export const uploadForm = async <T>(
+    method: 'post' | 'put' | 'patch',
+    url: string,
+    formData: FormData,
+    { onProgress, signal }: UploadOptions = {}
+): Promise<T> => {
+    onProgress?.(0);
+    const { data } = await privateApi.request<T>({
+        method,
+        url,
+        data: formData,
+        headers: {
+            'Accept': 'application/json',
+        },
+        timeout: UPLOAD_TIMEOUT,
+        signal,
+        onUploadProgress: event => {
+            if (onProgress && event.total) {
+                onProgress(Math.min(event.loaded / event.total, 1));
+            }
+        },
+    });
+    onProgress?.(1);
+    return data;
+};
+
+/**
+ * Checks whether a request failed because it was aborted by the user
+ * @param error - Error thrown by the request
+ */
+export const isUploadCanceled = (error: unknown): boolean => axios.isCancel(error);
@@ -1,8 +1,7 @@
 import {privateApi} from '@/api/client';
 import {UserInfo} from '@/types/UserInfo';
-import {Buffer} from 'buffer';
-import * as SecureStore from "expo-secure-store";
-import {apiUrl} from '@/api/apiUrl';
+import {BillingDetails} from '@/types/BillingDetails';
+import {createImageFile, UploadOptions, uploadForm} from '@/api/upload';
 
 export type UpdateUserInfoParams = {
     firstName: string;
@@ -21,97 +20,54 @@ export const deleteUserAccount = async (userId: string): Promise<void> => {
     await privateApi.delete('/users/' + userId);
 }
 
-export const updateUserInfo = async (params: UpdateUserInfoParams): Promise<UserInfo> => {
+export const updateUserInfo = async (params: UpdateUserInfoParams, options?: UploadOptions): Promise<UserInfo> => {
     const formData = new FormData();
     formData.append('firstName', params.firstName);
     formData.append('lastName', params.lastName);
     formData.append('birthDate', params.birthDate);
     formData.append('phoneNumber', params.phoneNumber);
+    formData.append('photo', createImageFile(params.profileImageUri) as any);
 
-    const uri = params.profileImageUri;
-    const filename = uri.split('/').pop()!;
-    const match = /\.(\w+)$/.exec(filename);
-    const type = match ? `image/${match[1]}` : 'image/jpeg';
-
-    formData.append('photo', {
-        uri: uri,
-        name: filename,
-        type: type,
-    } as any);
-
-    try {
-        const token = await SecureStore.getItemAsync('accessToken');
-
-        const response = await fetch(`${apiUrl}/users/info`, {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${token}`,
-                'Accept': 'application/json',
-            },
-            body: formData,
-        });
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            const errorData = JSON.parse(errorText);
-            throw new Error(errorData.message);
-        }
-
-        return await response.json();
-    } catch (error) {
-        console.error('Fetch upload failed:', error);
-        throw error;
-    }
+    return uploadForm<UserInfo>('post', '/users/info', formData, options);
 };
 
-export const getUserPhoto = async (userId: string): Promise<string | null> => {
+/**
+ * Downloads the raw bytes of a profile photo. Use getCachedUserPhoto to display it.
+ * @param userId - Photo owner
+ * @returns Photo bytes, or null when it could not be downloaded
+ */
+export const getUserPhotoData = async (userId: string): Promise<ArrayBuffer | null> => {
     try {
-        const response = await privateApi.get(`/users/info/${userId}/photo`, {
+        const response = await privateApi.get<ArrayBuffer>(`/users/info/${userId}/photo`, {
             responseType: 'arraybuffer',
         });
-
-        const base64 = Buffer.from(response.data, 'binary').toString('base64');
-        const mimeType = response.headers['content-type'] || 'image/jpeg';
-
-        return `data:${mimeType};base64,${base64}`;
+        return response.data;
     } catch (error) {
-        console.error('getUserPhoto error:', error);
+        console.error('getUserPhotoData error:', error);
         return null;
     }
 };
 
-export const updateUserPhoto = async (photoUri: string): Promise<UserInfo> => {
-    const filename = photoUri.split('/').pop()!;
-    const match = /\.(\w+)$/.exec(filename);
-    const type = match ? `image/${match[1]}` : 'image/jpeg';
-
+export const updateUserPhoto = async (photoUri: string, options?: UploadOptions): Promise<UserInfo> => {
     const formData = new FormData();
-    formData.append('photo', {
-        uri: photoUri,
-        name: filename,
-        type: type,
-    } as any);
-
-    try {
-        const token = await SecureStore.getItemAsync('accessToken');
+    formData.append('photo', createImageFile(photoUri) as any);
 
-        const response = await fetch(`${apiUrl}/users/info/photo`, {
-            method: 'PATCH',
-            headers: {
-                'Authorization': `Bearer ${token}`,
-                'Accept': 'application/json',
-            },
-            body: formData,
-        });
+    return uploadForm<UserInfo>('patch', '/users/info/photo', formData, options);
+};
 
-        if (!response.ok) {
-            const errorText = await response.text();
-            const errorData = JSON.parse(errorText);
-            throw new Error(errorData.message);
-        }
+/**
+ * Saves company data printed on invoices
+ * @param billingDetails - Company name, NIP and address
+ */
+export const updateBillingDetails = async (billingDetails: BillingDetails): Promise<UserInfo> => {
+    const {data} = await privateApi.put<UserInfo>('/users/info/billing', billingDetails);
+    return data;
+};
 
-        return await response.json();
-    } catch (error) {
-        throw error;
-    }
+/**
+ * Removes company data, later invoices are issued to the member as a private person
+ */
+export const deleteBillingDetails = async (): Promise<UserInfo> => {
+    const {data} = await privateApi.delete<UserInfo>('/users/info/billing');
+    return data;
 };
@@ -0,0 +1,25 @@
+import {privateApi} from "@/api/client";
+import {WaitlistEntry} from "@/types/WaitlistEntry";
+
+export interface WaitlistRequest {
+    classScheduleId: string;
+    userId: string;
+    yearWeek: string;
+}
+
+/**
+ * Returns the user's waitlist entries, including recently promoted ones
+ */
+export const getUserWaitlist = async (): Promise<WaitlistEntry[]> => {
+    const { data } = await privateApi.get<WaitlistEntry[]>('/waitlist/user');
+    return data;
+};
+
+export const joinWaitlist = async (request: WaitlistRequest): Promise<WaitlistEntry> => {
+    const { data } = await privateApi.post<WaitlistEntry>('/waitlist', request);
+    return data;
+};
+
+export const leaveWaitlist = async (waitlistEntryId: string): Promise<void> => {
+    await privateApi.delete(`/waitlist/${waitlistEntryId}`);
+};
@@ -81,6 +81,12 @@ export default {
                     sounds: []
                 }
             ],
+            [
+                "expo-local-authentication",
+                {
+                    faceIDPermission: "JodoGym używa Face ID, aby chronić dostęp do Twojego konta po ponownym otwarciu aplikacji."
+                }
+            ],
             [
                 "expo-splash-screen",
                 {
@@ -12,11 +12,13 @@ import {
 import PostItem from '@/components/post/PostItem';
 import { ThemedText } from '@/components/ThemedText';
 import { publicApi } from '@/api/client';
+import { expireCache } from '@/api/cache';
 import { Post } from '@/types/Post';
 import {PageResponse} from "@/types/PageResponse";
 import { apiUrl } from '@/api/apiUrl';
 import {handleApiError} from "@/utils/errorHandler";
 import { SafeAreaView } from 'react-native-safe-area-context';
+import OfflineBanner from '@/components/ui/OfflineBanner';
 
 /**
  * Posts screen component that displays a paginated list of gym announcements and news
@@ -79,8 +81,9 @@ export default function PostsScreen() {
      * Handles pull-to-refresh functionality
      * Resets to first page and reloads all posts
      */
-    const onRefresh = useCallback(() => {
+    const onRefresh = useCallback(async () => {
         setRefreshing(true);
+        await expireCache('/posts');
         void fetchPosts(0);
     }, [fetchPosts]);
 
@@ -142,6 +145,8 @@ export default function PostsScreen() {
                 </View>
             </SafeAreaView>
 
+            <OfflineBanner />
+
             <View style={styles.listContainer}>
                 <FlatList
                     data={posts}
@@ -12,6 +12,7 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { ThemedText } from '@/components/ThemedText';
 import { publicApi } from '@/api/client';
+import { expireCache } from '@/api/cache';
 import { SativaProduct } from '@/types/SativaProduct';
 import { SativaCategory } from '@/types/SativaCategory';
 import { PageResponse } from "@/types/PageResponse";
@@ -124,10 +125,11 @@ export default function SativaScreen() {
      * Handles pull-to-refresh functionality
      * Resets to first page and reloads products with current filter
      */
-    const onRefresh = useCallback(() => {
+    const onRefresh = useCallback(async () => {
         setRefreshing(true);
         setPage(0);
         setTotalPages(1); // Reset totalPages to allow refresh
+        await expireCache('/sativa-');
         fetchProducts(0, selectedCategory, true);
     }, [selectedCategory, fetchProducts]);
 
@@ -14,6 +14,7 @@ import { SafeAreaView } from "react-native-safe-area-context";
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
 import { publicApi } from '@/api/client';
+import { expireCache } from '@/api/cache';
 import { Product } from '@/types/Product';
 import { ProductFilters, FilterState } from '@/types/ProductFilters';
 import { PageResponse } from "@/types/PageResponse";
@@ -21,6 +22,7 @@ import ProductItem from "@/components/shop/ProductItem";
 import FilterComponent from "@/components/shop/FilterComponent";
 import { Ionicons } from '@expo/vector-icons';
 import ParallaxScrollView from "@/components/ui/ParallaxScrollView";
+import OfflineBanner from "@/components/ui/OfflineBanner";
 
 /**
  * Shop screen component that displays products with filtering and parallax view
@@ -142,10 +144,11 @@ export default function ShopScreen() {
      * Handles pull-to-refresh functionality
      * Resets to first page and reloads products with current filters
      */
-    const onRefresh = useCallback(() => {
+    const onRefresh = useCallback(async () => {
         setRefreshing(true);
         setPage(0);
         setTotalPages(1); // Reset totalPages to allow refresh
+        await expireCache('/products');
         fetchProducts(0, selectedFilters, true);
     }, [selectedFilters, fetchProducts]);
 
@@ -284,6 +287,9 @@ export default function ShopScreen() {
                     </ImageBackground>
                 }
             >
+                {/* Offline cached data notice */}
+                <OfflineBanner />
+
                 {/* Error display */}
                 {renderError()}
 
@@ -1,15 +1,24 @@
 import React, { useEffect, useRef } from 'react';
 import { DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { useFonts } from 'expo-font';
-import { Stack } from 'expo-router';
+import { Href, Stack, router } from 'expo-router';
+import * as Notifications from 'expo-notifications';
 import { StatusBar } from 'expo-status-bar';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
+import { Alert, AppState } from 'react-native';
 import 'react-native-reanimated';
 
 import { AuthProvider, useAuth } from '@/context/AuthContext';
 import { UserProvider, useUser } from '@/context/UserContext';
+import { WorkoutGoalsProvider } from '@/context/WorkoutGoalsContext';
 import { useLocationTracking } from '@/hooks/useLocationTracking';
-import { registerForPushNotificationsAsync } from "@/utils/notifications";
+import { registerForPushNotificationsAsync, notifyWaitlistPromotions } from "@/utils/notifications";
+import { getUserWaitlist } from "@/api/waitlist";
+import { reconcileClassReminders, clearClassReminders } from "@/utils/classReminders";
+import { cancelGoalReminder } from "@/utils/workoutGoals";
+import { clearMembershipReminders, getLowEntriesThreshold, syncMembershipReminders } from "@/utils/membershipReminders";
+import { flushPendingPurchases } from "@/utils/pendingPurchases";
+import BiometricLockScreen from "@/components/auth/BiometricLockScreen";
 
 function LocationInitializer() {
     const { user } = useAuth();
@@ -85,6 +94,163 @@ function LocationInitializer() {
     return null;
 }
 
+/**
+ * Checks the user's waitlist on login and whenever the app returns to the foreground,
+ * so a promotion into a booking is announced even if the schedule screen is never opened.
+ */
+function WaitlistWatcher() {
+    const { user } = useAuth();
+
+    useEffect(() => {
+        if (!user?.id) return;
+
+        const checkPromotions = () => {
+            getUserWaitlist()
+                .then(notifyWaitlistPromotions)
+                .catch((error) => console.error('❌ Waitlist check failed:', error));
+        };
+
+        checkPromotions();
+
+        const subscription = AppState.addEventListener('change', (nextAppState) => {
+            if (nextAppState === 'active') {
+                checkPromotions();
+            }
+        });
+
+        return () => {
+            subscription.remove();
+        };
+    }, [user?.id]);
+
+    return null;
+}
+
+/**
+ * Reconciles local class reminders with server bookings once per login
+ * and removes them on logout, so reminders of cancelled classes never fire.
+ * The weekly goal and membership reminders belong to the user as well and are cancelled with them.
+ */
+function ClassRemindersInitializer() {
+    const { user } = useAuth();
+    const wasLoggedIn = useRef(false);
+
+    useEffect(() => {
+        if (user?.id) {
+            wasLoggedIn.current = true;
+            reconcileClassReminders();
+        } else if (wasLoggedIn.current) {
+            wasLoggedIn.current = false;
+            clearClassReminders();
+            cancelGoalReminder();
+            clearMembershipReminders();
+        }
+    }, [user?.id]);
+
+    return null;
+}
+
+/**
+ * Reschedules membership expiry and low entries reminders whenever the membership data changes,
+ * with the low entries threshold chosen by the user. Changes of the threshold resync on their own.
+ */
+function MembershipRemindersInitializer() {
+    const { user } = useAuth();
+    const { membership } = useUser();
+
+    useEffect(() => {
+        if (membership && user?.id) {
+            getLowEntriesThreshold(user.id)
+                .then((threshold) => syncMembershipReminders(membership, threshold));
+        }
+    }, [membership, user?.id]);
+
+    return null;
+}
+
+/**
+ * Sends paid purchases the API did not record yet on login and whenever the app
+ * returns to the foreground, so a failed request after checkout is never lost.
+ * Purchases the API rejects are reported with their transaction id for the reception.
+ */
+function PendingPurchasesInitializer() {
+    const { user } = useAuth();
+    const { refreshMembership } = useUser();
+
+    useEffect(() => {
+        if (!user?.id) return;
+        const userId = user.id;
+
+        const flush = () => {
+            flushPendingPurchases(userId)
+                .then(({ recorded, rejected }) => {
+                    if (rejected.length > 0) {
+                        Alert.alert(
+                            'Płatność nie została zapisana',
+                            `Płatność została pobrana, ale nie udało się zapisać karnetu. Skontaktuj się z recepcją i podaj numer transakcji: ${rejected.join(', ')}`
+                        );
+                    }
+                    if (recorded.length > 0) {
+                        return refreshMembership();
+                    }
+                })
+                .catch((error) => console.error('❌ Pending purchases flush failed:', error));
+        };
+
+        flush();
+
+        const subscription = AppState.addEventListener('change', (nextAppState) => {
+            if (nextAppState === 'active') {
+                flush();
+            }
+        });
+
+        return () => {
+            subscription.remove();
+        };
+    }, [user?.id, refreshMembership]);
+
+    return null;
+}
+
+/**
+ * Opens the screen a tapped notification points to with its data.url,
+ * including the notification that launched the app
+ */
+function NotificationNavigator() {
+    useEffect(() => {
+        const openUrl = (response: Notifications.NotificationResponse | null) => {
+            const url = response?.notification.request.content.data?.url;
+            if (typeof url === 'string') {
+                router.push(url as Href);
+            }
+        };
+
+        // Cleared once handled, so the launching notification is not reopened on the next start
+        Notifications.getLastNotificationResponseAsync()
+            .then((response) => {
+                openUrl(response);
+                return Notifications.clearLastNotificationResponseAsync();
+            })
+            .catch((error) => console.error('❌ Reading last notification failed:', error));
+
+        const subscription = Notifications.addNotificationResponseReceivedListener(openUrl);
+        return () => {
+            subscription.remove();
+        };
+    }, []);
+
+    return null;
+}
+
+/**
+ * Covers the app with the biometric lock while the stored session is locked
+ */
+function BiometricGate() {
+    const { locked } = useAuth();
+    return locked ? <BiometricLockScreen /> : null;
+}
+
 export default function RootLayout() {
     const [loaded] = useFonts({
         SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
@@ -102,61 +268,101 @@ export default function RootLayout() {
         <GestureHandlerRootView style={{ flex: 1 }}>
             <AuthProvider>
                 <UserProvider>
-                    <ThemeProvider value={DefaultTheme}>
-                        <LocationInitializer />
-
-                        <Stack>
-                            <Stack.Screen
-                                name="(tabs)"
-                                options={{
-                                    headerShown: false,
-                                    title: 'Konto'
-                                }}
-                            />
-                            <Stack.Screen
-                                name="activity"
-                                options={{
-                                    title: 'Moja aktywność',
-                                    headerShown: true,
-                                    headerBackTitle: 'Wstecz',
-                                }}
-                            />
-                            <Stack.Screen
-                                name="schedule"
-                                options={{
-                                    title: 'Harmonogram zajęć',
-                                    headerShown: true,
-                                    headerBackTitle: 'Wstecz',
-                                }}
-                            />
-                            <Stack.Screen
-                                name="ranking"
-                                options={{
-                                    title: 'Ranking',
-                                    headerShown: true,
-                                    headerBackTitle: 'Wstecz',
-                                }}
-                            />
-                            <Stack.Screen
-                                name="membershipTypes"
-                                options={{
-                                    title: 'Dostępne karnety',
-                                    headerShown: true,
-                                    headerBackTitle: 'Wstecz',
-                                }}
-                            />
-                            <Stack.Screen
-                                name="purchase"
-                                options={{
-                                    title: 'Historia karnetów',
-                                    headerShown: true,
-                                    headerBackTitle: 'Wstecz',
-                                }}
-                            />
-                        </Stack>
-
-                        <StatusBar style="auto" />
-                    </ThemeProvider>
+                    <WorkoutGoalsProvider>
+                        <ThemeProvider value={DefaultTheme}>
+                            <LocationInitializer />
+                            <WaitlistWatcher />
+                            <ClassRemindersInitializer />
+                            <MembershipRemindersInitializer />
+                            <PendingPurchasesInitializer />
+                            <NotificationNavigator />
+
+                            <Stack>
+                                <Stack.Screen
+                                    name="(tabs)"
+                                    options={{
+                                        headerShown: false,
+                                        title: 'Konto'
+                                    }}
+                                />
+                                <Stack.Screen
+                                    name="activity"
+                                    options={{
+                                        title: 'Moja aktywność',
+                                        headerShown: true,
+                                        headerBackTitle: 'Wstecz',
+                                    }}
+                                />
+                                <Stack.Screen
+                                    name="schedule"
+                                    options={{
+                                        title: 'Harmonogram zajęć',
+                                        headerShown: true,
+                                        headerBackTitle: 'Wstecz',
+                                    }}
+                                />
+                                <Stack.Screen
+                                    name="ranking"
+                                    options={{
+                                        title: 'Ranking',
+                                        headerShown: true,
+                                        headerBackTitle: 'Wstecz',
+                                    }}
+                                />
+                                <Stack.Screen
+                                    name="rankingProgress"
+                                    options={{
+                                        title: 'Mój postęp',
+                                        headerShown: true,
+                                        headerBackTitle: 'Wstecz',
+                                    }}
+                                />
+                                <Stack.Screen
+                                    name="membershipCard"
+                                    options={{
+                                        title: 'Karta',
+                                        headerShown: true,
+                                        headerBackTitle: 'Wstecz',
+                                    }}
+                                />
+                                <Stack.Screen
+                                    name="entryLedger"
+                                    options={{
+                                        title: 'Historia wejść',
+                                        headerShown: true,
+                                        headerBackTitle: 'Wstecz',
+                                    }}
+                                />
+                                <Stack.Screen
+                                    name="membershipTypes"
+                                    options={{
+                                        title: 'Dostępne karnety',
+                                        headerShown: true,
+                                        headerBackTitle: 'Wstecz',
+                                    }}
+                                />
+                                <Stack.Screen
+                                    name="checkout"
+                                    options={{
+                                        title: 'Zakup karnetu',
+                                        headerShown: true,
+                                        headerBackTitle: 'Wstecz',
+                                    }}
+                                />
+                                <Stack.Screen
+                                    name="purchase"
+                                    options={{
+                                        title: 'Historia karnetów',
+                                        headerShown: true,
+                                        headerBackTitle: 'Wstecz',
+                                    }}
+                                />
+                            </Stack>
+
+                            <BiometricGate />
+                            <StatusBar style="auto" />
+                        </ThemeProvider>
+                    </WorkoutGoalsProvider>
                 </UserProvider>
             </AuthProvider>
         </GestureHandlerRootView>
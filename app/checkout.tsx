@@ -0,0 +1,7 @@
+import { useLocalSearchParams } from "expo-router";
+import CheckoutScreen from "@/components/membershipTypes/CheckoutScreen";
+
+export default function Checkout() {
+    const { typeId } = useLocalSearchParams<{ typeId: string }>();
+    return <CheckoutScreen typeId={typeId} />;
+}
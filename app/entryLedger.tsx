@@ -0,0 +1,5 @@
+import EntryLedgerScreen from "@/components/user/EntryLedgerScreen";
+
+export default function EntryLedger() {
+    return <EntryLedgerScreen />
+}
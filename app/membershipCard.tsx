@@ -0,0 +1,5 @@
+import MembershipCardScreen from "@/components/user/MembershipCardScreen";
+
+export default function MembershipCard() {
+    return <MembershipCardScreen />
+}
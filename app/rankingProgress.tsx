@@ -0,0 +1,7 @@
+import { useLocalSearchParams } from "expo-router";
+import RankingProgressScreen from "@/components/ranking/RankingProgressScreen";
+
+export default function RankingProgress() {
+    const { exerciseId } = useLocalSearchParams<{ exerciseId: string }>();
+    return <RankingProgressScreen exerciseId={exerciseId} />;
+}
@@ -0,0 +1,138 @@
+/**
+ * BiometricLockScreen Component
+ *
+ * Covers the whole app while the stored session waits for Face ID or fingerprint.
+ * The prompt opens on its own, the user can retry it or switch to password login.
+ */
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Image } from 'expo-image';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/context/AuthContext';
+import { getBiometricLabel } from '@/utils/biometrics';
+
+export default function BiometricLockScreen() {
+    const { unlock, loginWithPassword } = useAuth();
+    const [label, setLabel] = useState('biometria');
+    const [checking, setChecking] = useState(false);
+    const [failed, setFailed] = useState(false);
+    const prompted = useRef(false);
+
+    const handleUnlock = useCallback(async () => {
+        setChecking(true);
+        setFailed(false);
+        try {
+            const recognised = await unlock();
+            setFailed(!recognised);
+        } finally {
+            setChecking(false);
+        }
+    }, [unlock]);
+
+    useEffect(() => {
+        getBiometricLabel().then(setLabel);
+    }, []);
+
+    // Ask right away, the user opened the app to use it. Only once, retries are up to the user.
+    useEffect(() => {
+        if (prompted.current) return;
+        prompted.current = true;
+        handleUnlock();
+    }, [handleUnlock]);
+
+    return (
+        <View style={StyleSheet.absoluteFill}>
+            <LinearGradient colors={['#000000', '#1a1a1a']} style={styles.container}>
+                <Image
+                    source={require('@/assets/images/Jodo.png')}
+                    style={styles.logo}
+                    contentFit="contain"
+                />
+                <Text style={styles.title}>Aplikacja zablokowana</Text>
+                <Text style={styles.subtitle}>Potwierdź tożsamość ({label}), aby kontynuować</Text>
+
+                {failed && (
+                    <Text style={styles.errorText}>Nie rozpoznano. Spróbuj ponownie.</Text>
+                )}
+
+                <TouchableOpacity
+                    style={[styles.unlockButton, checking && styles.buttonDisabled]}
+                    onPress={handleUnlock}
+                    disabled={checking}
+                >
+                    {checking ? (
+                        <ActivityIndicator color="#000" size="small" />
+                    ) : (
+                        <>
+                            <Ionicons name="finger-print" size={22} color="#000" />
+                            <Text style={styles.unlockButtonText}>Odblokuj</Text>
+                        </>
+                    )}
+                </TouchableOpacity>
+
+                <TouchableOpacity style={styles.passwordButton} onPress={loginWithPassword} disabled={checking}>
+                    <Text style={styles.passwordButtonText}>Zaloguj się hasłem</Text>
+                </TouchableOpacity>
+            </LinearGradient>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        paddingHorizontal: 32,
+    },
+    logo: {
+        width: 140,
+        height: 140,
+        marginBottom: 24,
+    },
+    title: {
+        fontSize: 24,
+        fontWeight: 'bold',
+        color: '#ffffff',
+        marginBottom: 8,
+    },
+    subtitle: {
+        fontSize: 16,
+        color: '#9ca3af',
+        textAlign: 'center',
+        marginBottom: 24,
+    },
+    errorText: {
+        fontSize: 14,
+        color: '#F44336',
+        marginBottom: 16,
+    },
+    unlockButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+        width: '100%',
+        paddingVertical: 16,
+        borderRadius: 12,
+        backgroundColor: '#ffc500',
+    },
+    buttonDisabled: {
+        opacity: 0.6,
+    },
+    unlockButtonText: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#000',
+    },
+    passwordButton: {
+        marginTop: 20,
+        padding: 8,
+    },
+    passwordButtonText: {
+        fontSize: 15,
+        color: '#ffc500',
+        fontWeight: '600',
+    },
+});
@@ -0,0 +1,365 @@
+import React, { useEffect, useState } from 'react';
+import {
+    StyleSheet,
+    Text,
+    View,
+    ScrollView,
+    StatusBar,
+    ActivityIndicator,
+    TouchableOpacity,
+    Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { MembershipType } from "@/types/MembershipType";
+import { PaymentMethod } from "@/types/Payment";
+import { getActiveMembershipTypes } from "@/api/membership";
+import { getPaymentProvider } from "@/api/paymentProvider";
+import { useAuth } from "@/context/AuthContext";
+import { useUser } from "@/context/UserContext";
+import { formatDate, formatDuration, formatPrice } from "@/utils/formatters";
+import { formatGymDate } from "@/utils/gymTime";
+import { getPurchaseExpiryDate, getPurchaseStartDate, PAYMENT_METHOD_LABELS } from "@/utils/checkout";
+import { submitPurchase } from "@/utils/pendingPurchases";
+import { getErrorMessage, handleApiError } from "@/utils/errorHandler";
+
+interface CheckoutScreenProps {
+    typeId: string;
+}
+
+const PAYMENT_METHOD_ICONS: Record<PaymentMethod, keyof typeof Ionicons.glyphMap> = {
+    card: 'card-outline',
+    blik: 'phone-portrait-outline',
+    transfer: 'swap-horizontal-outline',
+};
+
+/**
+ * CheckoutScreen Component
+ *
+ * Summary and payment of a selected membership type.
+ *
+ * Key Features:
+ * - Shows the start date and the computed expiry date of the new membership
+ * - Lets the user pick one of the payment provider's methods
+ * - Pays through the configured payment provider and records the purchase in the API
+ * - Keeps paid purchases the API did not record yet and retries them later
+ * - Refuses to run when no payment provider is installed
+ * - Opens the purchase history after a successful payment
+ */
+export default function CheckoutScreen({ typeId }: CheckoutScreenProps) {
+    const router = useRouter();
+    const { user } = useAuth();
+    const { membership, refreshMembership } = useUser();
+    const provider = getPaymentProvider();
+    const [membershipType, setMembershipType] = useState<MembershipType | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>(provider?.methods[0] ?? 'card');
+    const [processing, setProcessing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // The route only carries the id, the type itself comes from the cached list
+    useEffect(() => {
+        getActiveMembershipTypes()
+            .then(types => setMembershipType(types.find(type => type.id === typeId) ?? null))
+            .catch(handleApiError)
+            .finally(() => setLoading(false));
+    }, [typeId]);
+
+    const startDate = getPurchaseStartDate(membership);
+    const expiryDate = membershipType ? getPurchaseExpiryDate(membershipType, startDate) : null;
+
+    /**
+     * Charges the user and records the purchase once the payment went through
+     */
+    const handleConfirm = async () => {
+        if (!membershipType || !provider || !user) return;
+
+        setError(null);
+        setProcessing(true);
+        try {
+            const result = await provider.pay({
+                amount: membershipType.price,
+                description: membershipType.name,
+                method: paymentMethod,
+            });
+
+            if (result.status === 'canceled') return;
+            if (result.status === 'failed' || !result.transactionId) {
+                setError(result.message || 'Płatność nie powiodła się. Spróbuj ponownie.');
+                return;
+            }
+
+            const status = await submitPurchase(user.id, {
+                membershipTypeId: membershipType.id,
+                startDate: formatGymDate(startDate),
+                paymentMethod,
+                paymentProvider: provider.id,
+                transactionId: result.transactionId,
+            });
+
+            if (status === 'needsSupport') {
+                Alert.alert(
+                    'Płatność nie została zapisana',
+                    `Płatność została pobrana, ale nie udało się zapisać karnetu. Skontaktuj się z recepcją i podaj numer transakcji: ${result.transactionId}`
+                );
+                router.replace('/purchase');
+                return;
+            }
+
+            if (status === 'pending') {
+                // The money is already taken, the purchase stays queued and is sent again on the next start
+                Alert.alert(
+                    'Płatność przyjęta',
+                    `Nie udało się jeszcze zapisać karnetu. Spróbujemy ponownie automatycznie. Numer transakcji: ${result.transactionId}`
+                );
+                router.replace('/purchase');
+                return;
+            }
+
+            await refreshMembership();
+            Alert.alert('Dziękujemy!', `Karnet ${membershipType.name} został zakupiony.`);
+            router.replace('/purchase');
+        } catch (err) {
+            console.error('Error processing payment:', err);
+            setError(getErrorMessage(err));
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <View style={styles.container}>
+                <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+                <View style={styles.centerContainer}>
+                    <ActivityIndicator size="large" color="#ffd500" />
+                </View>
+            </View>
+        );
+    }
+
+    if (!provider) {
+        return (
+            <View style={styles.container}>
+                <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+                <View style={styles.centerContainer}>
+                    <Ionicons name="card-outline" size={64} color="#d1d5db" />
+                    <Text style={styles.emptyText}>Płatności w aplikacji są niedostępne. Karnet kupisz w recepcji.</Text>
+                </View>
+            </View>
+        );
+    }
+
+    if (!membershipType) {
+        return (
+            <View style={styles.container}>
+                <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+                <View style={styles.centerContainer}>
+                    <Ionicons name="card-outline" size={64} color="#d1d5db" />
+                    <Text style={styles.emptyText}>Ten karnet nie jest już dostępny</Text>
+                </View>
+            </View>
+        );
+    }
+
+    return (
+        <SafeAreaView style={styles.container} edges={['left', 'right', 'bottom']}>
+            <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+            <ScrollView
+                contentContainerStyle={styles.scrollContainer}
+                showsVerticalScrollIndicator={false}
+            >
+                {/* Selected membership type */}
+                <View style={styles.card}>
+                    <Text style={styles.typeName}>{membershipType.name}</Text>
+                    <Text style={styles.typeDuration}>{formatDuration(membershipType)}</Text>
+                    <View style={styles.priceRow}>
+                        <Text style={styles.priceValue}>{formatPrice(membershipType.price)}</Text>
+                        <Text style={styles.priceCurrency}>zł</Text>
+                    </View>
+                </View>
+
+                {/* Validity of the new membership */}
+                <Text style={styles.sectionTitle}>Okres ważności</Text>
+                <View style={styles.card}>
+                    <View style={styles.detailRow}>
+                        <Text style={styles.detailLabel}>Początek</Text>
+                        <Text style={styles.detailValue}>{formatDate(startDate)}</Text>
+                    </View>
+                    <View style={styles.detailRow}>
+                        <Text style={styles.detailLabel}>{expiryDate ? 'Ważny do' : 'Liczba wejść'}</Text>
+                        <Text style={styles.detailValue}>
+                            {expiryDate ? formatDate(expiryDate) : membershipType.entryCount}
+                        </Text>
+                    </View>
+                </View>
+
+                {/* Payment methods */}
+                <Text style={styles.sectionTitle}>Metoda płatności</Text>
+                {provider.methods.map(method => {
+                    const selected = method === paymentMethod;
+                    return (
+                        <TouchableOpacity
+                            key={method}
+                            style={[styles.methodItem, selected && styles.methodItemSelected]}
+                            onPress={() => setPaymentMethod(method)}
+                            disabled={processing}
+                            activeOpacity={0.8}
+                        >
+                            <Ionicons name={PAYMENT_METHOD_ICONS[method]} size={22} color="#000" />
+                            <Text style={styles.methodText}>{PAYMENT_METHOD_LABELS[method]}</Text>
+                            <Ionicons
+                                name={selected ? 'radio-button-on' : 'radio-button-off'}
+                                size={22}
+                                color={selected ? '#ffc500' : '#ccc'}
+                            />
+                        </TouchableOpacity>
+                    );
+                })}
+
+                {error && <Text style={styles.errorText}>{error}</Text>}
+
+                <TouchableOpacity
+                    style={[styles.payButton, processing && styles.payButtonDisabled]}
+                    onPress={handleConfirm}
+                    disabled={processing}
+                    activeOpacity={0.8}
+                >
+                    {processing ? (
+                        <ActivityIndicator color="#000" size="small" />
+                    ) : (
+                        <Text style={styles.payButtonText}>Zapłać {formatPrice(membershipType.price)} zł</Text>
+                    )}
+                </TouchableOpacity>
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#FAFAFA'
+    },
+    centerContainer: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 24
+    },
+    emptyText: {
+        marginTop: 16,
+        fontSize: 16,
+        color: '#6b7280',
+        fontWeight: '500',
+        textAlign: 'center'
+    },
+    scrollContainer: {
+        padding: 20,
+        paddingBottom: 32
+    },
+    card: {
+        backgroundColor: '#fff',
+        borderRadius: 16,
+        padding: 20,
+        marginBottom: 24,
+        borderWidth: 1,
+        borderColor: '#ffd500',
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+        elevation: 4
+    },
+    typeName: {
+        fontSize: 20,
+        fontWeight: '700',
+        color: '#000',
+        marginBottom: 6
+    },
+    typeDuration: {
+        fontSize: 16,
+        color: '#666',
+        fontWeight: '500',
+        marginBottom: 12
+    },
+    priceRow: {
+        flexDirection: 'row',
+        alignItems: 'baseline'
+    },
+    priceValue: {
+        fontSize: 28,
+        fontWeight: 'bold',
+        color: '#000'
+    },
+    priceCurrency: {
+        fontSize: 18,
+        fontWeight: '600',
+        color: '#666',
+        marginLeft: 4
+    },
+    sectionTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        color: '#000',
+        marginBottom: 12
+    },
+    detailRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        paddingVertical: 6
+    },
+    detailLabel: {
+        fontSize: 15,
+        color: '#666'
+    },
+    detailValue: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#000'
+    },
+    methodItem: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        backgroundColor: '#fff',
+        borderRadius: 12,
+        borderWidth: 2,
+        borderColor: '#e0e0e0',
+        paddingHorizontal: 16,
+        paddingVertical: 14,
+        marginBottom: 10
+    },
+    methodItemSelected: {
+        borderColor: '#ffc500'
+    },
+    methodText: {
+        flex: 1,
+        fontSize: 16,
+        color: '#000',
+        fontWeight: '500'
+    },
+    errorText: {
+        color: '#F44336',
+        fontSize: 14,
+        marginTop: 6,
+        marginLeft: 4
+    },
+    payButton: {
+        marginTop: 20,
+        paddingVertical: 16,
+        borderRadius: 12,
+        backgroundColor: '#ffc500',
+        alignItems: 'center'
+    },
+    payButtonDisabled: {
+        opacity: 0.6
+    },
+    payButtonText: {
+        fontSize: 16,
+        fontWeight: '700',
+        color: '#000'
+    },
+});
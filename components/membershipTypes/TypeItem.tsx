@@ -12,6 +12,11 @@ import { formatDuration, formatPrice } from "@/utils/formatters";
 
 interface TypeItemProps {
     membershipType: MembershipType;
+    /** Effective price of one visit at the member's frequency, hidden when unknown */
+    costPerVisit?: number | null;
+    /** Highlights the plan cheapest for the member */
+    isRecommended?: boolean;
+    onPress?: () => void;
 }
 
 /**
@@ -25,11 +30,15 @@ interface TypeItemProps {
  * - Limited offer highlighting for special promotions
  * - Feature list showing included benefits
  * - Price display with proper formatting
- * - Touch-enabled for future selection functionality
+ * - Touch-enabled to open the checkout of the type
+ * - Cost per visit and a recommendation badge for the member's visit frequency
  *
  * @param membershipType - The membership type data to display
+ * @param costPerVisit - Effective price of one visit
+ * @param isRecommended - Whether the plan is the cheapest for the member
+ * @param onPress - Called when the user selects the type
  */
-export default function TypeItem({ membershipType }: TypeItemProps) {
+export default function TypeItem({ membershipType, costPerVisit, isRecommended, onPress }: TypeItemProps) {
 
     /**
      * Determines appropriate icon based on membership type and features
@@ -68,8 +77,17 @@ export default function TypeItem({ membershipType }: TypeItemProps) {
         <TouchableOpacity
             style={styles.container}
             activeOpacity={0.8}
+            onPress={onPress}
         >
-            <View style={styles.card}>
+            <View style={[styles.card, isRecommended && styles.cardRecommended]}>
+                {/* Recommendation banner - the cheapest plan for the member's habits */}
+                {isRecommended && (
+                    <View style={styles.recommendedContainer}>
+                        <Ionicons name="star" size={14} color="#fff" />
+                        <Text style={styles.recommendedText}>Najkorzystniejszy dla Ciebie</Text>
+                    </View>
+                )}
+
                 {/* Limited offer banner - only shown for special promotions */}
                 { membershipType.isLimited && (
                     <View style={styles.limitedContainer}>
@@ -110,6 +128,13 @@ export default function TypeItem({ membershipType }: TypeItemProps) {
                             {formatDuration(membershipType)}
                         </Text>
 
+                        {/* Effective price of a visit at the member's frequency */}
+                        {costPerVisit != null && (
+                            <Text style={[styles.costPerVisit, isRecommended && styles.costPerVisitRecommended]}>
+                                ≈ {formatPrice(costPerVisit)} zł za wejście
+                            </Text>
+                        )}
+
                         {/* Show group exercises feature for premium memberships */}
                         {membershipType.withExercises && (
                             <View style={styles.featureContainer}>
@@ -149,6 +174,23 @@ const styles = StyleSheet.create({
         borderWidth: 1,
         borderColor: '#ffd500'
     },
+    cardRecommended: {
+        borderWidth: 2,
+        borderColor: '#4CAF50'
+    },
+    recommendedContainer: {
+        flexDirection: 'row',
+        backgroundColor: '#4CAF50',
+        padding: 6,
+        justifyContent: 'center',
+        alignItems: 'center'
+    },
+    recommendedText: {
+        color: '#fff',
+        fontWeight: 'bold',
+        fontSize: 14,
+        marginLeft: 6
+    },
     limitedContainer: {
         backgroundColor: '#f8b30d',
         padding: 8,
@@ -209,6 +251,16 @@ const styles = StyleSheet.create({
         fontWeight: '500',
         marginBottom: 12
     },
+    costPerVisit: {
+        fontSize: 14,
+        color: '#666',
+        fontWeight: '600',
+        marginTop: -6,
+        marginBottom: 12
+    },
+    costPerVisitRecommended: {
+        color: '#4CAF50'
+    },
     featureContainer: {
         marginBottom: 6
     },
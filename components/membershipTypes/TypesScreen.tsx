@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
     StyleSheet,
     Text,
@@ -9,10 +9,19 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
 import { MembershipType } from "@/types/MembershipType";
 import { getActiveMembershipTypes } from "@/api/membership";
 import TypeItem from './TypeItem';
 import {handleApiError} from "@/utils/errorHandler";
+import { useAuth } from "@/context/AuthContext";
+import { getActivityHistory } from "@/api/activity";
+import { getAverageVisitsPerWeek, getCheapestPlanId, getPlanCost, PlanCost } from "@/utils/planRecommender";
+import { formatPrice } from "@/utils/formatters";
+
+// The frequency only looks at recent weeks, a couple of pages is plenty
+const HISTORY_PAGE_SIZE = 100;
+const HISTORY_MAX_PAGES = 2;
 
 interface GroupedMembershipTypes {
     oneTime: MembershipType[];
@@ -33,16 +42,41 @@ interface GroupedMembershipTypes {
  * - Responsive sections with descriptive headers
  * - Loading and error handling with user feedback
  * - Empty state when no memberships are available
+ * - Opens the checkout of a selected membership type
+ * - Cost per visit of every plan based on the member's visit frequency, with the cheapest one highlighted
  */
 export default function TypesScreen() {
     const [membershipTypes, setMembershipTypes] = useState<MembershipType[]>([]);
     const [loading, setLoading] = useState(true);
+    const router = useRouter();
+    const { user } = useAuth();
+    const [visitsPerWeek, setVisitsPerWeek] = useState<number | null>(null);
 
     // Fetch membership types on component mount
     useEffect(() => {
         fetchMembershipTypes();
     }, []);
 
+    // The recommendation is optional, the list works without the activity history
+    useEffect(() => {
+        if (!user?.id) return;
+
+        getActivityHistory(user.id, HISTORY_PAGE_SIZE, HISTORY_MAX_PAGES)
+            .then(history => setVisitsPerWeek(getAverageVisitsPerWeek(history)))
+            .catch(error => console.error('Error loading activity history:', error));
+    }, [user?.id]);
+
+    const planCosts = useMemo(() => {
+        const costs = new Map<string, PlanCost>();
+        if (visitsPerWeek) {
+            membershipTypes.forEach(type => costs.set(type.id, getPlanCost(type, visitsPerWeek)));
+        }
+        return costs;
+    }, [membershipTypes, visitsPerWeek]);
+
+    const cheapestPlanId = useMemo(() => getCheapestPlanId([...planCosts.values()]), [planCosts]);
+    const cheapestPlan = membershipTypes.find(type => type.id === cheapestPlanId);
+
     /**
      * Fetches active membership types from API
      * Handles loading states and error scenarios
@@ -121,6 +155,12 @@ export default function TypesScreen() {
                         <TypeItem
                             key={type.id}
                             membershipType={type}
+                            costPerVisit={planCosts.get(type.id)?.costPerVisit}
+                            isRecommended={type.id === cheapestPlanId}
+                            onPress={() => router.push({
+                                pathname: '/checkout',
+                                params: { typeId: type.id },
+                            })}
                         />
                     ))}
                 </View>
@@ -153,6 +193,27 @@ export default function TypesScreen() {
                 showsVerticalScrollIndicator={false}
             >
 
+                {/* Recommendation based on the member's visit frequency */}
+                {visitsPerWeek !== null && membershipTypes.length > 0 && (
+                    <View style={styles.recommendationCard}>
+                        <View style={styles.recommendationHeader}>
+                            <Ionicons name="bulb-outline" size={22} color="#ff9000" />
+                            <Text style={styles.recommendationTitle}>Karnet dla Ciebie</Text>
+                        </View>
+                        {cheapestPlan && visitsPerWeek > 0 ? (
+                            <Text style={styles.recommendationText}>
+                                Trenujesz średnio {visitsPerWeek.toLocaleString('pl-PL', { maximumFractionDigits: 1 })} razy w tygodniu.
+                                {' '}Najtaniej wyjdzie Cię <Text style={styles.recommendationHighlight}>{cheapestPlan.name}</Text>
+                                {' '}– około {formatPrice(planCosts.get(cheapestPlan.id)!.costPerVisit!)} zł za wejście.
+                            </Text>
+                        ) : (
+                            <Text style={styles.recommendationText}>
+                                Gdy zaczniesz trenować, podpowiemy Ci, który karnet wyjdzie najtaniej przy Twojej liczbie wizyt.
+                            </Text>
+                        )}
+                    </View>
+                )}
+
                 {/* Membership Types Sections */}
                 <View style={styles.sectionsContainer}>
                     {renderSection(
@@ -264,6 +325,35 @@ const styles = StyleSheet.create({
         textAlign: 'center',
         lineHeight: 24
     },
+    recommendationCard: {
+        marginHorizontal: 16,
+        marginTop: 16,
+        padding: 16,
+        borderRadius: 16,
+        backgroundColor: '#fffbea',
+        borderWidth: 1,
+        borderColor: '#ffe680'
+    },
+    recommendationHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginBottom: 8
+    },
+    recommendationTitle: {
+        fontSize: 17,
+        fontWeight: 'bold',
+        color: '#000',
+        marginLeft: 8
+    },
+    recommendationText: {
+        fontSize: 14,
+        color: '#4b5563',
+        lineHeight: 20
+    },
+    recommendationHighlight: {
+        fontWeight: '700',
+        color: '#000'
+    },
     sectionsContainer: {
         marginTop: 24,
         paddingHorizontal: 16
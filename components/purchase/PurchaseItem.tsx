@@ -2,6 +2,8 @@ import React from 'react';
 import {
     View,
     Text,
+    TouchableOpacity,
+    ActivityIndicator,
     StyleSheet, ColorValue,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
@@ -11,6 +13,10 @@ import { formatDuration, formatPrice, formatDate } from "@/utils/formatters";
 
 interface PurchaseItemProps {
     purchase: MembershipPurchase;
+    onShareInvoice?: () => void;
+    onSaveInvoice?: () => void;
+    /** Shows progress instead of the invoice actions while the PDF is prepared */
+    invoiceLoading?: boolean;
 }
 
 /**
@@ -19,9 +25,14 @@ interface PurchaseItemProps {
  * Displays a single purchase item with formatted date, status, type, and price information.
  * Features adaptive UI based on purchase type (one-time, gym, or open membership).
  *
+ * Offers sharing and saving of the purchase invoice.
+ *
  * @param purchase - The membership purchase data to display
+ * @param onShareInvoice - Shares the invoice PDF
+ * @param onSaveInvoice - Saves the invoice PDF on the device
+ * @param invoiceLoading - Whether the invoice PDF is being prepared
  */
-export default function PurchaseItem({ purchase }: PurchaseItemProps) {
+export default function PurchaseItem({ purchase, onShareInvoice, onSaveInvoice, invoiceLoading }: PurchaseItemProps) {
 
     /**
      * Determines appropriate icon based on purchase type
@@ -114,6 +125,34 @@ export default function PurchaseItem({ purchase }: PurchaseItemProps) {
                             <Ionicons name="receipt-outline" size={14} color="#999" />
                             <Text style={styles.idText}>ID: {purchase.id.slice(-8).toUpperCase()}</Text>
                         </View>
+
+                        {/* Invoice actions */}
+                        {invoiceLoading ? (
+                            <ActivityIndicator size="small" color="#ffc500" />
+                        ) : (
+                            <View style={styles.invoiceActions}>
+                                {onShareInvoice && (
+                                    <TouchableOpacity
+                                        style={styles.invoiceAction}
+                                        onPress={onShareInvoice}
+                                        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                                    >
+                                        <Ionicons name="share-outline" size={16} color="#36b2f4" />
+                                        <Text style={styles.invoiceActionText}>Udostępnij</Text>
+                                    </TouchableOpacity>
+                                )}
+                                {onSaveInvoice && (
+                                    <TouchableOpacity
+                                        style={styles.invoiceAction}
+                                        onPress={onSaveInvoice}
+                                        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                                    >
+                                        <Ionicons name="download-outline" size={16} color="#36b2f4" />
+                                        <Text style={styles.invoiceActionText}>Zapisz</Text>
+                                    </TouchableOpacity>
+                                )}
+                            </View>
+                        )}
                     </View>
                 </View>
             </LinearGradient>
@@ -218,6 +257,9 @@ const styles = StyleSheet.create({
         marginLeft: 2
     },
     footer: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
         borderTopWidth: 1,
         borderTopColor: '#f0f0f0',
         paddingTop: 8,
@@ -232,5 +274,19 @@ const styles = StyleSheet.create({
         color: '#999',
         marginLeft: 4,
         fontFamily: 'monospace'
+    },
+    invoiceActions: {
+        flexDirection: 'row',
+        gap: 16
+    },
+    invoiceAction: {
+        flexDirection: 'row',
+        alignItems: 'center'
+    },
+    invoiceActionText: {
+        fontSize: 13,
+        color: '#36b2f4',
+        fontWeight: '600',
+        marginLeft: 4
     }
 });
\ No newline at end of file
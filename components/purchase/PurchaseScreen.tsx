@@ -15,7 +15,10 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { MembershipPurchase } from "@/types/MembershipPurchase";
 import PurchaseItem from './PurchaseItem';
 import {getPurchasesByMembershipId} from "@/api/purchase";
+import {expireCache} from "@/api/cache";
 import {useUser} from "@/context/UserContext";
+import {getInvoiceFile, InvoiceFile, saveInvoice, shareInvoice} from "@/utils/invoice";
+import {getErrorMessage} from "@/utils/errorHandler";
 
 /**
  * PurchaseScreen Component
@@ -29,13 +32,15 @@ import {useUser} from "@/context/UserContext";
  * - Pull-to-refresh functionality
  * - Loading and error handling
  * - Empty state when no purchases exist
+ * - Invoice PDF sharing and saving for every purchase
  */
 export default function PurchaseScreen() {
     const [purchases, setPurchases] = useState<MembershipPurchase[]>([]);
     const [total, setTotal] = useState<number>(0);
     const [loading, setLoading] = useState(true);
     const [refreshing, setRefreshing] = useState(false);
-    const { membership } = useUser();
+    const [invoicePurchaseId, setInvoicePurchaseId] = useState<string | null>(null);
+    const { membership, userInfo } = useUser();
 
     // Fetch purchases when membership changes
     useEffect(() => {
@@ -68,10 +73,54 @@ export default function PurchaseScreen() {
      */
     const onRefresh = async () => {
         setRefreshing(true);
+        await expireCache('/purchases');
         await fetchPurchases();
         setRefreshing(false);
     };
 
+    /**
+     * Prepares the invoice of a purchase and hands it to the share or save action
+     * @param purchase - Purchase to document
+     * @param action - What to do with the prepared PDF
+     */
+    const handleInvoice = async (
+        purchase: MembershipPurchase,
+        action: (invoice: InvoiceFile) => Promise<unknown>
+    ) => {
+        if (invoicePurchaseId) return;
+
+        setInvoicePurchaseId(purchase.id);
+        try {
+            const invoice = await getInvoiceFile(purchase, userInfo);
+            if (invoice.isReceipt) {
+                // The share sheet or folder picker follows right after the alert is dismissed
+                await new Promise<void>(resolve => Alert.alert(
+                    'Faktura niedostępna',
+                    'Faktura nie jest jeszcze gotowa. Przygotowaliśmy potwierdzenie zakupu z rozbiciem VAT.',
+                    [{ text: 'OK', onPress: () => resolve() }],
+                    { onDismiss: () => resolve() }
+                ));
+            }
+            await action(invoice);
+        } catch (error) {
+            console.error('Error preparing invoice:', error);
+            Alert.alert('Błąd', getErrorMessage(error));
+        } finally {
+            setInvoicePurchaseId(null);
+        }
+    };
+
+    /**
+     * Saves the PDF and confirms it, the iOS share sheet gives its own feedback
+     * @param invoice - Prepared invoice file
+     */
+    const handleSaveInvoice = async (invoice: InvoiceFile) => {
+        const saved = await saveInvoice(invoice);
+        if (saved && Platform.OS === 'android') {
+            Alert.alert('Zapisano', `Plik ${invoice.file.name} został zapisany.`);
+        }
+    };
+
     /**
      * Calculates total amount spent across all purchases
      * @returns Total spending amount
@@ -173,6 +222,9 @@ export default function PurchaseScreen() {
                                 <PurchaseItem
                                     key={purchase.id}
                                     purchase={purchase}
+                                    onShareInvoice={() => handleInvoice(purchase, shareInvoice)}
+                                    onSaveInvoice={() => handleInvoice(purchase, handleSaveInvoice)}
+                                    invoiceLoading={invoicePurchaseId === purchase.id}
                                 />
                             ))}
                         </View>
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { LayoutChangeEvent, StyleSheet, Text, View } from 'react-native';
+import Svg, { Circle, Line, Polyline, Text as SvgText } from 'react-native-svg';
+import { ProgressPoint } from '@/utils/rankingProgress';
+import { formatDate } from '@/utils/formatters';
+
+interface ProgressChartProps {
+    points: ProgressPoint[];
+    unit: string;
+    lowerIsBetter: boolean;
+    height?: number;
+}
+
+const PADDING = { top: 20, right: 16, bottom: 24, left: 44 };
+
+/**
+ * Line chart of results over time. For "lower is better" exercises the value axis is inverted,
+ * so progress always goes up.
+ */
+export function ProgressChart({ points, unit, lowerIsBetter, height = 200 }: ProgressChartProps) {
+    const [width, setWidth] = useState(0);
+
+    const handleLayout = (event: LayoutChangeEvent) => {
+        setWidth(event.nativeEvent.layout.width);
+    };
+
+    const counted = points.filter(point => point.entry.status !== 'REJECTED');
+    if (counted.length === 0) {
+        return <Text style={styles.emptyText}>Brak wyników do pokazania na wykresie</Text>;
+    }
+
+    const values = counted.map(point => point.entry.result);
+    const times = counted.map(point => new Date(point.entry.createdAt).getTime());
+    let minValue = Math.min(...values);
+    let maxValue = Math.max(...values);
+    if (minValue === maxValue) {
+        // Give a single value some room so it is not drawn on the edge
+        minValue -= 1;
+        maxValue += 1;
+    }
+    const minTime = Math.min(...times);
+    const timeSpan = Math.max(...times) - minTime;
+
+    const plotWidth = width - PADDING.left - PADDING.right;
+    const plotHeight = height - PADDING.top - PADDING.bottom;
+
+    const toX = (time: number) =>
+        PADDING.left + (timeSpan > 0 ? ((time - minTime) / timeSpan) * plotWidth : plotWidth / 2);
+    const toY = (value: number) => {
+        const share = (value - minValue) / (maxValue - minValue);
+        return PADDING.top + (lowerIsBetter ? share : 1 - share) * plotHeight;
+    };
+
+    const coordinates = counted.map((point, index) => ({
+        x: toX(times[index]),
+        y: toY(point.entry.result),
+        point,
+    }));
+
+    const bestLabel = lowerIsBetter ? minValue : maxValue;
+    const worstLabel = lowerIsBetter ? maxValue : minValue;
+
+    return (
+        <View style={{ height }} onLayout={handleLayout}>
+            {width > 0 && (
+                <Svg width={width} height={height}>
+                    <Line
+                        x1={PADDING.left}
+                        y1={PADDING.top}
+                        x2={width - PADDING.right}
+                        y2={PADDING.top}
+                        stroke="#f1f5f9"
+                        strokeWidth={1}
+                    />
+                    <Line
+                        x1={PADDING.left}
+                        y1={PADDING.top + plotHeight}
+                        x2={width - PADDING.right}
+                        y2={PADDING.top + plotHeight}
+                        stroke="#e5e7eb"
+                        strokeWidth={1}
+                    />
+                    <SvgText x={PADDING.left - 6} y={PADDING.top + 4} fontSize={11} fill="#6b7280" textAnchor="end">
+                        {Math.round(bestLabel * 10) / 10}
+                    </SvgText>
+                    <SvgText x={PADDING.left - 6} y={PADDING.top + plotHeight + 4} fontSize={11} fill="#6b7280" textAnchor="end">
+                        {Math.round(worstLabel * 10) / 10}
+                    </SvgText>
+                    <SvgText x={PADDING.left} y={height - 6} fontSize={11} fill="#6b7280">
+                        {formatDate(new Date(minTime))}
+                    </SvgText>
+                    {timeSpan > 0 && (
+                        <SvgText x={width - PADDING.right} y={height - 6} fontSize={11} fill="#6b7280" textAnchor="end">
+                            {formatDate(new Date(minTime + timeSpan))}
+                        </SvgText>
+                    )}
+
+                    <Polyline
+                        points={coordinates.map(({ x, y }) => `${x},${y}`).join(' ')}
+                        fill="none"
+                        stroke="#ff9000"
+                        strokeWidth={2}
+                    />
+
+                    {coordinates.map(({ x, y, point }) => (
+                        <Circle
+                            key={point.entry.id}
+                            cx={x}
+                            cy={y}
+                            r={point.isPersonalBest ? 6 : 4}
+                            // Pending results are drawn hollow until approved
+                            fill={point.entry.status === 'PENDING' ? '#ffffff' : point.isPersonalBest ? '#ff9000' : '#ffd500'}
+                            stroke="#ff9000"
+                            strokeWidth={2}
+                        />
+                    ))}
+                </Svg>
+            )}
+            <Text style={styles.unitLabel}>{unit}{lowerIsBetter ? ' · mniej = lepiej' : ''}</Text>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    emptyText: {
+        fontSize: 14,
+        color: '#9ca3af',
+        textAlign: 'center',
+        paddingVertical: 40
+    },
+    unitLabel: {
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        fontSize: 11,
+        color: '#9ca3af'
+    }
+});
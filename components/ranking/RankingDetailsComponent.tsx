@@ -1,7 +1,7 @@
-import {ActivityIndicator, ColorValue, ScrollView, StyleSheet, Text, View} from 'react-native'
+import {ActivityIndicator, ColorValue, ScrollView, StyleSheet, Text, TouchableOpacity, View} from 'react-native'
 import React, { useCallback } from 'react'
 import { Exercise } from "@/types/Exercise";
-import { RankingEntry } from '@/types/RankingEntry';
+import { RankingEntry, RankingEntryStatus } from '@/types/RankingEntry';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import { formatDate } from '@/utils/formatters';
@@ -11,8 +11,18 @@ interface RankingDetailsProps {
     entries: RankingEntry[];
     loading: boolean;
     getExerciseIcon: (iconRN: string | null | undefined) => keyof typeof Ionicons.glyphMap;
+    currentUserId?: string;
+    myEntries: RankingEntry[];
+    onAddResult: () => void;
+    onShowProgress: () => void;
 }
 
+export const STATUS_INFO: Record<RankingEntryStatus, { label: string; color: string; icon: keyof typeof Ionicons.glyphMap }> = {
+    PENDING: { label: 'Oczekuje', color: '#f59e0b', icon: 'time-outline' },
+    APPROVED: { label: 'Zatwierdzony', color: '#10b981', icon: 'checkmark-circle-outline' },
+    REJECTED: { label: 'Odrzucony', color: '#ef4444', icon: 'close-circle-outline' },
+};
+
 /**
  * RankingDetailsComponent
  *
@@ -23,8 +33,18 @@ interface RankingDetailsProps {
  * - Color-coded ranking entries with gradients
  * - Empty state when no results exist
  * - Loading state management
+ * - Highlight of the current user's row and history of their submitted results
  */
-export function RankingDetailsComponent({ exercise, entries, loading, getExerciseIcon }: RankingDetailsProps) {
+export function RankingDetailsComponent({
+    exercise,
+    entries,
+    loading,
+    getExerciseIcon,
+    currentUserId,
+    myEntries,
+    onAddResult,
+    onShowProgress
+}: RankingDetailsProps) {
     /**
      * Get gradient colors for podium positions
      * @param position - Array index (0-based)
@@ -111,6 +131,17 @@ export function RankingDetailsComponent({ exercise, entries, loading, getExercis
                 </View>
             )}
 
+            {/* Submit a new result */}
+            <TouchableOpacity
+                style={styles.addResultButton}
+                onPress={onAddResult}
+                activeOpacity={0.8}
+                accessibilityLabel="Dodaj swój wynik"
+            >
+                <Ionicons name="add-circle-outline" size={22} color="#000" />
+                <Text style={styles.addResultText}>Dodaj swój wynik</Text>
+            </TouchableOpacity>
+
             {/* Ranking Entries */}
             <View style={styles.rankingContainer}>
                 {entries.length === 0 ? (
@@ -130,7 +161,8 @@ export function RankingDetailsComponent({ exercise, entries, loading, getExercis
                         {entries.map((entry, index) => (
                             <View key={entry.id} style={[
                                 styles.rankingEntry,
-                                index < 3 && styles.podiumEntry
+                                index < 3 && styles.podiumEntry,
+                                entry.userId === currentUserId && styles.ownEntry
                             ]}>
                                 <LinearGradient
                                     colors={index < 3 ? getPodiumColors(index) : ['#ffffff', '#ffffff'] as const}
@@ -161,12 +193,19 @@ export function RankingDetailsComponent({ exercise, entries, loading, getExercis
 
                                     {/* User information */}
                                     <View style={styles.userInfo}>
-                                        <Text style={[
-                                            styles.username,
-                                            index < 3 && styles.podiumUsername
-                                        ]}>
-                                            {entry.username}
-                                        </Text>
+                                        <View style={styles.usernameRow}>
+                                            <Text style={[
+                                                styles.username,
+                                                index < 3 && styles.podiumUsername
+                                            ]}>
+                                                {entry.username}
+                                            </Text>
+                                            {entry.userId === currentUserId && (
+                                                <View style={styles.ownBadge}>
+                                                    <Text style={styles.ownBadgeText}>Ty</Text>
+                                                </View>
+                                            )}
+                                        </View>
                                         <Text style={[
                                             styles.resultDate,
                                             index < 3 && styles.podiumDate
@@ -196,6 +235,47 @@ export function RankingDetailsComponent({ exercise, entries, loading, getExercis
                     </>
                 )}
             </View>
+
+            {/* Current user's submitted results */}
+            {myEntries.length > 0 && (
+                <View style={styles.myEntriesContainer}>
+                    <View style={styles.myEntriesHeader}>
+                        <Text style={styles.rankingTitle}>Moje wyniki</Text>
+                        <TouchableOpacity
+                            style={styles.progressLink}
+                            onPress={onShowProgress}
+                            accessibilityLabel="Zobacz mój postęp"
+                        >
+                            <Text style={styles.progressLinkText}>Mój postęp</Text>
+                            <Ionicons name="chevron-forward" size={16} color="#6366f1" />
+                        </TouchableOpacity>
+                    </View>
+                    {myEntries.map((entry) => {
+                        const status = STATUS_INFO[entry.status];
+                        return (
+                            <View key={entry.id} style={styles.myEntry}>
+                                <View style={styles.userInfo}>
+                                    <Text style={styles.myEntryResult}>
+                                        {entry.result} {exercise.unit}
+                                    </Text>
+                                    <Text style={styles.resultDate}>
+                                        {formatDate(new Date(entry.createdAt))}
+                                    </Text>
+                                    {entry.status === 'REJECTED' && entry.rejectionReason && (
+                                        <Text style={styles.rejectionReason}>{entry.rejectionReason}</Text>
+                                    )}
+                                </View>
+                                <View style={[styles.statusChip, { borderColor: status.color }]}>
+                                    <Ionicons name={status.icon} size={14} color={status.color} />
+                                    <Text style={[styles.statusChipText, { color: status.color }]}>
+                                        {status.label}
+                                    </Text>
+                                </View>
+                            </View>
+                        );
+                    })}
+                </View>
+            )}
         </ScrollView>
     );
 }
@@ -298,6 +378,93 @@ const styles = StyleSheet.create({
     rankingContainer: {
         gap: 12
     },
+    addResultButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: '#ffc500',
+        borderRadius: 12,
+        paddingVertical: 14,
+        marginBottom: 24
+    },
+    addResultText: {
+        marginLeft: 8,
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#000'
+    },
+    ownEntry: {
+        borderWidth: 3,
+        borderColor: '#ffc500'
+    },
+    usernameRow: {
+        flexDirection: 'row',
+        alignItems: 'center'
+    },
+    ownBadge: {
+        backgroundColor: '#ffc500',
+        borderRadius: 8,
+        paddingHorizontal: 8,
+        paddingVertical: 2,
+        marginLeft: 8,
+        marginBottom: 4
+    },
+    ownBadgeText: {
+        fontSize: 12,
+        fontWeight: 'bold',
+        color: '#000'
+    },
+    myEntriesContainer: {
+        marginTop: 32,
+        gap: 12
+    },
+    myEntriesHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'baseline'
+    },
+    progressLink: {
+        flexDirection: 'row',
+        alignItems: 'center'
+    },
+    progressLinkText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#6366f1'
+    },
+    myEntry: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#ffffff',
+        borderRadius: 12,
+        padding: 16,
+        borderWidth: 1,
+        borderColor: '#f1f5f9'
+    },
+    myEntryResult: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        color: '#1f2937',
+        marginBottom: 4
+    },
+    rejectionReason: {
+        fontSize: 13,
+        color: '#ef4444',
+        marginTop: 4
+    },
+    statusChip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        borderWidth: 1,
+        borderRadius: 12,
+        paddingHorizontal: 8,
+        paddingVertical: 4
+    },
+    statusChipText: {
+        fontSize: 12,
+        fontWeight: '600',
+        marginLeft: 4
+    },
     rankingTitle: {
         fontSize: 20,
         fontWeight: 'bold',
@@ -0,0 +1,140 @@
+import React from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { AgeBracket, RankingFilters, RankingGender } from '@/types/RankingFilters';
+import { AGE_BRACKETS, RANKING_SCOPES } from '@/utils/rankingFilters';
+
+interface RankingFilterBarProps {
+    filters: RankingFilters;
+    /** Bracket of the current user, marked in the age filter */
+    userAgeBracket: AgeBracket | null;
+    onChange: (filters: RankingFilters) => void;
+}
+
+const GENDERS: { value: RankingGender | null; label: string }[] = [
+    { value: null, label: 'Wszyscy' },
+    { value: 'MALE', label: 'Mężczyźni' },
+    { value: 'FEMALE', label: 'Kobiety' },
+];
+
+/**
+ * Ranking scope selector with optional gender and age bracket chips
+ */
+export function RankingFilterBar({ filters, userAgeBracket, onChange }: RankingFilterBarProps) {
+    const renderChip = (key: string, label: string, active: boolean, onPress: () => void) => (
+        <TouchableOpacity
+            key={key}
+            style={[styles.chip, active && styles.chipActive]}
+            onPress={onPress}
+            activeOpacity={0.8}
+        >
+            <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+        </TouchableOpacity>
+    );
+
+    return (
+        <View style={styles.container}>
+            {/* Scope tabs */}
+            <View style={styles.scopeSelector}>
+                {RANKING_SCOPES.map(scope => (
+                    <TouchableOpacity
+                        key={scope.value}
+                        style={[styles.scopeButton, filters.scope === scope.value && styles.scopeButtonActive]}
+                        onPress={() => onChange({ ...filters, scope: scope.value })}
+                    >
+                        <Text style={[styles.scopeText, filters.scope === scope.value && styles.scopeTextActive]}>
+                            {scope.label}
+                        </Text>
+                    </TouchableOpacity>
+                ))}
+            </View>
+
+            {/* Gender and age chips */}
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipsRow}>
+                {GENDERS.map(gender => renderChip(
+                    `gender-${gender.value}`,
+                    gender.label,
+                    filters.gender === gender.value,
+                    () => onChange({ ...filters, gender: gender.value })
+                ))}
+
+                <View style={styles.separator} />
+
+                {renderChip(
+                    'age-all',
+                    'Każdy wiek',
+                    filters.ageBracket === null,
+                    () => onChange({ ...filters, ageBracket: null })
+                )}
+                {AGE_BRACKETS.map(bracket => renderChip(
+                    `age-${bracket.id}`,
+                    bracket.id === userAgeBracket?.id ? `${bracket.label} (Ty)` : bracket.label,
+                    filters.ageBracket?.id === bracket.id,
+                    () => onChange({ ...filters, ageBracket: bracket })
+                ))}
+            </ScrollView>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        paddingHorizontal: 20,
+        paddingBottom: 12
+    },
+    scopeSelector: {
+        flexDirection: 'row',
+        backgroundColor: '#ffffff',
+        borderRadius: 12,
+        padding: 4,
+        borderWidth: 1,
+        borderColor: '#e5e7eb',
+        marginBottom: 10
+    },
+    scopeButton: {
+        flex: 1,
+        paddingVertical: 10,
+        alignItems: 'center',
+        borderRadius: 8
+    },
+    scopeButtonActive: {
+        backgroundColor: '#ffc500'
+    },
+    scopeText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#6b7280'
+    },
+    scopeTextActive: {
+        color: '#000'
+    },
+    chipsRow: {
+        alignItems: 'center',
+        gap: 8
+    },
+    chip: {
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        borderRadius: 16,
+        backgroundColor: '#ffffff',
+        borderWidth: 1,
+        borderColor: '#e5e7eb'
+    },
+    chipActive: {
+        backgroundColor: '#1f2937',
+        borderColor: '#1f2937'
+    },
+    chipText: {
+        fontSize: 13,
+        color: '#374151'
+    },
+    chipTextActive: {
+        color: '#ffffff',
+        fontWeight: '600'
+    },
+    separator: {
+        width: 1,
+        height: 20,
+        backgroundColor: '#e5e7eb',
+        marginHorizontal: 4
+    }
+});
@@ -0,0 +1,371 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    Platform,
+    RefreshControl,
+    ScrollView,
+    StyleSheet,
+    Text,
+    View
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Exercise } from '@/types/Exercise';
+import { RankingEntry } from '@/types/RankingEntry';
+import { RankingPosition } from '@/types/RankingPosition';
+import { getExercises, getMyRankingEntries, getMyRankingPosition } from '@/api/rankingEntry';
+import { expireCache } from '@/api/cache';
+import { buildProgress, formatResultDelta } from '@/utils/rankingProgress';
+import { formatDate } from '@/utils/formatters';
+import { ProgressChart } from '@/components/ranking/ProgressChart';
+import { STATUS_INFO } from '@/components/ranking/RankingDetailsComponent';
+
+interface RankingProgressScreenProps {
+    exerciseId: string;
+}
+
+const formatPlaces = (count: number): string => {
+    if (count === 1) return 'miejsce';
+    const lastDigit = count % 10;
+    const lastTwoDigits = count % 100;
+    return lastDigit >= 2 && lastDigit <= 4 && (lastTwoDigits < 12 || lastTwoDigits > 14) ? 'miejsca' : 'miejsc';
+};
+
+/**
+ * RankingProgressScreen Component
+ *
+ * The current user's results of one exercise over time.
+ * Features:
+ * - Chart of results, inverted for "lower is better" exercises
+ * - Difference of the latest result to the previous best
+ * - Ranking position and its change since the latest result
+ * - History of all submitted results with review status
+ */
+export default function RankingProgressScreen({ exerciseId }: RankingProgressScreenProps) {
+    const [exercise, setExercise] = useState<Exercise | null>(null);
+    const [entries, setEntries] = useState<RankingEntry[]>([]);
+    const [position, setPosition] = useState<RankingPosition | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [refreshing, setRefreshing] = useState(false);
+
+    /**
+     * Fetch exercise details, own entries and ranking position
+     */
+    const fetchData = useCallback(async () => {
+        try {
+            const [exercises, myEntries, myPosition] = await Promise.all([
+                getExercises(),
+                getMyRankingEntries(exerciseId),
+                getMyRankingPosition(exerciseId).catch(error => {
+                    console.error('Error fetching ranking position:', error);
+                    return null;
+                })
+            ]);
+            setExercise(exercises.find(item => item.id === exerciseId) ?? null);
+            setEntries(myEntries);
+            setPosition(myPosition);
+        } catch {
+            Alert.alert('Błąd', 'Wystąpił błąd podczas pobierania postępów');
+        } finally {
+            setLoading(false);
+        }
+    }, [exerciseId]);
+
+    useEffect(() => {
+        fetchData();
+    }, [fetchData]);
+
+    const handleRefresh = useCallback(async () => {
+        setRefreshing(true);
+        await expireCache('/ranking-entries', '/exercises');
+        await fetchData();
+        setRefreshing(false);
+    }, [fetchData]);
+
+    const lowerIsBetter = !!exercise?.lowerIsBetter;
+    const points = useMemo(() => buildProgress(entries, lowerIsBetter), [entries, lowerIsBetter]);
+
+    const bestPoint = [...points].reverse().find(point => point.isPersonalBest) ?? null;
+    const latestCounted = [...points].reverse().find(point => point.entry.status !== 'REJECTED') ?? null;
+
+    if (loading) {
+        return (
+            <View style={styles.loadingContainer}>
+                <ActivityIndicator size="large" color="#6366f1" />
+                <Text style={styles.loadingText}>Ładowanie postępów...</Text>
+            </View>
+        );
+    }
+
+    if (!exercise) {
+        return (
+            <View style={styles.loadingContainer}>
+                <Ionicons name="alert-circle-outline" size={48} color="#d1d5db" />
+                <Text style={styles.loadingText}>Nie znaleziono ćwiczenia</Text>
+            </View>
+        );
+    }
+
+    const renderRankMovement = () => {
+        if (!position?.rank) {
+            return <Text style={styles.summaryHint}>Brak zatwierdzonego wyniku</Text>;
+        }
+        if (position.previousRank === null) {
+            return <Text style={styles.summaryHint}>Pierwszy wynik w rankingu</Text>;
+        }
+
+        // A smaller position number is an advance
+        const movement = position.previousRank - position.rank;
+        if (movement === 0) {
+            return <Text style={styles.summaryHint}>Bez zmian</Text>;
+        }
+        return (
+            <View style={styles.movementRow}>
+                <Ionicons
+                    name={movement > 0 ? 'arrow-up' : 'arrow-down'}
+                    size={14}
+                    color={movement > 0 ? '#10b981' : '#ef4444'}
+                />
+                <Text style={[styles.movementText, { color: movement > 0 ? '#10b981' : '#ef4444' }]}>
+                    {Math.abs(movement)} {formatPlaces(Math.abs(movement))}
+                </Text>
+            </View>
+        );
+    };
+
+    return (
+        <SafeAreaView style={styles.container} edges={['left', 'right', 'bottom']}>
+            <ScrollView
+                contentContainerStyle={styles.scrollContainer}
+                showsVerticalScrollIndicator={false}
+                refreshControl={
+                    <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} colors={['#ffc500']} />
+                }
+            >
+                <Text style={styles.title}>{exercise.name}</Text>
+
+                {/* Summary */}
+                <View style={styles.summaryRow}>
+                    <View style={styles.summaryCard}>
+                        <Text style={styles.summaryLabel}>Rekord</Text>
+                        <Text style={styles.summaryValue}>
+                            {bestPoint ? `${bestPoint.entry.result} ${exercise.unit}` : '—'}
+                        </Text>
+                        {latestCounted?.previousBest != null && latestCounted.improvement !== null && (
+                            <Text style={[
+                                styles.summaryDelta,
+                                { color: latestCounted.improvement > 0 ? '#10b981' : '#6b7280' }
+                            ]}>
+                                {formatResultDelta(latestCounted.entry.result - latestCounted.previousBest, exercise.unit)} vs poprzedni rekord
+                            </Text>
+                        )}
+                    </View>
+                    <View style={styles.summaryCard}>
+                        <Text style={styles.summaryLabel}>Miejsce</Text>
+                        <Text style={styles.summaryValue}>
+                            {position?.rank ? `${position.rank} / ${position.participants}` : '—'}
+                        </Text>
+                        {renderRankMovement()}
+                    </View>
+                </View>
+
+                {/* Chart */}
+                <View style={styles.card}>
+                    <Text style={styles.sectionTitle}>Wyniki w czasie</Text>
+                    <ProgressChart points={points} unit={exercise.unit} lowerIsBetter={lowerIsBetter} />
+                </View>
+
+                {/* History, newest first */}
+                <Text style={styles.sectionTitle}>Historia</Text>
+                {points.length === 0 ? (
+                    <Text style={styles.emptyText}>Nie dodałeś jeszcze żadnego wyniku</Text>
+                ) : (
+                    [...points].reverse().map(point => {
+                        const status = STATUS_INFO[point.entry.status];
+                        return (
+                            <View key={point.entry.id} style={styles.entryRow}>
+                                <View style={styles.entryInfo}>
+                                    <View style={styles.entryResultRow}>
+                                        <Text style={styles.entryResult}>
+                                            {point.entry.result} {exercise.unit}
+                                        </Text>
+                                        {point.isPersonalBest && (
+                                            <View style={styles.pbBadge}>
+                                                <Ionicons name="trophy" size={12} color="#000" />
+                                                <Text style={styles.pbBadgeText}>PR</Text>
+                                            </View>
+                                        )}
+                                    </View>
+                                    <Text style={styles.entryDate}>{formatDate(new Date(point.entry.createdAt))}</Text>
+                                    {point.previousBest !== null && point.improvement !== null && (
+                                        <Text style={[
+                                            styles.entryDelta,
+                                            { color: point.improvement > 0 ? '#10b981' : '#6b7280' }
+                                        ]}>
+                                            {formatResultDelta(point.entry.result - point.previousBest, exercise.unit)}
+                                        </Text>
+                                    )}
+                                </View>
+                                <View style={[styles.statusChip, { borderColor: status.color }]}>
+                                    <Ionicons name={status.icon} size={14} color={status.color} />
+                                    <Text style={[styles.statusChipText, { color: status.color }]}>{status.label}</Text>
+                                </View>
+                            </View>
+                        );
+                    })
+                )}
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#f8fafc',
+        paddingBottom: Platform.OS === 'android' ? 25 : 0
+    },
+    loadingContainer: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center'
+    },
+    loadingText: {
+        marginTop: 16,
+        fontSize: 16,
+        color: '#6b7280',
+        fontWeight: '500'
+    },
+    scrollContainer: {
+        padding: 20,
+        paddingBottom: 40
+    },
+    title: {
+        fontSize: 24,
+        fontWeight: 'bold',
+        color: '#1f2937',
+        marginBottom: 16
+    },
+    summaryRow: {
+        flexDirection: 'row',
+        gap: 12,
+        marginBottom: 16
+    },
+    summaryCard: {
+        flex: 1,
+        backgroundColor: '#ffffff',
+        padding: 16,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: '#f1f5f9'
+    },
+    summaryLabel: {
+        fontSize: 12,
+        color: '#6b7280',
+        marginBottom: 4
+    },
+    summaryValue: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#1f2937',
+        marginBottom: 4
+    },
+    summaryDelta: {
+        fontSize: 12,
+        fontWeight: '600'
+    },
+    summaryHint: {
+        fontSize: 12,
+        color: '#9ca3af'
+    },
+    movementRow: {
+        flexDirection: 'row',
+        alignItems: 'center'
+    },
+    movementText: {
+        fontSize: 12,
+        fontWeight: '600',
+        marginLeft: 2
+    },
+    card: {
+        backgroundColor: '#ffffff',
+        borderRadius: 16,
+        padding: 16,
+        borderWidth: 1,
+        borderColor: '#f1f5f9',
+        marginBottom: 24
+    },
+    sectionTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        color: '#1f2937',
+        marginBottom: 12
+    },
+    emptyText: {
+        fontSize: 14,
+        color: '#9ca3af',
+        textAlign: 'center',
+        paddingVertical: 20
+    },
+    entryRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#ffffff',
+        borderRadius: 12,
+        padding: 16,
+        borderWidth: 1,
+        borderColor: '#f1f5f9',
+        marginBottom: 10
+    },
+    entryInfo: {
+        flex: 1
+    },
+    entryResultRow: {
+        flexDirection: 'row',
+        alignItems: 'center'
+    },
+    entryResult: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        color: '#1f2937'
+    },
+    pbBadge: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#ffc500',
+        borderRadius: 8,
+        paddingHorizontal: 6,
+        paddingVertical: 2,
+        marginLeft: 8
+    },
+    pbBadgeText: {
+        fontSize: 11,
+        fontWeight: 'bold',
+        color: '#000',
+        marginLeft: 2
+    },
+    entryDate: {
+        fontSize: 14,
+        color: '#6b7280',
+        marginTop: 2
+    },
+    entryDelta: {
+        fontSize: 13,
+        fontWeight: '600',
+        marginTop: 2
+    },
+    statusChip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        borderWidth: 1,
+        borderRadius: 12,
+        paddingHorizontal: 8,
+        paddingVertical: 4
+    },
+    statusChipText: {
+        fontSize: 12,
+        fontWeight: '600',
+        marginLeft: 4
+    }
+});
@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
 import {
     StyleSheet,
     Text,
@@ -15,10 +15,16 @@ import { useRouter } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Exercise } from "@/types/Exercise";
 import { RankingEntry } from "@/types/RankingEntry";
-import { getExercises } from "@/api/rankingEntry";
+import { getExercises, getMyRankingEntries } from "@/api/rankingEntry";
 import { getRankingEntries } from "@/api/exercise";
 import { RankingDetailsComponent } from "@/components/ranking/RankingDetailsComponent";
 import {SafeAreaView} from "react-native-safe-area-context";
+import SubmitResultModal from "@/components/ranking/SubmitResultModal";
+import { useAuth } from "@/context/AuthContext";
+import { useUser } from "@/context/UserContext";
+import { RankingFilterBar } from "@/components/ranking/RankingFilterBar";
+import { RankingFilters } from "@/types/RankingFilters";
+import { createDefaultFilters, getAgeBracket, getSavedRankingScope, saveRankingScope } from "@/utils/rankingFilters";
 
 /**
  * RankingScreen Component
@@ -28,6 +34,8 @@ import {SafeAreaView} from "react-native-safe-area-context";
  * - List of available exercises with icons
  * - Detailed ranking view with top 5 results
  * - Navigation between exercise list and rankings
+ * - Submitting own results for review and tracking their status
+ * - Period, gender and age filters, the period is remembered per exercise
  * - Error handling and loading states
  * - Responsive design with gradient backgrounds
  */
@@ -36,12 +44,22 @@ export default function RankingScreen() {
     const [exercises, setExercises] = useState<Exercise[]>([]);
     const [selectedExercise, setSelectedExercise] = useState<Exercise | null>(null);
     const [rankingEntries, setRankingEntries] = useState<RankingEntry[]>([]);
+    const [myEntries, setMyEntries] = useState<RankingEntry[]>([]);
+    const [submitVisible, setSubmitVisible] = useState(false);
+    const [filters, setFilters] = useState<RankingFilters>(createDefaultFilters());
 
     // Loading states
     const [loading, setLoading] = useState(true);
     const [rankingLoading, setRankingLoading] = useState(false);
 
     const router = useRouter();
+    const { user } = useAuth();
+    const { userInfo } = useUser();
+
+    const userAgeBracket = useMemo(
+        () => userInfo?.birthDate ? getAgeBracket(userInfo.birthDate) : null,
+        [userInfo?.birthDate]
+    );
 
     /**
      * Load exercises from API on component mount
@@ -68,11 +86,12 @@ export default function RankingScreen() {
     /**
      * Fetch ranking entries for a specific exercise
      * @param exerciseId - ID of the exercise to get rankings for
+     * @param rankingFilters - Period, gender and age filters
      */
-    const fetchRankingEntries = useCallback(async (exerciseId: string) => {
+    const fetchRankingEntries = useCallback(async (exerciseId: string, rankingFilters: RankingFilters) => {
         try {
             setRankingLoading(true);
-            const rankingData = await getRankingEntries(exerciseId);
+            const rankingData = await getRankingEntries(exerciseId, rankingFilters);
             setRankingEntries(rankingData);
         } catch {
             Alert.alert('Błąd', 'Wystąpił błąd podczas pobierania rankingu');
@@ -82,14 +101,58 @@ export default function RankingScreen() {
         }
     }, []);
 
+    /**
+     * Fetch the current user's submitted results for an exercise
+     * @param exerciseId - ID of the exercise
+     */
+    const fetchMyEntries = useCallback(async (exerciseId: string) => {
+        try {
+            const entries = await getMyRankingEntries(exerciseId);
+            setMyEntries(entries);
+        } catch (error) {
+            console.error('Error fetching own ranking entries:', error);
+            setMyEntries([]);
+        }
+    }, []);
+
     /**
      * Handle exercise selection and load its ranking
      * @param exercise - Selected exercise object
      */
-    const handleExercisePress = useCallback((exercise: Exercise) => {
+    const handleExercisePress = useCallback(async (exercise: Exercise) => {
         setSelectedExercise(exercise);
-        fetchRankingEntries(exercise.id);
-    }, [fetchRankingEntries]);
+        fetchMyEntries(exercise.id);
+
+        // Open with the period the user looked at last time
+        const exerciseFilters = createDefaultFilters(await getSavedRankingScope(exercise.id));
+        setFilters(exerciseFilters);
+        fetchRankingEntries(exercise.id, exerciseFilters);
+    }, [fetchRankingEntries, fetchMyEntries]);
+
+    /**
+     * Apply new filters to the ranking of the selected exercise
+     * @param newFilters - Updated filters
+     */
+    const handleFiltersChange = useCallback((newFilters: RankingFilters) => {
+        if (!selectedExercise) return;
+
+        if (newFilters.scope !== filters.scope) {
+            saveRankingScope(selectedExercise.id, newFilters.scope).catch(error =>
+                console.error('Error saving ranking scope:', error)
+            );
+        }
+        setFilters(newFilters);
+        fetchRankingEntries(selectedExercise.id, newFilters);
+    }, [selectedExercise, filters.scope, fetchRankingEntries]);
+
+    /**
+     * Reload own results after a submission, the new one is pending review
+     */
+    const handleResultSubmitted = useCallback(() => {
+        if (selectedExercise) {
+            fetchMyEntries(selectedExercise.id);
+        }
+    }, [selectedExercise, fetchMyEntries]);
 
     /**
      * Get appropriate icon for exercise, with fallback
@@ -117,6 +180,7 @@ export default function RankingScreen() {
             // Return to exercise list
             setSelectedExercise(null);
             setRankingEntries([]);
+            setMyEntries([]);
         } else {
             // Exit to previous screen
             router.back();
@@ -238,12 +302,32 @@ export default function RankingScreen() {
                         </TouchableOpacity>
                     </View>
 
+                    <RankingFilterBar
+                        filters={filters}
+                        userAgeBracket={userAgeBracket}
+                        onChange={handleFiltersChange}
+                    />
+
                     {/* Ranking details component */}
                     <RankingDetailsComponent
                         exercise={selectedExercise}
                         entries={rankingEntries}
                         loading={rankingLoading}
                         getExerciseIcon={getExerciseIcon}
+                        currentUserId={user?.id}
+                        myEntries={myEntries}
+                        onAddResult={() => setSubmitVisible(true)}
+                        onShowProgress={() => router.push({
+                            pathname: '/rankingProgress',
+                            params: { exerciseId: selectedExercise.id }
+                        })}
+                    />
+
+                    <SubmitResultModal
+                        visible={submitVisible}
+                        exercise={selectedExercise}
+                        onClose={() => setSubmitVisible(false)}
+                        onSubmitted={handleResultSubmitted}
                     />
                 </View>
             )}
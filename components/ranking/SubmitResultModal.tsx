@@ -0,0 +1,355 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+    StyleSheet,
+    Text,
+    View,
+    Modal,
+    TouchableOpacity,
+    TextInput,
+    ActivityIndicator,
+    Alert,
+    KeyboardAvoidingView,
+    Platform
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
+import * as ImagePicker from 'expo-image-picker';
+import { Exercise } from '@/types/Exercise';
+import { getErrorMessage } from '@/utils/errorHandler';
+import { RankingEntryProof, submitRankingEntry } from '@/api/rankingEntry';
+import { isUploadCanceled } from '@/api/upload';
+import UploadProgress from '@/components/ui/UploadProgress';
+
+interface SubmitResultModalProps {
+    visible: boolean;
+    exercise: Exercise;
+    onClose: () => void;
+    onSubmitted: () => void;
+}
+
+const MAX_VIDEO_SECONDS = 60;
+
+/**
+ * Modal for submitting a personal best to the exercise ranking.
+ * The result goes to review first, an optional photo or video helps to get it approved.
+ */
+export default function SubmitResultModal({ visible, exercise, onClose, onSubmitted }: SubmitResultModalProps) {
+    const [result, setResult] = useState('');
+    const [proof, setProof] = useState<(RankingEntryProof & { isVideo: boolean }) | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [progress, setProgress] = useState(0);
+    const uploadController = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        if (visible) {
+            setResult('');
+            setProof(null);
+            setError(null);
+        }
+    }, [visible]);
+
+    const handlePickProof = async () => {
+        const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+        if (permission.status !== 'granted') {
+            Alert.alert(
+                'Brak uprawnień',
+                'Aby dodać dowód, musisz nadać uprawnienia do galerii.',
+                [{ text: 'OK' }]
+            );
+            return;
+        }
+
+        try {
+            const picked = await ImagePicker.launchImageLibraryAsync({
+                mediaTypes: ['images', 'videos'],
+                quality: 0.7,
+                videoMaxDuration: MAX_VIDEO_SECONDS,
+                exif: false,
+            });
+
+            if (picked.canceled || !picked.assets[0]) return;
+
+            const asset = picked.assets[0];
+            const isVideo = asset.type === 'video';
+            const name = asset.fileName || asset.uri.split('/').pop() || (isVideo ? 'proof.mp4' : 'proof.jpg');
+            setProof({
+                uri: asset.uri,
+                name,
+                type: asset.mimeType || (isVideo ? 'video/mp4' : 'image/jpeg'),
+                isVideo,
+            });
+        } catch (err) {
+            console.error('Proof picker error:', err);
+            Alert.alert('Błąd', 'Nie udało się wybrać pliku');
+        }
+    };
+
+    const handleSubmit = async () => {
+        // Accept both "102,5" and "102.5"
+        const value = parseFloat(result.replace(',', '.'));
+        if (isNaN(value) || value <= 0) {
+            setError('Podaj wynik większy od zera');
+            return;
+        }
+
+        const controller = new AbortController();
+        uploadController.current = controller;
+        setLoading(true);
+        try {
+            await submitRankingEntry(
+                exercise.id,
+                value,
+                proof ? { uri: proof.uri, name: proof.name, type: proof.type } : undefined,
+                { onProgress: setProgress, signal: controller.signal }
+            );
+            Alert.alert(
+                'Wynik wysłany',
+                'Twój wynik pojawi się w rankingu po zatwierdzeniu przez trenera.'
+            );
+            onSubmitted();
+            onClose();
+        } catch (err: any) {
+            if (!isUploadCanceled(err)) {
+                console.error('Error submitting result:', err);
+                Alert.alert('Błąd', getErrorMessage(err));
+            }
+        } finally {
+            uploadController.current = null;
+            setLoading(false);
+            setProgress(0);
+        }
+    };
+
+    const handleClose = () => {
+        if (!loading) {
+            onClose();
+        }
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            transparent={true}
+            animationType="slide"
+            onRequestClose={handleClose}
+        >
+            <KeyboardAvoidingView
+                style={styles.overlay}
+                behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+            >
+                <View style={styles.modalContainer}>
+                    <View style={styles.header}>
+                        <Text style={styles.title}>Dodaj wynik</Text>
+                        <TouchableOpacity style={styles.closeButton} onPress={handleClose} disabled={loading}>
+                            <Ionicons name="close" size={24} color={loading ? '#ccc' : '#000'} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <Text style={styles.exerciseName}>{exercise.name}</Text>
+
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>Wynik</Text>
+                        <View style={styles.resultRow}>
+                            <TextInput
+                                style={styles.input}
+                                value={result}
+                                onChangeText={(text) => {
+                                    setResult(text);
+                                    setError(null);
+                                }}
+                                placeholder="0"
+                                keyboardType="decimal-pad"
+                                maxLength={8}
+                                editable={!loading}
+                            />
+                            <Text style={styles.unit}>{exercise.unit}</Text>
+                        </View>
+                        {error && <Text style={styles.errorText}>{error}</Text>}
+                    </View>
+
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>Dowód (opcjonalnie)</Text>
+                        {proof ? (
+                            <View style={styles.proofPreview}>
+                                {proof.isVideo ? (
+                                    <View style={styles.videoPlaceholder}>
+                                        <Ionicons name="videocam" size={28} color="#6b7280" />
+                                    </View>
+                                ) : (
+                                    <Image source={{ uri: proof.uri }} style={styles.proofImage} contentFit="cover" />
+                                )}
+                                <Text style={styles.proofName} numberOfLines={1}>{proof.name}</Text>
+                                <TouchableOpacity onPress={() => setProof(null)} disabled={loading}>
+                                    <Ionicons name="trash-outline" size={22} color="#F44336" />
+                                </TouchableOpacity>
+                            </View>
+                        ) : (
+                            <TouchableOpacity style={styles.proofButton} onPress={handlePickProof} disabled={loading}>
+                                <Ionicons name="images-outline" size={22} color="#000" />
+                                <Text style={styles.proofButtonText}>Wybierz zdjęcie lub film</Text>
+                            </TouchableOpacity>
+                        )}
+                        <Text style={styles.hint}>
+                            Film z podejścia przyspiesza weryfikację wyniku (maks. {MAX_VIDEO_SECONDS} s).
+                        </Text>
+                    </View>
+
+                    {loading && proof && (
+                        <UploadProgress progress={progress} onCancel={() => uploadController.current?.abort()} />
+                    )}
+
+                    <TouchableOpacity
+                        style={[styles.submitButton, loading && styles.submitButtonDisabled]}
+                        onPress={handleSubmit}
+                        disabled={loading}
+                    >
+                        {loading ? (
+                            <ActivityIndicator color="#000" size="small" />
+                        ) : (
+                            <Text style={styles.submitButtonText}>Wyślij do weryfikacji</Text>
+                        )}
+                    </TouchableOpacity>
+                </View>
+            </KeyboardAvoidingView>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    modalContainer: {
+        width: '90%',
+        maxWidth: 400,
+        backgroundColor: '#fff',
+        borderRadius: 16,
+        padding: 24,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 8,
+        elevation: 8,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 8,
+    },
+    title: {
+        fontSize: 22,
+        fontWeight: 'bold',
+        color: '#000',
+    },
+    closeButton: {
+        padding: 8,
+        backgroundColor: '#f5f5f5',
+        borderRadius: 20,
+    },
+    exerciseName: {
+        fontSize: 16,
+        color: '#6b7280',
+        marginBottom: 20,
+    },
+    inputGroup: {
+        marginBottom: 20,
+    },
+    label: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#000',
+        marginBottom: 8,
+    },
+    resultRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
+    input: {
+        flex: 1,
+        borderWidth: 2,
+        borderColor: '#e0e0e0',
+        borderRadius: 12,
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        fontSize: 18,
+    },
+    unit: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#6b7280',
+        marginLeft: 12,
+    },
+    errorText: {
+        color: '#F44336',
+        fontSize: 14,
+        marginTop: 4,
+        marginLeft: 4,
+    },
+    proofButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        borderWidth: 2,
+        borderStyle: 'dashed',
+        borderColor: '#e0e0e0',
+        borderRadius: 12,
+        paddingVertical: 14,
+    },
+    proofButtonText: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#000',
+        marginLeft: 8,
+    },
+    proofPreview: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        borderWidth: 2,
+        borderColor: '#e0e0e0',
+        borderRadius: 12,
+        padding: 8,
+    },
+    proofImage: {
+        width: 48,
+        height: 48,
+        borderRadius: 8,
+    },
+    videoPlaceholder: {
+        width: 48,
+        height: 48,
+        borderRadius: 8,
+        backgroundColor: '#f3f4f6',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    proofName: {
+        flex: 1,
+        fontSize: 14,
+        color: '#374151',
+        marginHorizontal: 12,
+    },
+    hint: {
+        fontSize: 12,
+        color: '#9ca3af',
+        marginTop: 6,
+    },
+    submitButton: {
+        paddingVertical: 14,
+        borderRadius: 12,
+        backgroundColor: '#ffc500',
+        alignItems: 'center',
+    },
+    submitButtonDisabled: {
+        opacity: 0.6,
+    },
+    submitButtonText: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#000',
+    },
+});
@@ -9,13 +9,18 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { Booking } from "@/types/Booking";
 import { Schedule } from "@/types/Schedule";
+import { WaitlistEntry } from "@/types/WaitlistEntry";
 import { formatTime } from '@/utils/formatters';
+import { parseGymDate } from '@/utils/gymTime';
 
 interface BookingsTabProps {
     userBookings: Booking[];
     totalBookings: number;
+    waitlistEntries: WaitlistEntry[];
     isClassInPast: (classItem: Schedule, yearWeek: string | null) => boolean;
     onCancelBooking: (bookingId: string) => void;
+    onLeaveWaitlist: (waitlistEntryId: string) => void;
+    onExportBookings: (bookings: Booking[]) => void;
     hasMoreBookings: boolean;
     loadingMoreBookings: boolean;
     onLoadMore: () => void;
@@ -37,14 +42,19 @@ const DAYS_PL = {
  * Features:
  * - Shows total number of completed classes
  * - Lists current bookings with cancellation option
+ * - Lists waitlist entries with queue position
  * - Pagination with "Load More" functionality
  * - Past class detection to disable cancellation
+ * - Export of single or all upcoming bookings to the calendar
  */
 export default function BookingsTab({
     userBookings,
     totalBookings,
+    waitlistEntries,
     isClassInPast,
     onCancelBooking,
+    onLeaveWaitlist,
+    onExportBookings,
     hasMoreBookings,
     loadingMoreBookings,
     onLoadMore
@@ -52,7 +62,9 @@ export default function BookingsTab({
     // Helper function to safely format dates
     const formatBookingDate = (dateString: string): string => {
         try {
-            return new Date(dateString).toLocaleDateString('pl-PL');
+            // The class day is a gym day, it must not move with the device timezone
+            const classDay = parseGymDate(dateString);
+            return classDay ? classDay.toLocaleDateString('pl-PL') : 'Nieprawidłowa data';
         } catch  {
             return 'Nieprawidłowa data';
         }
@@ -63,8 +75,60 @@ export default function BookingsTab({
         return DAYS_PL[dayOfWeek as keyof typeof DAYS_PL] || dayOfWeek;
     };
 
+    // Only upcoming, active bookings make sense in a calendar
+    const upcomingBookings = userBookings.filter(
+        booking => !booking.isCancelled && !isClassInPast(booking.schedule, booking.yearWeek)
+    );
+
     return (
         <View style={styles.bookingsContainer}>
+            {/* Waitlist entries with queue position */}
+            {waitlistEntries.length > 0 && (
+                <View style={styles.waitlistSection}>
+                    <Text style={styles.sectionTitle}>Lista rezerwowa</Text>
+                    {waitlistEntries.map((entry) => (
+                        <View key={entry.id} style={[styles.bookingCard, styles.waitlistCard]}>
+                            <View style={styles.bookingHeader}>
+                                <Text style={styles.bookingClassName}>
+                                    {entry.schedule.name}
+                                </Text>
+                                <View style={styles.waitlistBadge}>
+                                    <Text style={styles.waitlistBadgeText}>
+                                        Pozycja: {entry.position}
+                                    </Text>
+                                </View>
+                            </View>
+
+                            <View style={styles.bookingDetails}>
+                                <View style={styles.detailRow}>
+                                    <Ionicons name="calendar" size={16} color="#666" />
+                                    <Text style={styles.bookingDate}>
+                                        {getDayName(entry.schedule.dayOfWeek)}: {formatBookingDate(entry.classDate)}
+                                    </Text>
+                                </View>
+
+                                <View style={styles.detailRow}>
+                                    <Ionicons name="time" size={16} color="#666" />
+                                    <Text style={styles.bookingTime}>
+                                        Godzina: {formatTime(entry.schedule.startTime)}
+                                    </Text>
+                                </View>
+                            </View>
+
+                            <TouchableOpacity
+                                style={styles.leaveWaitlistButton}
+                                onPress={() => onLeaveWaitlist(entry.id)}
+                                activeOpacity={0.8}
+                                accessibilityLabel={`Opuść listę rezerwową na ${entry.schedule.name}`}
+                            >
+                                <Ionicons name="exit-outline" size={18} color="#E65100" />
+                                <Text style={styles.leaveWaitlistButtonText}>Opuść listę</Text>
+                            </TouchableOpacity>
+                        </View>
+                    ))}
+                </View>
+            )}
+
             {userBookings.length === 0 ? (
                 // Empty state when no bookings exist
                 <View style={styles.noBookingsContainer}>
@@ -82,6 +146,17 @@ export default function BookingsTab({
                         <Text style={styles.summaryText}>
                             Liczba zapisów na zajęcia: {totalBookings}
                         </Text>
+                        {upcomingBookings.length > 0 && (
+                            <TouchableOpacity
+                                style={styles.exportAllButton}
+                                onPress={() => onExportBookings(upcomingBookings)}
+                                activeOpacity={0.8}
+                                accessibilityLabel="Eksportuj wszystkie nadchodzące zajęcia do kalendarza"
+                            >
+                                <Ionicons name="share-outline" size={16} color="#000" />
+                                <Text style={styles.exportAllButtonText}>Eksportuj</Text>
+                            </TouchableOpacity>
+                        )}
                     </View>
 
                     {/* List of user bookings */}
@@ -124,18 +199,29 @@ export default function BookingsTab({
                                     </View>
                                 </View>
 
-                                {/* Cancel button - only show for future classes */}
+                                {/* Cancel and calendar buttons - only show for future classes */}
                                 {!isPastClass && (
-                                    <TouchableOpacity
-                                        style={styles.cancelButton}
-                                        onPress={() => onCancelBooking(booking.id)}
-                                        activeOpacity={0.8}
-                                        accessibilityLabel={`Anuluj rezerwację na ${booking.schedule.name}`}
-                                        accessibilityHint="Dotknij aby anulować tę rezerwację"
-                                    >
-                                        <Ionicons name="close-circle" size={18} color="#FFF" />
-                                        <Text style={styles.cancelButtonText}>Anuluj rezerwację</Text>
-                                    </TouchableOpacity>
+                                    <View style={styles.bookingActions}>
+                                        <TouchableOpacity
+                                            style={styles.cancelButton}
+                                            onPress={() => onCancelBooking(booking.id)}
+                                            activeOpacity={0.8}
+                                            accessibilityLabel={`Anuluj rezerwację na ${booking.schedule.name}`}
+                                            accessibilityHint="Dotknij aby anulować tę rezerwację"
+                                        >
+                                            <Ionicons name="close-circle" size={18} color="#FFF" />
+                                            <Text style={styles.cancelButtonText}>Anuluj rezerwację</Text>
+                                        </TouchableOpacity>
+                                        <TouchableOpacity
+                                            style={styles.calendarButton}
+                                            onPress={() => onExportBookings([booking])}
+                                            activeOpacity={0.8}
+                                            accessibilityLabel={`Dodaj ${booking.schedule.name} do kalendarza`}
+                                        >
+                                            <Ionicons name="calendar-outline" size={18} color="#000" />
+                                            <Text style={styles.calendarButtonText}>Do kalendarza</Text>
+                                        </TouchableOpacity>
+                                    </View>
                                 )}
                             </View>
                         );
@@ -278,6 +364,42 @@ const styles = StyleSheet.create({
         color: '#666',
         marginLeft: 8,
     },
+    exportAllButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#FFD700',
+        paddingVertical: 8,
+        paddingHorizontal: 12,
+        borderRadius: 20,
+    },
+    exportAllButtonText: {
+        fontSize: 13,
+        fontWeight: '600',
+        color: '#000',
+        marginLeft: 4,
+    },
+    bookingActions: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    calendarButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: '#FFF8DC',
+        borderWidth: 1,
+        borderColor: '#FFD700',
+        paddingVertical: 12,
+        paddingHorizontal: 16,
+        borderRadius: 25,
+    },
+    calendarButtonText: {
+        color: '#000',
+        fontSize: 14,
+        fontWeight: '600',
+        marginLeft: 6,
+    },
     cancelButton: {
         flexDirection: 'row',
         alignItems: 'center',
@@ -294,6 +416,46 @@ const styles = StyleSheet.create({
         fontWeight: '600',
         marginLeft: 6,
     },
+    waitlistSection: {
+        marginBottom: 8,
+    },
+    sectionTitle: {
+        fontSize: 18,
+        fontWeight: '700',
+        color: '#000',
+        marginBottom: 12,
+    },
+    waitlistCard: {
+        borderLeftWidth: 6,
+        borderLeftColor: '#FF9800',
+    },
+    waitlistBadge: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 20,
+        backgroundColor: '#FFF3E0',
+    },
+    waitlistBadgeText: {
+        fontSize: 12,
+        fontWeight: '600',
+        color: '#E65100',
+    },
+    leaveWaitlistButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: '#FFF3E0',
+        paddingVertical: 12,
+        paddingHorizontal: 20,
+        borderRadius: 25,
+        alignSelf: 'flex-start',
+    },
+    leaveWaitlistButtonText: {
+        color: '#E65100',
+        fontSize: 14,
+        fontWeight: '600',
+        marginLeft: 6,
+    },
     loadMoreButton: {
         flexDirection: 'row',
         alignItems: 'center',
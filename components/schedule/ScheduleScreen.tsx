@@ -12,15 +12,24 @@ import {
     ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/context/AuthContext';
-import { getCurrentWeekSchedule } from '@/api/schedule';
+import { getCurrentWeekSchedule, getWeekSchedule } from '@/api/schedule';
 import { WeeklySchedule } from "@/types/WeeklySchedule";
 import { Booking } from "@/types/Booking";
 import { Schedule } from "@/types/Schedule";
 import { getUserBookings, createClassBooking, cancelClassBooking, BookingPaginationParams } from "@/api/booking";
+import { getUserWaitlist, joinWaitlist, leaveWaitlist } from "@/api/waitlist";
+import { WaitlistEntry } from "@/types/WaitlistEntry";
+import { notifyWaitlistPromotions } from "@/utils/notifications";
+import { scheduleClassReminder, cancelClassReminder, syncClassReminders } from "@/utils/classReminders";
+import { shareBookingsCalendar } from "@/utils/icalendar";
+import { expireCache } from '@/api/cache';
+import OfflineBanner from '@/components/ui/OfflineBanner';
 import ScheduleTab from './ScheduleTab';
 import BookingsTab from './BookingTab';
 import { formatTime } from '@/utils/formatters';
+import { getMondayOfYearWeek, getScheduleClassStart, shiftYearWeek } from '@/utils/gymTime';
 
 // Polish day names mapping for consistent translation
 const DAYS_PL = {
@@ -37,13 +46,20 @@ const MONTHS_PL = [
     'lipca', 'sierpnia', 'września', 'października', 'listopada', 'grudnia'
 ] as const;
 
+// How far members can browse away from the current week
+const MAX_WEEKS_BACK = 4;
+const MAX_WEEKS_AHEAD = 4;
+
 /**
  * ScheduleScreen Component
  *
  * Main screen for managing class schedules and bookings.
  * Features:
  * - Weekly schedule view with class booking functionality
+ * - Waitlist for full classes with queue position
+ * - Navigation between previous and upcoming weeks
  * - User bookings management with pagination
+ * - Export of bookings to the device calendar (.ics)
  * - Modal for class booking confirmation
  * - Refresh functionality for data synchronization
  * - Past class detection and handling
@@ -53,12 +69,16 @@ export default function ScheduleScreen() {
 
     // Schedule and booking state
     const [weeklySchedule, setWeeklySchedule] = useState<WeeklySchedule | null>(null);
+    const [currentYearWeek, setCurrentYearWeek] = useState<string | null>(null);
+    const [weekOffset, setWeekOffset] = useState(0);
     const [userBookings, setUserBookings] = useState<Booking[]>([]);
     const [totalBookings, setTotalBookings] = useState(0);
+    const [waitlistEntries, setWaitlistEntries] = useState<WaitlistEntry[]>([]);
 
     // Loading and UI state
     const [loading, setLoading] = useState(true);
     const [refreshing, setRefreshing] = useState(false);
+    const [weekLoading, setWeekLoading] = useState(false);
     const [selectedClass, setSelectedClass] = useState<Schedule | null>(null);
     const [modalVisible, setModalVisible] = useState(false);
     const [activeTab, setActiveTab] = useState<'schedule' | 'bookings'>('schedule');
@@ -75,14 +95,7 @@ export default function ScheduleScreen() {
      */
     const getWeekDateRange = useCallback((yearWeek: string): string => {
         try {
-            const [year, weekStr] = yearWeek.split('-');
-            const weekNum = parseInt(weekStr);
-
-            // Calculate first day of week (Monday) based on ISO week numbering
-            const jan4 = new Date(parseInt(year), 0, 4);
-            const jan4Day = jan4.getDay() || 7; // Convert Sunday (0) to 7
-            const monday = new Date(jan4);
-            monday.setDate(jan4.getDate() - jan4Day + 1 + (weekNum - 1) * 7);
+            const monday = getMondayOfYearWeek(yearWeek);
 
             // Calculate Friday (end of work week)
             const friday = new Date(monday);
@@ -127,6 +140,7 @@ export default function ScheduleScreen() {
 
             const bookingsData = await getUserBookings(pagination);
             setTotalBookings(bookingsData.totalElements);
+            syncClassReminders(bookingsData.content);
 
             // Update bookings list based on reset flag
             if (reset) {
@@ -152,10 +166,50 @@ export default function ScheduleScreen() {
         }
     }, [user?.id]);
 
+    /**
+     * Load user's waitlist entries and announce any promotions into bookings
+     */
+    const loadWaitlist = useCallback(async () => {
+        if (!user?.id) return;
+
+        try {
+            const entries = await getUserWaitlist();
+            setWaitlistEntries(entries.filter(entry => entry.status === 'WAITING'));
+            await notifyWaitlistPromotions(entries);
+        } catch (error) {
+            // Waitlist is secondary information, so the schedule stays usable without it
+            console.error('Error loading waitlist:', error);
+        }
+    }, [user?.id]);
+
+    /**
+     * Load the schedule of the current week and remember which week it is
+     * @returns Weekly schedule for the current week
+     */
+    const loadCurrentWeek = useCallback(async (): Promise<WeeklySchedule> => {
+        const scheduleData = await getCurrentWeekSchedule();
+        setCurrentYearWeek(scheduleData.yearWeek);
+        return scheduleData;
+    }, []);
+
+    /**
+     * Load the schedule for the week selected relative to the current one
+     * @param offset - Number of weeks away from the current week
+     * @returns Weekly schedule for the selected week
+     */
+    const loadSchedule = useCallback(async (offset: number): Promise<WeeklySchedule> => {
+        if (offset === 0 || !currentYearWeek) {
+            return loadCurrentWeek();
+        }
+
+        return getWeekSchedule(shiftYearWeek(currentYearWeek, offset));
+    }, [currentYearWeek, loadCurrentWeek]);
+
     /**
      * Load all necessary data (schedule and bookings)
+     * @param loadWeekSchedule - Loads the schedule of the week to display
      */
-    const loadData = useCallback(async () => {
+    const loadAll = useCallback(async (loadWeekSchedule: () => Promise<WeeklySchedule>) => {
         if (!user?.id) {
             setLoading(false);
             return;
@@ -165,8 +219,9 @@ export default function ScheduleScreen() {
         try {
             // Load schedule and bookings in parallel for better performance
             const [scheduleData] = await Promise.all([
-                getCurrentWeekSchedule(),
-                loadBookings(0, true) // Reset bookings and load first page
+                loadWeekSchedule(),
+                loadBookings(0, true), // Reset bookings and load first page
+                loadWaitlist()
             ]);
 
             setWeeklySchedule(scheduleData);
@@ -178,19 +233,52 @@ export default function ScheduleScreen() {
             setLoading(false);
             setRefreshing(false);
         }
-    }, [user?.id, loadBookings]);
+    }, [user?.id, loadBookings, loadWaitlist]);
 
-    // Load data on component mount
+    /**
+     * Reload all data, keeping the displayed week
+     */
+    const loadData = useCallback(
+        () => loadAll(() => loadSchedule(weekOffset)),
+        [loadAll, loadSchedule, weekOffset]
+    );
+
+    // Load data on mount and for every new user, who starts on the current week.
+    // Week changes are handled by changeWeek, so they do not rerun this effect.
     useEffect(() => {
-        loadData();
-    }, [loadData]);
+        setWeekOffset(0);
+        loadAll(loadCurrentWeek);
+    }, [loadAll, loadCurrentWeek]);
+
+    /**
+     * Switch the displayed week without reloading bookings
+     * @param direction - -1 for the previous week, 1 for the next week
+     */
+    const changeWeek = useCallback(async (direction: -1 | 1) => {
+        const nextOffset = weekOffset + direction;
+        if (nextOffset < -MAX_WEEKS_BACK || nextOffset > MAX_WEEKS_AHEAD || weekLoading) return;
+
+        setWeekLoading(true);
+        try {
+            const scheduleData = await loadSchedule(nextOffset);
+            setWeeklySchedule(scheduleData);
+            setWeekOffset(nextOffset);
+        } catch (error) {
+            console.error('Error loading week schedule:', error);
+            Alert.alert('Błąd', 'Nie udało się załadować harmonogramu na wybrany tydzień');
+        } finally {
+            setWeekLoading(false);
+        }
+    }, [weekOffset, weekLoading, loadSchedule]);
 
     /**
      * Handle pull-to-refresh functionality
      */
-    const onRefresh = useCallback(() => {
+    const onRefresh = useCallback(async () => {
         setRefreshing(true);
         setCurrentBookingsPage(0);
+        // Free spots change all the time, so a manual refresh never shows cached ones
+        await expireCache('/schedules', '/bookings', '/waitlist');
         loadData();
     }, [loadData]);
 
@@ -220,11 +308,13 @@ export default function ScheduleScreen() {
         if (!selectedClass || !user?.id || !weeklySchedule) return;
 
         try {
-            await createClassBooking({
+            // Book the class in the week currently displayed, not necessarily the current one
+            const booking = await createClassBooking({
                 classScheduleId: selectedClass.id,
                 userId: user.id,
                 yearWeek: weeklySchedule.yearWeek,
             });
+            await scheduleClassReminder(booking);
 
             Alert.alert('Sukces', 'Pomyślnie zapisano na zajęcia!');
             setModalVisible(false);
@@ -238,12 +328,109 @@ export default function ScheduleScreen() {
         }
     }, [selectedClass, user?.id, weeklySchedule, loadData]);
 
+    /**
+     * Handle joining the waitlist of a full class
+     */
+    const handleJoinWaitlist = useCallback(async () => {
+        if (!selectedClass || !user?.id || !weeklySchedule) return;
+
+        try {
+            const entry = await joinWaitlist({
+                classScheduleId: selectedClass.id,
+                userId: user.id,
+                yearWeek: weeklySchedule.yearWeek,
+            });
+
+            Alert.alert(
+                'Lista rezerwowa',
+                `Dołączono do listy rezerwowej. Twoja pozycja: ${entry.position}. Powiadomimy Cię, gdy zwolni się miejsce.`
+            );
+            setModalVisible(false);
+            setSelectedClass(null);
+            loadWaitlist();
+        } catch {
+            Alert.alert('Błąd', 'Nie udało się dołączyć do listy rezerwowej');
+        }
+    }, [selectedClass, user?.id, weeklySchedule, loadWaitlist]);
+
+    /**
+     * Handle leaving a waitlist with confirmation
+     */
+    const handleLeaveWaitlist = useCallback((waitlistEntryId: string) => {
+        Alert.alert(
+            'Opuść listę rezerwową',
+            'Czy na pewno chcesz zrezygnować z miejsca na liście rezerwowej?',
+            [
+                { text: 'Nie', style: 'cancel' },
+                {
+                    text: 'Tak',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            await leaveWaitlist(waitlistEntryId);
+                            setModalVisible(false);
+                            setSelectedClass(null);
+                            loadWaitlist();
+                        } catch {
+                            Alert.alert('Błąd', 'Nie udało się opuścić listy rezerwowej');
+                        }
+                    },
+                },
+            ]
+        );
+    }, [loadWaitlist]);
+
+    /**
+     * Share bookings as an iCalendar file so they can be added to the device calendar
+     * @param bookings - Bookings to export
+     */
+    const handleExportBookings = useCallback(async (bookings: Booking[]) => {
+        if (bookings.length === 0) {
+            Alert.alert('Kalendarz', 'Brak nadchodzących zajęć do eksportu');
+            return;
+        }
+
+        try {
+            await shareBookingsCalendar(bookings, 'PUBLISH', bookings.length === 1 ? `jodogym-${bookings[0].id}` : 'jodogym-zajecia');
+        } catch (error) {
+            console.error('Error exporting bookings:', error);
+            Alert.alert('Błąd', 'Nie udało się wyeksportować zajęć do kalendarza');
+        }
+    }, []);
+
+    /**
+     * Offer removing a cancelled booking from the calendar. The share sheet does not
+     * tell whether an export was completed, so the offer is shown for every cancellation.
+     * @param booking - The cancelled booking
+     */
+    const offerCalendarCancellation = useCallback((booking: Booking) => {
+        Alert.alert(
+            'Kalendarz',
+            'Jeśli te zajęcia są w Twoim kalendarzu, możesz je z niego usunąć.',
+            [
+                { text: 'Nie', style: 'cancel' },
+                {
+                    text: 'Usuń z kalendarza',
+                    onPress: () => {
+                        shareBookingsCalendar([booking], 'CANCEL', `jodogym-${booking.id}-anulowane`)
+                            .catch((error) => {
+                                console.error('Error exporting cancellation:', error);
+                                Alert.alert('Błąd', 'Nie udało się wyeksportować anulowania');
+                            });
+                    },
+                },
+            ]
+        );
+    }, []);
+
     /**
      * Handle booking cancellation with confirmation
      */
     const handleCancelBooking = useCallback(async (bookingId: string) => {
         if (!user?.id) return;
 
+        const booking = userBookings.find(item => item.id === bookingId);
+
         Alert.alert(
             'Anuluj rezerwację',
             'Czy na pewno chcesz anulować tę rezerwację?',
@@ -255,7 +442,15 @@ export default function ScheduleScreen() {
                     onPress: async () => {
                         try {
                             await cancelClassBooking(bookingId);
-                            Alert.alert('Sukces', 'Rezerwacja została anulowana');
+                            await cancelClassReminder(bookingId);
+                            Alert.alert('Sukces', 'Rezerwacja została anulowana', [
+                                {
+                                    text: 'OK',
+                                    onPress: () => {
+                                        if (booking) offerCalendarCancellation(booking);
+                                    },
+                                },
+                            ]);
 
                             // Reload data to refresh bookings and schedule
                             setCurrentBookingsPage(0);
@@ -267,7 +462,7 @@ export default function ScheduleScreen() {
                 },
             ]
         );
-    }, [user?.id, loadData]);
+    }, [user?.id, userBookings, loadData, offerCalendarCancellation]);
 
     /**
      * Check if a class is in the past
@@ -281,27 +476,11 @@ export default function ScheduleScreen() {
         }
 
         try {
-            const [year, weekStr] = yearWeek.split('-');
-            const weekNum = parseInt(weekStr);
-
-            // Map day names to indices (Monday = 0, Friday = 4)
-            const dayIndex = ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY'].indexOf(classItem.dayOfWeek);
-            if (dayIndex === -1) return false;
-
-            // Calculate the specific date of the class
-            const jan4 = new Date(Number(year), 0, 4);
-            const jan4Day = jan4.getDay() || 7;
-            const monday = new Date(jan4);
-            monday.setDate(jan4.getDate() - jan4Day + 1 + (weekNum - 1) * 7);
-
-            const classDate = new Date(monday);
-            classDate.setDate(classDate.getDate() + dayIndex);
+            // Class times are the gym's wall-clock times, whatever the device timezone
+            const classStart = getScheduleClassStart(yearWeek, classItem.dayOfWeek, classItem.startTime);
+            if (!classStart) return false;
 
-            // Set the specific time of the class
-            const [hours, minutes] = classItem.startTime.split(':');
-            classDate.setHours(Number(hours), Number(minutes), 0, 0);
-
-            return classDate.getTime() < new Date().getTime();
+            return classStart.getTime() < Date.now();
         } catch (error) {
             console.warn('Error checking if class is in past:', error);
             return false;
@@ -319,6 +498,17 @@ export default function ScheduleScreen() {
         );
     }, [userBookings, weeklySchedule?.yearWeek]);
 
+    /**
+     * Find user's waitlist entry for a class in the displayed week
+     * @param classId - The class ID to check
+     * @returns Waitlist entry or undefined when not waiting
+     */
+    const getWaitlistEntry = useCallback((classId: string): WaitlistEntry | undefined => {
+        return waitlistEntries.find(
+            entry => entry.schedule.id === classId && entry.yearWeek === weeklySchedule?.yearWeek
+        );
+    }, [waitlistEntries, weeklySchedule?.yearWeek]);
+
     /**
      * Close booking modal
      */
@@ -339,15 +529,62 @@ export default function ScheduleScreen() {
         );
     }
 
+    const selectedWaitlistEntry = selectedClass ? getWaitlistEntry(selectedClass.id) : undefined;
+
     return (
         <SafeAreaView style={styles.container} edges={['left', 'right', 'bottom']}>
-            {/* Header with week information */}
+            <OfflineBanner />
+
+            {/* Header with week information and week navigation */}
             <View style={styles.header}>
-                {weeklySchedule && (
-                    <Text style={styles.weekInfo}>
-                        {getWeekDateRange(weeklySchedule.yearWeek)}
+                <TouchableOpacity
+                    style={styles.weekNavButton}
+                    onPress={() => changeWeek(-1)}
+                    disabled={weekOffset <= -MAX_WEEKS_BACK || weekLoading}
+                    activeOpacity={0.7}
+                    accessibilityLabel="Poprzedni tydzień"
+                    accessibilityState={{ disabled: weekOffset <= -MAX_WEEKS_BACK || weekLoading }}
+                >
+                    <Ionicons
+                        name="chevron-back"
+                        size={24}
+                        color={weekOffset <= -MAX_WEEKS_BACK ? 'rgba(0, 0, 0, 0.25)' : '#000'}
+                    />
+                </TouchableOpacity>
+
+                <View style={styles.weekInfoContainer}>
+                    {weeklySchedule && (
+                        <Text style={styles.weekInfo}>
+                            {getWeekDateRange(weeklySchedule.yearWeek)}
+                        </Text>
+                    )}
+                    <Text style={styles.weekLabel}>
+                        {weekOffset === 0
+                            ? 'Bieżący tydzień'
+                            : weekOffset === 1
+                                ? 'Następny tydzień'
+                                : weekOffset === -1
+                                    ? 'Poprzedni tydzień'
+                                    : weekOffset > 0
+                                        ? `Za ${weekOffset} tyg.`
+                                        : `${-weekOffset} tyg. temu`}
                     </Text>
-                )}
+                </View>
+
+                <TouchableOpacity
+                    style={styles.weekNavButton}
+                    onPress={() => changeWeek(1)}
+                    disabled={weekOffset >= MAX_WEEKS_AHEAD || weekLoading}
+                    activeOpacity={0.7}
+                    accessibilityLabel="Następny tydzień"
+                    accessibilityState={{ disabled: weekOffset >= MAX_WEEKS_AHEAD || weekLoading }}
+                >
+                    <Ionicons
+                        name="chevron-forward"
+                        size={24}
+                        color={weekOffset >= MAX_WEEKS_AHEAD ? 'rgba(0, 0, 0, 0.25)' : '#000'}
+                    />
+                </TouchableOpacity>
             </View>
 
             {/* Tab container for switching between schedule and bookings */}
@@ -393,6 +630,8 @@ export default function ScheduleScreen() {
                     <ScheduleTab
                         weeklySchedule={weeklySchedule}
                         userBookings={userBookings}
+                        waitlistEntries={waitlistEntries}
+                        weekLoading={weekLoading}
                         isClassInPast={isClassInPast}
                         onClassPress={handleClassPress}
                     />
@@ -400,8 +639,11 @@ export default function ScheduleScreen() {
                     <BookingsTab
                         userBookings={userBookings}
                         totalBookings={totalBookings}
+                        waitlistEntries={waitlistEntries}
                         isClassInPast={isClassInPast}
                         onCancelBooking={handleCancelBooking}
+                        onLeaveWaitlist={handleLeaveWaitlist}
+                        onExportBookings={handleExportBookings}
                         hasMoreBookings={hasMoreBookings}
                         loadingMoreBookings={loadingMoreBookings}
                         onLoadMore={handleLoadMoreBookings}
@@ -464,9 +706,27 @@ export default function ScheduleScreen() {
                                             <Text style={styles.alreadyBookedText}>Już zapisany</Text>
                                         </View>
                                     ) : selectedClass.availableSpots <= 0 ? (
-                                        <View style={styles.fullClassButton}>
-                                            <Text style={styles.fullClassText}>Brak miejsc</Text>
-                                        </View>
+                                        selectedWaitlistEntry ? (
+                                            <TouchableOpacity
+                                                style={styles.fullClassButton}
+                                                onPress={() => handleLeaveWaitlist(selectedWaitlistEntry.id)}
+                                                activeOpacity={0.8}
+                                                accessibilityLabel={`Opuść listę rezerwową na ${selectedClass.name}`}
+                                            >
+                                                <Text style={styles.fullClassText}>
+                                                    Opuść listę (#{selectedWaitlistEntry.position})
+                                                </Text>
+                                            </TouchableOpacity>
+                                        ) : (
+                                            <TouchableOpacity
+                                                style={styles.waitlistButton}
+                                                onPress={handleJoinWaitlist}
+                                                activeOpacity={0.8}
+                                                accessibilityLabel={`Dołącz do listy rezerwowej na ${selectedClass.name}`}
+                                            >
+                                                <Text style={styles.waitlistButtonText}>Lista rezerwowa</Text>
+                                            </TouchableOpacity>
+                                        )
                                     ) : (
                                         <TouchableOpacity
                                             style={styles.bookButton}
@@ -504,9 +764,12 @@ const styles = StyleSheet.create({
         fontWeight: '500',
     },
     header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
         backgroundColor: '#FFD700',
         paddingVertical: 16,
-        paddingHorizontal: 20,
+        paddingHorizontal: 12,
         borderBottomLeftRadius: 20,
         borderBottomRightRadius: 20,
         shadowColor: '#000',
@@ -515,12 +778,26 @@ const styles = StyleSheet.create({
         shadowRadius: 4,
         elevation: 3,
     },
+    weekNavButton: {
+        padding: 8,
+    },
+    weekInfoContainer: {
+        flex: 1,
+        alignItems: 'center',
+    },
     weekInfo: {
         textAlign: 'center',
         fontSize: 18,
         color: '#000',
         fontWeight: '700',
     },
+    weekLabel: {
+        textAlign: 'center',
+        fontSize: 13,
+        color: '#333',
+        fontWeight: '500',
+        marginTop: 2,
+    },
     tabContainer: {
         flexDirection: 'row',
         backgroundColor: '#FFF',
@@ -658,4 +935,18 @@ const styles = StyleSheet.create({
         color: '#F44336',
         fontWeight: '600',
     },
+    waitlistButton: {
+        flex: 1,
+        backgroundColor: '#FFF3E0',
+        borderWidth: 1,
+        borderColor: '#FF9800',
+        paddingVertical: 14,
+        borderRadius: 25,
+        alignItems: 'center',
+    },
+    waitlistButtonText: {
+        fontSize: 16,
+        color: '#E65100',
+        fontWeight: '700',
+    },
 });
\ No newline at end of file
@@ -4,10 +4,12 @@ import {
     Text,
     TouchableOpacity,
     StyleSheet,
+    ActivityIndicator,
 } from 'react-native';
 import { WeeklySchedule } from "@/types/WeeklySchedule";
 import { Booking } from "@/types/Booking";
 import { Schedule } from "@/types/Schedule";
+import { WaitlistEntry } from "@/types/WaitlistEntry";
 
 // Polish day names mapping for consistent translation
 const DAYS_PL = {
@@ -24,6 +26,8 @@ const DAYS_ORDER = ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY'] as c
 interface ScheduleTabProps {
     weeklySchedule: WeeklySchedule | null;
     userBookings: Booking[];
+    waitlistEntries: WaitlistEntry[];
+    weekLoading: boolean;
     isClassInPast: (classItem: Schedule, yearWeek?: string | null) => boolean;
     onClassPress: (classItem: Schedule) => void;
 }
@@ -55,11 +59,15 @@ const formatTime = (timeString: string): string => {
  * - Indicates booked classes with visual markers
  * - Disables past classes
  * - Shows capacity information with color-coded indicators
+ * - Shows waitlist position for full classes the user is waiting for
  * - Handles empty states for days without classes
+ * - Shows a loading state while another week is being fetched
  */
 export default function ScheduleTab({
     weeklySchedule,
     userBookings,
+    waitlistEntries,
+    weekLoading,
     isClassInPast,
     onClassPress
 }: ScheduleTabProps) {
@@ -73,6 +81,16 @@ export default function ScheduleTab({
         );
     }, [userBookings, weeklySchedule?.yearWeek]);
 
+    /**
+     * Memoized lookup of the user's waitlist position for a class in the displayed week
+     */
+    const getWaitlistPosition = useCallback((classId: string): number | null => {
+        const entry = waitlistEntries.find(
+            entry => entry.schedule.id === classId && entry.yearWeek === weeklySchedule?.yearWeek
+        );
+        return entry ? entry.position : null;
+    }, [waitlistEntries, weeklySchedule?.yearWeek]);
+
     /**
      * Memoized classes organized by day to prevent unnecessary recalculations
      */
@@ -127,6 +145,7 @@ export default function ScheduleTab({
                             const isBooked = isClassBooked(classItem.id);
                             const isPast = isClassInPast(classItem, weeklySchedule?.yearWeek);
                             const isFull = classItem.availableSpots <= 0;
+                            const waitlistPosition = getWaitlistPosition(classItem.id);
 
                             return (
                                 <TouchableOpacity
@@ -187,7 +206,15 @@ export default function ScheduleTab({
                                         </View>
 
                                         {/* Status indicators */}
-                                        {isFull && !isPast && (
+                                        {isFull && !isPast && waitlistPosition !== null && (
+                                            <View style={styles.waitlistIndicator}>
+                                                <Text style={styles.waitlistIndicatorText}>
+                                                    LISTA REZERWOWA: #{waitlistPosition}
+                                                </Text>
+                                            </View>
+                                        )}
+
+                                        {isFull && !isPast && waitlistPosition === null && (
                                             <View style={styles.fullClassIndicator}>
                                                 <Text style={styles.fullClassText}>ZAPEŁNIONE</Text>
                                             </View>
@@ -207,6 +234,15 @@ export default function ScheduleTab({
         );
     };
 
+    // Show loader while switching between weeks
+    if (weekLoading) {
+        return (
+            <View style={styles.scheduleContent}>
+                <ActivityIndicator size="large" color="#ffc500" style={styles.weekLoader} />
+            </View>
+        );
+    }
+
     // Handle case when weekly schedule is not loaded
     if (!weeklySchedule) {
         return (
@@ -233,6 +269,9 @@ const styles = StyleSheet.create({
         color: '#999',
         marginTop: 32,
     },
+    weekLoader: {
+        marginTop: 32,
+    },
     dayContainer: {
         marginBottom: 24,
     },
@@ -380,6 +419,18 @@ const styles = StyleSheet.create({
         fontWeight: '700',
         color: '#F44336',
     },
+    waitlistIndicator: {
+        backgroundColor: '#FFF3E0',
+        paddingHorizontal: 8,
+        paddingVertical: 4,
+        borderRadius: 12,
+        alignSelf: 'flex-start',
+    },
+    waitlistIndicatorText: {
+        fontSize: 10,
+        fontWeight: '700',
+        color: '#E65100',
+    },
     pastClassIndicator: {
         backgroundColor: '#F5F5F5',
         paddingHorizontal: 8,
@@ -0,0 +1,60 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useOfflineStatus } from '@/hooks/useOfflineStatus';
+
+/**
+ * Formats the time cached data was fetched, adding the date when it is not from today
+ * @param timestamp - Time in milliseconds
+ */
+const formatDataTime = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    const time = date.toLocaleTimeString('pl-PL', { hour: '2-digit', minute: '2-digit' });
+
+    if (date.toDateString() === new Date().toDateString()) {
+        return time;
+    }
+
+    const day = date.toLocaleDateString('pl-PL', { day: '2-digit', month: '2-digit' });
+    return `${day} ${time}`;
+};
+
+/**
+ * Banner shown while the app has no connection and displays cached data.
+ * Screens opt in by rendering it above their content.
+ */
+export default function OfflineBanner() {
+    const { isOffline, dataTimestamp } = useOfflineStatus();
+
+    if (!isOffline) {
+        return null;
+    }
+
+    return (
+        <View style={styles.banner} accessibilityRole="alert">
+            <Ionicons name="cloud-offline-outline" size={18} color="#000" />
+            <Text style={styles.text}>
+                {dataTimestamp
+                    ? `Offline, wyświetlane dane z ${formatDataTime(dataTimestamp)}`
+                    : 'Offline, brak połączenia z internetem'}
+            </Text>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    banner: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: '#FFE082',
+        paddingVertical: 8,
+        paddingHorizontal: 16,
+    },
+    text: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#000',
+        marginLeft: 8,
+    },
+});
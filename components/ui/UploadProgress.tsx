@@ -0,0 +1,66 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+interface UploadProgressProps {
+    /** Uploaded share from 0 to 1 */
+    progress: number;
+    label?: string;
+    /** Shows a cancel action when provided */
+    onCancel?: () => void;
+}
+
+/**
+ * Progress bar of a running upload with an optional cancel action
+ */
+export default function UploadProgress({ progress, label = 'Wysyłanie', onCancel }: UploadProgressProps) {
+    const percent = Math.round(progress * 100);
+
+    return (
+        <View style={styles.container} accessibilityRole="progressbar" accessibilityValue={{ min: 0, max: 100, now: percent }}>
+            <View style={styles.header}>
+                <Text style={styles.label}>{label}... {percent}%</Text>
+                {onCancel && (
+                    <TouchableOpacity onPress={onCancel} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                        <Text style={styles.cancelText}>Przerwij</Text>
+                    </TouchableOpacity>
+                )}
+            </View>
+            <View style={styles.track}>
+                <View style={[styles.fill, { width: `${percent}%` }]} />
+            </View>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        marginVertical: 12,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 6,
+    },
+    label: {
+        fontSize: 14,
+        color: '#666',
+        fontWeight: '500',
+    },
+    cancelText: {
+        fontSize: 14,
+        color: '#F44336',
+        fontWeight: '600',
+    },
+    track: {
+        height: 6,
+        borderRadius: 3,
+        backgroundColor: '#f0f0f0',
+        overflow: 'hidden',
+    },
+    fill: {
+        height: '100%',
+        borderRadius: 3,
+        backgroundColor: '#ffc500',
+    },
+});
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, View, LayoutChangeEvent } from 'react-native';
+import Svg, { Line, Rect, Text as SvgText } from 'react-native-svg';
+import { ChartBar } from '@/utils/activityCharts';
+import { formatActivityDuration } from '@/utils/formatters';
+
+interface ActivityBarChartProps {
+    bars: ChartBar[];
+    height?: number;
+}
+
+const LABEL_HEIGHT = 20;
+const TOP_PADDING = 16;
+const BAR_GAP_RATIO = 0.3;
+
+/**
+ * Bar chart of training minutes. Tapping a bar shows its exact value.
+ */
+export default function ActivityBarChart({ bars, height = 180 }: ActivityBarChartProps) {
+    const [width, setWidth] = useState(0);
+    const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+    // A new data set invalidates the inspected bar
+    useEffect(() => {
+        setSelectedIndex(null);
+    }, [bars]);
+
+    const handleLayout = (event: LayoutChangeEvent) => {
+        setWidth(event.nativeEvent.layout.width);
+    };
+
+    const maxValue = Math.max(...bars.map(bar => bar.value), 0);
+    const plotHeight = height - LABEL_HEIGHT - TOP_PADDING;
+    const slotWidth = bars.length > 0 ? width / bars.length : 0;
+    const barWidth = slotWidth * (1 - BAR_GAP_RATIO);
+
+    const selected = selectedIndex !== null ? bars[selectedIndex] : null;
+
+    return (
+        <View>
+            <View style={styles.inspector}>
+                {selected ? (
+                    <Text style={styles.inspectorText}>
+                        {selected.detail}:{' '}
+                        <Text style={styles.inspectorValue}>{formatActivityDuration(selected.value)}</Text>
+                    </Text>
+                ) : (
+                    <Text style={styles.inspectorHint}>
+                        {maxValue > 0 ? 'Dotknij słupka, aby zobaczyć szczegóły' : 'Brak treningów w tym okresie'}
+                    </Text>
+                )}
+            </View>
+
+            <View style={{ height }} onLayout={handleLayout}>
+                {width > 0 && (
+                    <Svg width={width} height={height}>
+                        <Line
+                            x1={0}
+                            y1={TOP_PADDING + plotHeight}
+                            x2={width}
+                            y2={TOP_PADDING + plotHeight}
+                            stroke="#e0e0e0"
+                            strokeWidth={1}
+                        />
+
+                        {bars.map((bar, index) => {
+                            const barHeight = maxValue > 0 ? (bar.value / maxValue) * plotHeight : 0;
+                            const x = index * slotWidth + (slotWidth - barWidth) / 2;
+                            const isSelected = index === selectedIndex;
+
+                            return (
+                                <React.Fragment key={`${bar.label}-${index}`}>
+                                    <Rect
+                                        x={x}
+                                        y={TOP_PADDING + plotHeight - barHeight}
+                                        width={barWidth}
+                                        height={Math.max(barHeight, bar.value > 0 ? 2 : 0)}
+                                        rx={4}
+                                        fill={isSelected ? '#ffc500' : selectedIndex === null ? '#ffd54f' : '#ffe9a8'}
+                                    />
+                                    {isSelected && (
+                                        <SvgText
+                                            x={x + barWidth / 2}
+                                            y={TOP_PADDING + plotHeight - barHeight - 4}
+                                            fontSize={11}
+                                            fontWeight="bold"
+                                            fill="#000"
+                                            textAnchor="middle"
+                                        >
+                                            {Math.round(bar.value)}
+                                        </SvgText>
+                                    )}
+                                    <SvgText
+                                        x={index * slotWidth + slotWidth / 2}
+                                        y={height - 5}
+                                        fontSize={11}
+                                        fill={isSelected ? '#000' : '#666'}
+                                        textAnchor="middle"
+                                    >
+                                        {bar.label}
+                                    </SvgText>
+                                    {/* Full-height touch target, so small and empty bars are easy to hit */}
+                                    <Rect
+                                        x={index * slotWidth}
+                                        y={0}
+                                        width={slotWidth}
+                                        height={height}
+                                        fill="transparent"
+                                        onPress={() => setSelectedIndex(isSelected ? null : index)}
+                                    />
+                                </React.Fragment>
+                            );
+                        })}
+                    </Svg>
+                )}
+            </View>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    inspector: {
+        minHeight: 24,
+        justifyContent: 'center',
+        marginBottom: 8,
+    },
+    inspectorText: {
+        fontSize: 14,
+        color: '#666',
+    },
+    inspectorValue: {
+        fontWeight: 'bold',
+        color: '#000',
+    },
+    inspectorHint: {
+        fontSize: 13,
+        color: '#999',
+    },
+});
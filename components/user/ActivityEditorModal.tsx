@@ -0,0 +1,491 @@
+import React, { useEffect, useState } from 'react';
+import {
+    StyleSheet,
+    Text,
+    View,
+    Modal,
+    TouchableOpacity,
+    TextInput,
+    ActivityIndicator,
+    Alert,
+    KeyboardAvoidingView,
+    Platform,
+    ScrollView
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { addDays } from 'date-fns';
+import { createActivity, updateActivity, deleteActivity } from '@/api/activity';
+import { ActivityResponse } from '@/types/ActivityResponse';
+import { ErrorResponse } from '@/types/ErrorResponse';
+import { formatActivityDuration, formatDate } from '@/utils/formatters';
+import { fromGymTime, toGymTime } from '@/utils/gymTime';
+
+interface ActivityEditorModalProps {
+    visible: boolean;
+    userId: string;
+    /** Activity to correct, or null to log a new one */
+    activity: ActivityResponse | null;
+    onClose: () => void;
+    onSaved: () => void;
+}
+
+type PickerField = 'date' | 'start' | 'end';
+
+const MAX_DURATION_MINUTES = 12 * 60;
+const NOTE_MAX_LENGTH = 200;
+
+/**
+ * Copies the time of day from one gym calendar date onto another
+ */
+const withTime = (day: Date, time: Date): Date => {
+    const result = new Date(day);
+    result.setHours(time.getHours(), time.getMinutes(), 0, 0);
+    return result;
+};
+
+const formatClock = (date: Date): string =>
+    date.toLocaleTimeString('pl-PL', { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Modal for logging a missed workout or correcting an existing one.
+ * Editing also allows deleting the activity. Dates and times are picked
+ * on the gym's clock, whatever the device timezone.
+ */
+export default function ActivityEditorModal({ visible, userId, activity, onClose, onSaved }: ActivityEditorModalProps) {
+    const [day, setDay] = useState(new Date());
+    const [start, setStart] = useState(new Date());
+    const [end, setEnd] = useState(new Date());
+    const [note, setNote] = useState('');
+    const [activePicker, setActivePicker] = useState<PickerField | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    const isEditing = activity !== null;
+
+    // Fill the form each time the modal opens
+    useEffect(() => {
+        if (!visible) return;
+
+        if (activity) {
+            const activityStart = new Date(activity.startTime);
+            const activityEnd = activity.endTime
+                ? new Date(activity.endTime)
+                : new Date(activityStart.getTime() + activity.durationMinutes * 60 * 1000);
+            setDay(toGymTime(activityStart));
+            setStart(toGymTime(activityStart));
+            setEnd(toGymTime(activityEnd));
+            setNote(activity.note ?? '');
+        } else {
+            const now = toGymTime(new Date());
+            now.setSeconds(0, 0);
+            setDay(now);
+            setStart(new Date(now.getTime() - 60 * 60 * 1000));
+            setEnd(now);
+            setNote('');
+        }
+        setActivePicker(null);
+        setError(null);
+    }, [visible, activity]);
+
+    // An end earlier than the start means the workout went past midnight
+    const endsNextDay = withTime(day, end).getTime() < withTime(day, start).getTime();
+    const startDate = fromGymTime(withTime(day, start));
+    const endDate = fromGymTime(withTime(endsNextDay ? addDays(day, 1) : day, end));
+    const durationMinutes = Math.round((endDate.getTime() - startDate.getTime()) / 60000);
+
+    /**
+     * Validate the selected time range
+     * @returns error message or null if the range is valid
+     */
+    const validate = (): string | null => {
+        if (durationMinutes <= 0) {
+            return 'Godzina zakończenia musi być późniejsza niż rozpoczęcia';
+        }
+        if (durationMinutes > MAX_DURATION_MINUTES) {
+            return 'Trening nie może trwać dłużej niż 12 godzin';
+        }
+        if (endDate.getTime() > Date.now()) {
+            return 'Nie można zapisać treningu, który jeszcze się nie zakończył';
+        }
+        return null;
+    };
+
+    const handlePickerChange = (event: any, selected?: Date) => {
+        const field = activePicker;
+        setActivePicker(Platform.OS === 'ios' ? field : null);
+        if (!selected || event.type === 'dismissed') return;
+
+        if (field === 'date') setDay(selected);
+        if (field === 'start') setStart(selected);
+        if (field === 'end') setEnd(selected);
+        setError(null);
+    };
+
+    const handleSave = async () => {
+        const validationError = validate();
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+
+        setLoading(true);
+        try {
+            const request = {
+                startTime: startDate.toISOString(),
+                endTime: endDate.toISOString(),
+                note: note.trim() || undefined,
+            };
+
+            if (activity) {
+                await updateActivity(activity.id, request);
+            } else {
+                await createActivity(userId, request);
+            }
+
+            onSaved();
+            onClose();
+        } catch (err: any) {
+            console.error('Error saving activity:', err);
+            const errData = err?.response?.data as ErrorResponse;
+            Alert.alert('Błąd', errData?.message || 'Nie udało się zapisać treningu');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleDelete = () => {
+        if (!activity) return;
+
+        Alert.alert(
+            'Usuń trening',
+            'Czy na pewno chcesz usunąć ten trening z historii?',
+            [
+                { text: 'Anuluj', style: 'cancel' },
+                {
+                    text: 'Usuń',
+                    style: 'destructive',
+                    onPress: async () => {
+                        setLoading(true);
+                        try {
+                            await deleteActivity(activity.id);
+                            onSaved();
+                            onClose();
+                        } catch (err: any) {
+                            console.error('Error deleting activity:', err);
+                            const errData = err?.response?.data as ErrorResponse;
+                            Alert.alert('Błąd', errData?.message || 'Nie udało się usunąć treningu');
+                        } finally {
+                            setLoading(false);
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    const handleClose = () => {
+        if (!loading) {
+            onClose();
+        }
+    };
+
+    const renderField = (field: PickerField, label: string, value: string, icon: 'calendar-outline' | 'time-outline') => (
+        <View style={styles.inputGroup}>
+            <Text style={styles.label}>{label}</Text>
+            <TouchableOpacity
+                style={[styles.pickerButton, activePicker === field && styles.pickerButtonActive]}
+                onPress={() => setActivePicker(activePicker === field ? null : field)}
+                disabled={loading}
+            >
+                <Text style={styles.pickerText}>{value}</Text>
+                <Ionicons name={icon} size={20} color="#666" />
+            </TouchableOpacity>
+        </View>
+    );
+
+    return (
+        <Modal
+            visible={visible}
+            transparent={true}
+            animationType="slide"
+            onRequestClose={handleClose}
+        >
+            <KeyboardAvoidingView
+                style={styles.overlay}
+                behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+            >
+                <View style={styles.sheet}>
+                    <ScrollView
+                        contentContainerStyle={styles.scrollContainer}
+                        keyboardShouldPersistTaps="handled"
+                        showsVerticalScrollIndicator={false}
+                    >
+                        {/* Header */}
+                        <View style={styles.header}>
+                            <Text style={styles.title}>
+                                {isEditing ? 'Popraw trening' : 'Dodaj trening'}
+                            </Text>
+                            <TouchableOpacity
+                                style={[styles.closeButton, loading && styles.disabledButton]}
+                                onPress={handleClose}
+                                disabled={loading}
+                            >
+                                <Ionicons name="close" size={24} color={loading ? "#ccc" : "#000"} />
+                            </TouchableOpacity>
+                        </View>
+
+                        {isEditing && activity.source === 'AUTO' && (
+                            <View style={styles.infoBox}>
+                                <Ionicons name="information-circle-outline" size={18} color="#666" />
+                                <Text style={styles.infoText}>
+                                    Trening wykryty automatycznie. Po zmianie zostanie oznaczony jako ręczny.
+                                </Text>
+                            </View>
+                        )}
+
+                        {renderField('date', 'Data', formatDate(day), 'calendar-outline')}
+
+                        <View style={styles.timeRow}>
+                            <View style={styles.timeColumn}>
+                                {renderField('start', 'Początek', formatClock(start), 'time-outline')}
+                            </View>
+                            <View style={styles.timeColumn}>
+                                {renderField('end', endsNextDay ? 'Koniec (następnego dnia)' : 'Koniec', formatClock(end), 'time-outline')}
+                            </View>
+                        </View>
+
+                        {activePicker && (
+                            <DateTimePicker
+                                value={activePicker === 'date' ? day : activePicker === 'start' ? start : end}
+                                mode={activePicker === 'date' ? 'date' : 'time'}
+                                display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                                onChange={handlePickerChange}
+                                maximumDate={activePicker === 'date' ? toGymTime(new Date()) : undefined}
+                                is24Hour={true}
+                                locale="pl-PL"
+                                textColor="#000000"
+                                themeVariant="light"
+                            />
+                        )}
+
+                        <Text style={[styles.durationText, durationMinutes <= 0 && styles.durationInvalid]}>
+                            Czas trwania: {durationMinutes > 0 ? formatActivityDuration(durationMinutes) : '—'}
+                        </Text>
+
+                        <View style={styles.inputGroup}>
+                            <Text style={styles.label}>Notatka (opcjonalnie)</Text>
+                            <TextInput
+                                style={styles.noteInput}
+                                value={note}
+                                onChangeText={setNote}
+                                placeholder="Np. telefon się rozładował"
+                                maxLength={NOTE_MAX_LENGTH}
+                                multiline
+                                editable={!loading}
+                            />
+                        </View>
+
+                        {error && <Text style={styles.errorText}>{error}</Text>}
+
+                        {/* Action Buttons */}
+                        <View style={styles.buttonContainer}>
+                            {isEditing ? (
+                                <TouchableOpacity
+                                    style={[styles.deleteButton, loading && styles.disabledButton]}
+                                    onPress={handleDelete}
+                                    disabled={loading}
+                                >
+                                    <Text style={styles.deleteButtonText}>Usuń</Text>
+                                </TouchableOpacity>
+                            ) : (
+                                <TouchableOpacity
+                                    style={[styles.cancelButton, loading && styles.disabledButton]}
+                                    onPress={handleClose}
+                                    disabled={loading}
+                                >
+                                    <Text style={styles.cancelButtonText}>Anuluj</Text>
+                                </TouchableOpacity>
+                            )}
+
+                            <TouchableOpacity
+                                style={[styles.submitButton, loading && styles.submitButtonDisabled]}
+                                onPress={handleSave}
+                                disabled={loading}
+                            >
+                                {loading ? (
+                                    <ActivityIndicator color="#000" size="small" />
+                                ) : (
+                                    <Text style={styles.submitButtonText}>Zapisz</Text>
+                                )}
+                            </TouchableOpacity>
+                        </View>
+                    </ScrollView>
+                </View>
+            </KeyboardAvoidingView>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'flex-end',
+    },
+    sheet: {
+        backgroundColor: '#fff',
+        borderTopLeftRadius: 20,
+        borderTopRightRadius: 20,
+        maxHeight: '90%',
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: -4 },
+        shadowOpacity: 0.2,
+        shadowRadius: 8,
+        elevation: 8,
+    },
+    scrollContainer: {
+        padding: 24,
+        paddingBottom: 40,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 20,
+    },
+    title: {
+        fontSize: 22,
+        fontWeight: 'bold',
+        color: '#000',
+    },
+    closeButton: {
+        padding: 8,
+        backgroundColor: '#f5f5f5',
+        borderRadius: 20,
+    },
+    disabledButton: {
+        opacity: 0.5,
+    },
+    infoBox: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#f8f9fa',
+        borderRadius: 8,
+        padding: 12,
+        marginBottom: 20,
+        gap: 8,
+    },
+    infoText: {
+        flex: 1,
+        fontSize: 13,
+        color: '#666',
+    },
+    inputGroup: {
+        marginBottom: 16,
+    },
+    label: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#000',
+        marginBottom: 8,
+    },
+    pickerButton: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        borderWidth: 2,
+        borderColor: '#e0e0e0',
+        borderRadius: 12,
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+    },
+    pickerButtonActive: {
+        borderColor: '#ffc500',
+    },
+    pickerText: {
+        fontSize: 16,
+        color: '#000',
+    },
+    timeRow: {
+        flexDirection: 'row',
+        gap: 12,
+    },
+    timeColumn: {
+        flex: 1,
+    },
+    durationText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#666',
+        marginBottom: 16,
+    },
+    durationInvalid: {
+        color: '#F44336',
+    },
+    noteInput: {
+        borderWidth: 2,
+        borderColor: '#e0e0e0',
+        borderRadius: 12,
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        fontSize: 16,
+        minHeight: 80,
+        textAlignVertical: 'top',
+    },
+    errorText: {
+        color: '#F44336',
+        fontSize: 14,
+        marginBottom: 16,
+        marginLeft: 4,
+    },
+    buttonContainer: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        gap: 12,
+    },
+    cancelButton: {
+        flex: 1,
+        paddingVertical: 12,
+        paddingHorizontal: 24,
+        borderRadius: 12,
+        borderWidth: 2,
+        borderColor: '#e0e0e0',
+        alignItems: 'center',
+    },
+    cancelButtonText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#666',
+    },
+    deleteButton: {
+        flex: 1,
+        paddingVertical: 12,
+        paddingHorizontal: 24,
+        borderRadius: 12,
+        borderWidth: 2,
+        borderColor: '#F44336',
+        alignItems: 'center',
+    },
+    deleteButtonText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#F44336',
+    },
+    submitButton: {
+        flex: 1,
+        paddingVertical: 12,
+        paddingHorizontal: 24,
+        borderRadius: 12,
+        backgroundColor: '#ffc500',
+        alignItems: 'center',
+    },
+    submitButtonDisabled: {
+        opacity: 0.6,
+    },
+    submitButtonText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#000',
+    },
+});
@@ -15,13 +15,31 @@ import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/context/AuthContext';
 import { useUser } from '@/context/UserContext';
 import { ActivityStatus } from '@/types/ActivityStatus';
+import { ActivityResponse } from '@/types/ActivityResponse';
 import { getWeeklyStats, getMonthlyStats, getTotalActivity, getUsersOnGym, PaginationParams} from '@/api/activity';
+import { expireCache } from '@/api/cache';
 import { useLocationTracking } from '@/hooks/useLocationTracking';
 import { formatActivityDuration } from '@/utils/formatters';
 import { useFocusEffect } from '@react-navigation/native';
+import OfflineBanner from '@/components/ui/OfflineBanner';
+import ActivityEditorModal from '@/components/user/ActivityEditorModal';
+import ActivityBarChart from '@/components/user/ActivityBarChart';
+import WorkoutGoalCard from '@/components/user/WorkoutGoalCard';
+import { useWorkoutGoals } from '@/context/WorkoutGoalsContext';
+import { buildMonthBars, buildWeekBars, buildYearTrendBars, ChartBar, getTrendMonthStarts } from '@/utils/activityCharts';
+import { formatGymDate, getGymMonthStart, getGymWeekStart } from '@/utils/gymTime';
 
 type StatsType = 'weekly' | 'monthly' | 'total';
 
+// Week and month charts need every session of the period, not just the first page of the list
+const CHART_PAGE_SIZE = 100;
+const CHART_MAX_PAGES = 3;
+
+interface ChartData {
+    statsType: StatsType;
+    bars: ChartBar[];
+}
+
 export default function ActivityScreen() {
     const { user } = useAuth();
     const { isInGym, sessionDetails, setLocationStatus } = useUser();
@@ -33,8 +51,13 @@ export default function ActivityScreen() {
     const [currentPage, setCurrentPage] = useState(0);
     const [hasMorePages, setHasMorePages] = useState(false);
     const [loadingMore, setLoadingMore] = useState(false);
+    const [editorVisible, setEditorVisible] = useState(false);
+    const [editedActivity, setEditedActivity] = useState<ActivityResponse | null>(null);
+    const [chartData, setChartData] = useState<ChartData | null>(null);
 
     const { forceUpdate } = useLocationTracking(user?.id || null, setLocationStatus);
+    const workoutGoals = useWorkoutGoals();
+    const refreshWorkoutGoals = workoutGoals.refresh;
     const { startTime, currentSessionMinutes } = sessionDetails;
 
     // Debug logging for location tracking state
@@ -48,11 +71,54 @@ export default function ActivityScreen() {
         });
     }, [isInGym, startTime, currentSessionMinutes, sessionDetails, user?.id]);
 
+    // Fetch only the range the selected chart shows
+    const fetchChartData = useCallback(async () => {
+        if (!user?.id) return;
+        const userId = user.id;
+
+        const statsType = selectedStats;
+        try {
+            if (statsType === 'total') {
+                // The trend needs just the monthly sums, which the first page of every month carries
+                const months = await Promise.all(
+                    getTrendMonthStarts().map(monthStart =>
+                        getMonthlyStats(userId, formatGymDate(monthStart), { page: 0, size: 1 })
+                    )
+                );
+                setChartData({ statsType, bars: buildYearTrendBars(months.map(stats => stats.totalMinutes)) });
+                return;
+            }
+
+            // Stats windows follow the gym's weeks and months
+            const weekStart = getGymWeekStart();
+            const monthStart = getGymMonthStart();
+            const activities: ActivityResponse[] = [];
+
+            for (let page = 0; page < CHART_MAX_PAGES; page++) {
+                const pagination: PaginationParams = { page, size: CHART_PAGE_SIZE };
+                const stats = statsType === 'weekly'
+                    ? await getWeeklyStats(userId, formatGymDate(weekStart), pagination)
+                    : await getMonthlyStats(userId, formatGymDate(monthStart), pagination);
+
+                activities.push(...stats.activities.content);
+                if (page >= stats.activities.totalPages - 1) break;
+            }
+
+            setChartData({
+                statsType,
+                bars: statsType === 'weekly' ? buildWeekBars(activities, weekStart) : buildMonthBars(activities, monthStart),
+            });
+        } catch (error) {
+            console.error('❌ Error fetching chart data:', error);
+        }
+    }, [user?.id, selectedStats]);
+
     const fetchStats = useCallback(async (page: number = 0, reset: boolean = false) => {
         if (!user?.id) return;
 
         if (reset) {
             setLoading(true);
+            fetchChartData();
         } else {
             setLoadingMore(true);
         }
@@ -69,10 +135,10 @@ export default function ActivityScreen() {
             if (selectedStats === 'total') {
                 stats = await getTotalActivity(user.id, pagination);
             } else if (selectedStats === 'weekly') {
-                const weekStart = getWeekStart(new Date()).toISOString().split('T')[0];
+                const weekStart = formatGymDate(getGymWeekStart());
                 stats = await getWeeklyStats(user.id, weekStart, pagination);
             } else {
-                const monthStart = getMonthStart(new Date()).toISOString().split('T')[0];
+                const monthStart = formatGymDate(getGymMonthStart());
                 stats = await getMonthlyStats(user.id, monthStart, pagination);
             }
 
@@ -108,7 +174,7 @@ export default function ActivityScreen() {
             setLoading(false);
             setLoadingMore(false);
         }
-    }, [user?.id, selectedStats]);
+    }, [user?.id, selectedStats, fetchChartData]);
 
     // Fetch current gym occupancy count
     const fetchOnGymCount = useCallback(async () => {
@@ -155,10 +221,12 @@ export default function ActivityScreen() {
         console.log('🔄 Manual refresh triggered');
         setRefreshing(true);
         setCurrentPage(0);
+        await expireCache('/activities');
         await Promise.all([
             forceUpdate(),
             fetchStats(0, true),
-            fetchOnGymCount()
+            fetchOnGymCount(),
+            refreshWorkoutGoals()
         ]);
         setRefreshing(false);
         console.log('✅ Manual refresh completed');
@@ -173,22 +241,32 @@ export default function ActivityScreen() {
         }
     };
 
+    // Open the editor for a new manual entry, or for correcting an existing one
+    const openEditor = (activity: ActivityResponse | null) => {
+        setEditedActivity(activity);
+        setEditorVisible(true);
+    };
+
+    const handleActivitySaved = () => {
+        setCurrentPage(0);
+        fetchStats(0, true);
+        refreshWorkoutGoals();
+    };
+
     // Handle stats type selection
     const handleStatsTypeChange = (statsType: StatsType) => {
         setSelectedStats(statsType);
         setCurrentPage(0);
     };
 
-    // Utility functions for date calculations
-    const getWeekStart = (date: Date) => {
-        const d = new Date(date);
-        const day = d.getDay();
-        const diff = d.getDate() - day + (day === 0 ? -6 : 1);
-        return new Date(d.setDate(diff));
-    };
+    // Chart bars for the selected period, only once data of that period arrived
+    const chartBars = chartData && chartData.statsType === selectedStats ? chartData.bars : null;
 
-    const getMonthStart = (date: Date) =>
-        new Date(date.getFullYear(), date.getMonth(), 1);
+    const getChartTitle = () => {
+        if (selectedStats === 'total') return 'Ostatnie 12 miesięcy';
+        if (selectedStats === 'weekly') return 'Minuty w poszczególne dni';
+        return 'Minuty w poszczególnych tygodniach';
+    };
 
     // Get display title for selected stats period
     const getStatsTitle = () => {
@@ -238,6 +316,7 @@ export default function ActivityScreen() {
 
     return (
         <SafeAreaView style={styles.container} edges={['left', 'right', 'bottom']}>
+            <OfflineBanner />
             <ScrollView
                 contentContainerStyle={styles.scrollContainer}
                 showsVerticalScrollIndicator={false}
@@ -257,6 +336,10 @@ export default function ActivityScreen() {
 
                 <View style={styles.header}>
                     <Text style={styles.title}>Moja aktywność</Text>
+                    <TouchableOpacity style={styles.addButton} onPress={() => openEditor(null)}>
+                        <Ionicons name="add" size={20} color="#000" />
+                        <Text style={styles.addButtonText}>Dodaj trening</Text>
+                    </TouchableOpacity>
                 </View>
 
                 {/* Current activity card - only shown when user has active session */}
@@ -302,6 +385,15 @@ export default function ActivityScreen() {
                     </View>
                 )}
 
+                {/* Weekly goal progress and streaks */}
+                <WorkoutGoalCard
+                    goal={workoutGoals.goal}
+                    progress={workoutGoals.progress}
+                    streaks={workoutGoals.streaks}
+                    loading={workoutGoals.loading}
+                    onSaveGoal={workoutGoals.setGoal}
+                />
+
                 {/* Period selector tabs */}
                 <View style={styles.periodSelector}>
                     {(['weekly', 'monthly', 'total'] as StatsType[]).map((period) => (
@@ -358,6 +450,16 @@ export default function ActivityScreen() {
                                 </View>
                             </View>
 
+                            {/* Minutes chart for the selected period */}
+                            <View style={styles.chartCard}>
+                                <Text style={styles.chartTitle}>{getChartTitle()}</Text>
+                                {chartBars ? (
+                                    <ActivityBarChart bars={chartBars} />
+                                ) : (
+                                    <ActivityIndicator size="small" color="#ffc500" style={styles.chartLoader} />
+                                )}
+                            </View>
+
                             {/* Activity history list */}
                             {activityStatus.activities.content.length > 0 && (
                                 <View style={styles.activitiesSection}>
@@ -365,9 +467,15 @@ export default function ActivityScreen() {
                                         Historia aktywności
                                     </Text>
                                     {activityStatus.activities.content.map((activity) => (
-                                        <View
+                                        <TouchableOpacity
                                             key={activity.id}
-                                            style={styles.activityItem}
+                                            style={[
+                                                styles.activityItem,
+                                                activity.source === 'MANUAL' && styles.activityItemManual
+                                            ]}
+                                            onPress={() => openEditor(activity)}
+                                            // Sessions still in progress are closed by the tracking
+                                            disabled={!activity.endTime}
                                         >
                                             <View style={styles.activityInfo}>
                                                 <Text style={styles.activityDate}>
@@ -392,6 +500,17 @@ export default function ActivityScreen() {
                                                         : 'W toku'
                                                     }
                                                 </Text>
+                                                {activity.source === 'MANUAL' && (
+                                                    <View style={styles.manualBadge}>
+                                                        <Ionicons name="create-outline" size={12} color="#666" />
+                                                        <Text style={styles.manualBadgeText}>Dodany ręcznie</Text>
+                                                    </View>
+                                                )}
+                                                {activity.note ? (
+                                                    <Text style={styles.activityNote} numberOfLines={2}>
+                                                        {activity.note}
+                                                    </Text>
+                                                ) : null}
                                             </View>
                                             <View style={styles.activityDuration}>
                                                 <Text
@@ -404,7 +523,7 @@ export default function ActivityScreen() {
                                                     )}
                                                 </Text>
                                             </View>
-                                        </View>
+                                        </TouchableOpacity>
                                     ))}
 
                                     {/* Pagination - Load more button */}
@@ -445,6 +564,16 @@ export default function ActivityScreen() {
                     )}
                 </View>
             </ScrollView>
+
+            {user?.id && (
+                <ActivityEditorModal
+                    visible={editorVisible}
+                    userId={user.id}
+                    activity={editedActivity}
+                    onClose={() => setEditorVisible(false)}
+                    onSaved={handleActivitySaved}
+                />
+            )}
         </SafeAreaView>
     );
 }
@@ -460,6 +589,15 @@ const styles = StyleSheet.create({
         marginBottom: 20
     },
     title: { fontSize: 24, fontWeight: 'bold', color: '#000' },
+    addButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#ffc500',
+        borderRadius: 20,
+        paddingVertical: 8,
+        paddingHorizontal: 12
+    },
+    addButtonText: { fontSize: 14, fontWeight: '600', color: '#000', marginLeft: 4 },
     activityButton: {
         flexDirection: 'row',
         alignItems: 'center',
@@ -562,6 +700,16 @@ const styles = StyleSheet.create({
     },
     statLabel: { fontSize: 14, color: '#666', textAlign: 'center' },
 
+    chartCard: {
+        backgroundColor: '#fff',
+        borderRadius: 16,
+        padding: 16,
+        borderWidth: 2,
+        borderColor: '#f0f0f0'
+    },
+    chartTitle: { fontSize: 16, fontWeight: '600', color: '#000', marginBottom: 4 },
+    chartLoader: { paddingVertical: 40 },
+
     activitiesSection: { marginTop: 20 },
     activityItem: {
         flexDirection: 'row',
@@ -574,6 +722,7 @@ const styles = StyleSheet.create({
         borderWidth: 1,
         borderColor: '#f0f0f0'
     },
+    activityItemManual: { borderStyle: 'dashed', borderColor: '#ccc' },
     activityInfo: { flex: 1 },
     activityDate: {
         fontSize: 16,
@@ -582,6 +731,18 @@ const styles = StyleSheet.create({
         marginBottom: 4
     },
     activityTime: { fontSize: 14, color: '#666' },
+    manualBadge: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        alignSelf: 'flex-start',
+        backgroundColor: '#f0f0f0',
+        borderRadius: 8,
+        paddingHorizontal: 6,
+        paddingVertical: 2,
+        marginTop: 6
+    },
+    manualBadgeText: { fontSize: 12, color: '#666', marginLeft: 4 },
+    activityNote: { fontSize: 13, color: '#999', fontStyle: 'italic', marginTop: 4 },
     activityDuration: { alignItems: 'flex-end' },
     activityDurationText: {
         fontSize: 16,
@@ -0,0 +1,378 @@
+import React, { useEffect, useState } from 'react';
+import {
+    StyleSheet,
+    Text,
+    View,
+    Modal,
+    TouchableOpacity,
+    TextInput,
+    ActivityIndicator,
+    Alert,
+    KeyboardAvoidingView,
+    Platform,
+    ScrollView
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { deleteBillingDetails, updateBillingDetails } from '@/api/user';
+import { BillingDetails } from '@/types/BillingDetails';
+import { isValidNip } from '@/utils/invoice';
+import { getErrorMessage } from '@/utils/errorHandler';
+
+interface BillingDetailsModalProps {
+    visible: boolean;
+    /** Currently saved details, null for private purchases */
+    billingDetails: BillingDetails | null;
+    onClose: () => void;
+    /** Called after the details were saved or removed */
+    onSaved: () => void;
+}
+
+const EMPTY_DETAILS: BillingDetails = {
+    companyName: '',
+    nip: '',
+    address: '',
+};
+
+/**
+ * Modal for the company data printed on invoices of membership purchases
+ */
+export default function BillingDetailsModal({ visible, billingDetails, onClose, onSaved }: BillingDetailsModalProps) {
+    const [formData, setFormData] = useState<BillingDetails>(EMPTY_DETAILS);
+    const [errors, setErrors] = useState<Partial<BillingDetails>>({});
+    const [loading, setLoading] = useState(false);
+
+    // Start from the saved details every time the modal opens
+    useEffect(() => {
+        if (visible) {
+            setFormData(billingDetails ?? EMPTY_DETAILS);
+            setErrors({});
+        }
+    }, [visible, billingDetails]);
+
+    /**
+     * Validate form fields
+     * @returns boolean indicating if form is valid
+     */
+    const validateForm = (): boolean => {
+        const newErrors: Partial<BillingDetails> = {};
+
+        if (!formData.companyName.trim()) {
+            newErrors.companyName = 'Nazwa firmy jest wymagana';
+        }
+        if (!isValidNip(formData.nip)) {
+            newErrors.nip = 'Nieprawidłowy numer NIP';
+        }
+        if (!formData.address.trim()) {
+            newErrors.address = 'Adres jest wymagany';
+        }
+
+        setErrors(newErrors);
+        return Object.keys(newErrors).length === 0;
+    };
+
+    const handleSubmit = async () => {
+        if (!validateForm()) {
+            return;
+        }
+
+        setLoading(true);
+        try {
+            await updateBillingDetails({
+                companyName: formData.companyName.trim(),
+                nip: formData.nip.replace(/[\s-]/g, ''),
+                address: formData.address.trim(),
+            });
+            onSaved();
+            onClose();
+        } catch (error) {
+            console.error('Error saving billing details:', error);
+            Alert.alert('Błąd', getErrorMessage(error));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleRemove = () => {
+        Alert.alert(
+            'Usuń dane firmy',
+            'Kolejne faktury będą wystawiane na Ciebie jako osobę prywatną.',
+            [
+                { text: 'Anuluj', style: 'cancel' },
+                {
+                    text: 'Usuń',
+                    style: 'destructive',
+                    onPress: async () => {
+                        setLoading(true);
+                        try {
+                            await deleteBillingDetails();
+                            onSaved();
+                            onClose();
+                        } catch (error) {
+                            console.error('Error removing billing details:', error);
+                            Alert.alert('Błąd', getErrorMessage(error));
+                        } finally {
+                            setLoading(false);
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    const handleClose = () => {
+        if (!loading) {
+            onClose();
+        }
+    };
+
+    /**
+     * Update form field and clear associated error
+     */
+    const updateFormData = (field: keyof BillingDetails, value: string) => {
+        setFormData(prev => ({ ...prev, [field]: value }));
+        if (errors[field]) {
+            setErrors(prev => ({ ...prev, [field]: undefined }));
+        }
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            transparent={true}
+            animationType="slide"
+            onRequestClose={handleClose}
+        >
+            <KeyboardAvoidingView
+                style={styles.overlay}
+                behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+            >
+                <View style={styles.modalContainer}>
+                    <ScrollView
+                        contentContainerStyle={styles.scrollContainer}
+                        keyboardShouldPersistTaps="handled"
+                        showsVerticalScrollIndicator={false}
+                    >
+                        {/* Header */}
+                        <View style={styles.header}>
+                            <Text style={styles.title}>Dane do faktury</Text>
+                            <TouchableOpacity
+                                style={[styles.closeButton, loading && styles.disabledButton]}
+                                onPress={handleClose}
+                                disabled={loading}
+                            >
+                                <Ionicons name="close" size={24} color={loading ? "#ccc" : "#000"} />
+                            </TouchableOpacity>
+                        </View>
+
+                        {/* Form */}
+                        <View style={styles.form}>
+                            <View style={styles.inputGroup}>
+                                <Text style={styles.label}>Nazwa firmy</Text>
+                                <TextInput
+                                    style={[styles.input, errors.companyName && styles.inputError]}
+                                    value={formData.companyName}
+                                    onChangeText={(text) => updateFormData('companyName', text)}
+                                    placeholder="Np. Jan Kowalski Usługi IT"
+                                    editable={!loading}
+                                />
+                                {errors.companyName && (
+                                    <Text style={styles.errorText}>{errors.companyName}</Text>
+                                )}
+                            </View>
+
+                            <View style={styles.inputGroup}>
+                                <Text style={styles.label}>NIP</Text>
+                                <TextInput
+                                    style={[styles.input, errors.nip && styles.inputError]}
+                                    value={formData.nip}
+                                    onChangeText={(text) => updateFormData('nip', text)}
+                                    placeholder="10 cyfr"
+                                    keyboardType="number-pad"
+                                    maxLength={13}
+                                    editable={!loading}
+                                />
+                                {errors.nip && (
+                                    <Text style={styles.errorText}>{errors.nip}</Text>
+                                )}
+                            </View>
+
+                            <View style={styles.inputGroup}>
+                                <Text style={styles.label}>Adres</Text>
+                                <TextInput
+                                    style={[styles.input, styles.addressInput, errors.address && styles.inputError]}
+                                    value={formData.address}
+                                    onChangeText={(text) => updateFormData('address', text)}
+                                    placeholder="Ulica, numer, kod pocztowy, miasto"
+                                    multiline
+                                    editable={!loading}
+                                />
+                                {errors.address && (
+                                    <Text style={styles.errorText}>{errors.address}</Text>
+                                )}
+                            </View>
+
+                            {billingDetails && (
+                                <TouchableOpacity
+                                    style={styles.removeButton}
+                                    onPress={handleRemove}
+                                    disabled={loading}
+                                >
+                                    <Text style={styles.removeButtonText}>Usuń dane firmy</Text>
+                                </TouchableOpacity>
+                            )}
+                        </View>
+
+                        {/* Action Buttons */}
+                        <View style={styles.buttonContainer}>
+                            <TouchableOpacity
+                                style={[styles.cancelButton, loading && styles.disabledButton]}
+                                onPress={handleClose}
+                                disabled={loading}
+                            >
+                                <Text style={[styles.cancelButtonText, loading && styles.disabledText]}>
+                                    Anuluj
+                                </Text>
+                            </TouchableOpacity>
+
+                            <TouchableOpacity
+                                style={[styles.submitButton, loading && styles.submitButtonDisabled]}
+                                onPress={handleSubmit}
+                                disabled={loading}
+                            >
+                                {loading ? (
+                                    <ActivityIndicator color="#000" size="small" />
+                                ) : (
+                                    <Text style={styles.submitButtonText}>Zapisz</Text>
+                                )}
+                            </TouchableOpacity>
+                        </View>
+                    </ScrollView>
+                </View>
+            </KeyboardAvoidingView>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    modalContainer: {
+        width: '90%',
+        maxWidth: 400,
+        backgroundColor: '#fff',
+        borderRadius: 16,
+        maxHeight: '80%',
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 8,
+        elevation: 8,
+    },
+    scrollContainer: {
+        padding: 24,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 24,
+    },
+    title: {
+        fontSize: 22,
+        fontWeight: 'bold',
+        color: '#000',
+    },
+    closeButton: {
+        padding: 8,
+        backgroundColor: '#f5f5f5',
+        borderRadius: 20,
+    },
+    disabledButton: {
+        opacity: 0.5,
+    },
+    form: {
+        marginBottom: 24,
+    },
+    inputGroup: {
+        marginBottom: 20,
+    },
+    label: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#000',
+        marginBottom: 8,
+    },
+    input: {
+        borderWidth: 2,
+        borderColor: '#e0e0e0',
+        borderRadius: 12,
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        fontSize: 16,
+        backgroundColor: '#fff',
+    },
+    addressInput: {
+        minHeight: 80,
+        textAlignVertical: 'top',
+    },
+    inputError: {
+        borderColor: '#F44336',
+    },
+    errorText: {
+        color: '#F44336',
+        fontSize: 14,
+        marginTop: 4,
+        marginLeft: 4,
+    },
+    removeButton: {
+        alignSelf: 'flex-start',
+        paddingVertical: 4,
+    },
+    removeButtonText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#F44336',
+    },
+    buttonContainer: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        gap: 12,
+    },
+    cancelButton: {
+        flex: 1,
+        paddingVertical: 12,
+        paddingHorizontal: 24,
+        borderRadius: 12,
+        borderWidth: 2,
+        borderColor: '#e0e0e0',
+        alignItems: 'center',
+    },
+    cancelButtonText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#666',
+    },
+    disabledText: {
+        color: '#ccc',
+    },
+    submitButton: {
+        flex: 1,
+        paddingVertical: 12,
+        paddingHorizontal: 24,
+        borderRadius: 12,
+        backgroundColor: '#ffc500',
+        alignItems: 'center',
+    },
+    submitButtonDisabled: {
+        opacity: 0.6,
+    },
+    submitButtonText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#000',
+    },
+});
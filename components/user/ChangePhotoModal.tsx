@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import {
     StyleSheet,
     Text,
@@ -11,6 +11,8 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { Image } from 'expo-image';
 import { updateUserPhoto } from '@/api/user';
+import { isUploadCanceled } from '@/api/upload';
+import UploadProgress from '@/components/ui/UploadProgress';
 import {handleApiError} from "@/utils/errorHandler";
 import {useImagePicker} from "@/utils/useImagePicker";
 
@@ -23,6 +25,8 @@ interface ChangePhotoModalProps {
 
 export default function ChangePhotoModal({ visible, onClose, onPhotoUpdated }: ChangePhotoModalProps) {
     const [uploading, setUploading] = useState(false);
+    const [progress, setProgress] = useState(0);
+    const uploadController = useRef<AbortController | null>(null);
     const { selectedImage, showImagePicker, resetImage } = useImagePicker();
 
     // Upload the selected photo to the server
@@ -32,9 +36,14 @@ export default function ChangePhotoModal({ visible, onClose, onPhotoUpdated }: C
             return;
         }
 
+        const controller = new AbortController();
+        uploadController.current = controller;
         setUploading(true);
         try {
-            await updateUserPhoto(selectedImage);
+            await updateUserPhoto(selectedImage, {
+                onProgress: setProgress,
+                signal: controller.signal,
+            });
             Alert.alert(
                 'Sukces',
                 'Zdjęcie profilowe zostało pomyślnie zaktualizowane',
@@ -49,12 +58,22 @@ export default function ChangePhotoModal({ visible, onClose, onPhotoUpdated }: C
                 ]
             );
         } catch (error: any) {
-            handleApiError(error);
+            // Cancelled by the user, the selected photo stays for another attempt
+            if (!isUploadCanceled(error)) {
+                handleApiError(error);
+            }
         } finally {
+            uploadController.current = null;
             setUploading(false);
+            setProgress(0);
         }
     };
 
+    // Abort the running upload
+    const cancelUpload = () => {
+        uploadController.current?.abort();
+    };
+
     // Reset state and close modal
     const handleClose = () => {
         if (!uploading) {
@@ -131,6 +150,8 @@ export default function ChangePhotoModal({ visible, onClose, onPhotoUpdated }: C
                         </View>
                     </View>
 
+                    {uploading && <UploadProgress progress={progress} onCancel={cancelUpload} />}
+
                     {/* Bottom Buttons */}
                     <View style={styles.buttonContainer}>
                         <TouchableOpacity
@@ -0,0 +1,260 @@
+import React, { useEffect, useState } from 'react';
+import {
+    StyleSheet,
+    Text,
+    View,
+    Modal,
+    TouchableOpacity,
+    TextInput,
+    ActivityIndicator,
+    KeyboardAvoidingView,
+    Platform
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { reportEntryDispute } from '@/api/membership';
+import { EntryLedgerItem } from '@/types/EntryLedger';
+import { formatDate } from '@/utils/formatters';
+import { ENTRY_SOURCE_LABELS } from '@/utils/entryLedger';
+import { getErrorMessage } from '@/utils/errorHandler';
+
+interface EntryDisputeModalProps {
+    membershipId: string;
+    /** Entry being reported, the modal is visible while it is set */
+    entry: EntryLedgerItem | null;
+    onClose: () => void;
+    onReported: (entry: EntryLedgerItem) => void;
+}
+
+const REASON_MIN_LENGTH = 10;
+const REASON_MAX_LENGTH = 500;
+
+/**
+ * Bottom sheet for reporting an entry the member does not recognise
+ */
+export default function EntryDisputeModal({ membershipId, entry, onClose, onReported }: EntryDisputeModalProps) {
+    const [reason, setReason] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    useEffect(() => {
+        if (entry) {
+            setReason('');
+            setError(null);
+        }
+    }, [entry]);
+
+    const handleSubmit = async () => {
+        if (!entry) return;
+
+        if (reason.trim().length < REASON_MIN_LENGTH) {
+            setError(`Opisz problem w co najmniej ${REASON_MIN_LENGTH} znakach`);
+            return;
+        }
+
+        setLoading(true);
+        try {
+            const reported = await reportEntryDispute(membershipId, entry.id, { reason: reason.trim() });
+            onReported(reported);
+            onClose();
+        } catch (err) {
+            console.error('Error reporting entry:', err);
+            setError(getErrorMessage(err));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleClose = () => {
+        if (!loading) {
+            onClose();
+        }
+    };
+
+    const usedAt = entry ? new Date(entry.usedAt) : null;
+
+    return (
+        <Modal
+            visible={!!entry}
+            transparent={true}
+            animationType="slide"
+            onRequestClose={handleClose}
+        >
+            <KeyboardAvoidingView
+                style={styles.overlay}
+                behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+            >
+                <View style={styles.sheet}>
+                    {/* Header */}
+                    <View style={styles.header}>
+                        <Text style={styles.title}>Zgłoś wejście</Text>
+                        <TouchableOpacity
+                            style={[styles.closeButton, loading && styles.disabledButton]}
+                            onPress={handleClose}
+                            disabled={loading}
+                        >
+                            <Ionicons name="close" size={24} color={loading ? "#ccc" : "#000"} />
+                        </TouchableOpacity>
+                    </View>
+
+                    {entry && usedAt && (
+                        <View style={styles.infoBox}>
+                            <Ionicons name="ticket-outline" size={18} color="#666" />
+                            <Text style={styles.infoText}>
+                                {ENTRY_SOURCE_LABELS[entry.source]}, {formatDate(usedAt)} {usedAt.toLocaleTimeString('pl-PL', { hour: '2-digit', minute: '2-digit' })}
+                            </Text>
+                        </View>
+                    )}
+
+                    <Text style={styles.label}>Co się nie zgadza?</Text>
+                    <TextInput
+                        style={styles.reasonInput}
+                        value={reason}
+                        onChangeText={text => {
+                            setReason(text);
+                            setError(null);
+                        }}
+                        placeholder="Np. nie było mnie wtedy na siłowni"
+                        maxLength={REASON_MAX_LENGTH}
+                        multiline
+                        editable={!loading}
+                    />
+
+                    {error && <Text style={styles.errorText}>{error}</Text>}
+
+                    <View style={styles.buttonContainer}>
+                        <TouchableOpacity
+                            style={[styles.cancelButton, loading && styles.disabledButton]}
+                            onPress={handleClose}
+                            disabled={loading}
+                        >
+                            <Text style={styles.cancelButtonText}>Anuluj</Text>
+                        </TouchableOpacity>
+
+                        <TouchableOpacity
+                            style={[styles.submitButton, loading && styles.submitButtonDisabled]}
+                            onPress={handleSubmit}
+                            disabled={loading}
+                        >
+                            {loading ? (
+                                <ActivityIndicator color="#000" size="small" />
+                            ) : (
+                                <Text style={styles.submitButtonText}>Wyślij zgłoszenie</Text>
+                            )}
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </KeyboardAvoidingView>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'flex-end',
+    },
+    sheet: {
+        backgroundColor: '#fff',
+        borderTopLeftRadius: 20,
+        borderTopRightRadius: 20,
+        padding: 24,
+        paddingBottom: 40,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: -4 },
+        shadowOpacity: 0.2,
+        shadowRadius: 8,
+        elevation: 8,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 20,
+    },
+    title: {
+        fontSize: 22,
+        fontWeight: 'bold',
+        color: '#000',
+    },
+    closeButton: {
+        padding: 8,
+        backgroundColor: '#f5f5f5',
+        borderRadius: 20,
+    },
+    disabledButton: {
+        opacity: 0.5,
+    },
+    infoBox: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#f8f9fa',
+        borderRadius: 8,
+        padding: 12,
+        marginBottom: 20,
+        gap: 8,
+    },
+    infoText: {
+        flex: 1,
+        fontSize: 13,
+        color: '#666',
+    },
+    label: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#000',
+        marginBottom: 8,
+    },
+    reasonInput: {
+        borderWidth: 2,
+        borderColor: '#e0e0e0',
+        borderRadius: 12,
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        fontSize: 16,
+        minHeight: 100,
+        textAlignVertical: 'top',
+        marginBottom: 16,
+    },
+    errorText: {
+        color: '#F44336',
+        fontSize: 14,
+        marginBottom: 16,
+        marginLeft: 4,
+    },
+    buttonContainer: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        gap: 12,
+    },
+    cancelButton: {
+        flex: 1,
+        paddingVertical: 12,
+        paddingHorizontal: 24,
+        borderRadius: 12,
+        borderWidth: 2,
+        borderColor: '#e0e0e0',
+        alignItems: 'center',
+    },
+    cancelButtonText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#666',
+    },
+    submitButton: {
+        flex: 1,
+        paddingVertical: 12,
+        paddingHorizontal: 16,
+        borderRadius: 12,
+        backgroundColor: '#ffc500',
+        alignItems: 'center',
+    },
+    submitButtonDisabled: {
+        opacity: 0.6,
+    },
+    submitButtonText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#000',
+    },
+});
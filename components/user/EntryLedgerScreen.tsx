@@ -0,0 +1,375 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+    StyleSheet,
+    Text,
+    View,
+    ScrollView,
+    StatusBar,
+    ActivityIndicator,
+    TouchableOpacity,
+    RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useUser } from '@/context/UserContext';
+import { getEntryLedger } from '@/api/membership';
+import { expireCache } from '@/api/cache';
+import { EntryDisputeStatus, EntryLedgerItem, EntrySource } from '@/types/EntryLedger';
+import { formatDate } from '@/utils/formatters';
+import { ENTRY_SOURCE_LABELS, isEntryRefunded } from '@/utils/entryLedger';
+import { handleApiError } from '@/utils/errorHandler';
+import EntryDisputeModal from './EntryDisputeModal';
+
+const PAGE_SIZE = 20;
+
+const ENTRY_SOURCE_ICONS: Record<EntrySource, keyof typeof Ionicons.glyphMap> = {
+    GYM_VISIT: 'fitness-outline',
+    CLASS_BOOKING: 'people-outline',
+    RECEPTION: 'person-outline',
+};
+
+const DISPUTE_STATUS_LABELS: Record<EntryDisputeStatus, string> = {
+    PENDING: 'Zgłoszone',
+    ACCEPTED: 'Zwrócone',
+    REJECTED: 'Zgłoszenie odrzucone',
+};
+
+const DISPUTE_STATUS_COLORS: Record<EntryDisputeStatus, string> = {
+    PENDING: '#FF9800',
+    ACCEPTED: '#4CAF50',
+    REJECTED: '#F44336',
+};
+
+/**
+ * EntryLedgerScreen Component
+ *
+ * History of consumed entries of a count based membership.
+ *
+ * Key Features:
+ * - Every used entry with its date, time and source
+ * - Entries left after each one, as recorded when it was used
+ * - Reporting of entries the member does not recognise
+ * - Pull-to-refresh and loading of older entries
+ */
+export default function EntryLedgerScreen() {
+    const { membership, refreshMembership } = useUser();
+    const [entries, setEntries] = useState<EntryLedgerItem[]>([]);
+    const [currentPage, setCurrentPage] = useState(0);
+    const [hasMorePages, setHasMorePages] = useState(false);
+    const [loading, setLoading] = useState(true);
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [refreshing, setRefreshing] = useState(false);
+    const [disputedEntry, setDisputedEntry] = useState<EntryLedgerItem | null>(null);
+
+    const membershipId = membership?.id;
+
+    /**
+     * Fetches a page of the ledger, the first page replaces the loaded entries
+     * @param page - Page number
+     */
+    const fetchEntries = useCallback(async (page: number) => {
+        if (!membershipId) return;
+
+        try {
+            if (page === 0) setLoading(true);
+            else setLoadingMore(true);
+
+            const response = await getEntryLedger(membershipId, page, PAGE_SIZE);
+            setEntries(prev => page === 0 ? response.content : [...prev, ...response.content]);
+            setCurrentPage(page);
+            setHasMorePages(!response.last);
+        } catch (error) {
+            handleApiError(error);
+        } finally {
+            setLoading(false);
+            setLoadingMore(false);
+        }
+    }, [membershipId]);
+
+    useEffect(() => {
+        fetchEntries(0);
+    }, [fetchEntries]);
+
+    const onRefresh = async () => {
+        setRefreshing(true);
+        // Disputes are resolved by the reception, a refresh has to show their outcome
+        await expireCache('/memberships');
+        await Promise.all([fetchEntries(0), refreshMembership()]);
+        setRefreshing(false);
+    };
+
+    const handleLoadMore = () => {
+        if (hasMorePages && !loadingMore) {
+            fetchEntries(currentPage + 1);
+        }
+    };
+
+    const handleReported = (reported: EntryLedgerItem) => {
+        setEntries(prev => prev.map(entry => entry.id === reported.id ? reported : entry));
+    };
+
+    if (loading) {
+        return (
+            <View style={styles.container}>
+                <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+                <View style={styles.loadingContainer}>
+                    <ActivityIndicator size="large" color="#ffd500" />
+                    <Text style={styles.loadingText}>Ładowanie historii wejść...</Text>
+                </View>
+            </View>
+        );
+    }
+
+    return (
+        <SafeAreaView style={styles.container} edges={['left', 'right', 'bottom']}>
+            <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+            <ScrollView
+                contentContainerStyle={styles.scrollContainer}
+                showsVerticalScrollIndicator={false}
+                refreshControl={
+                    <RefreshControl
+                        refreshing={refreshing}
+                        onRefresh={onRefresh}
+                        colors={['#ffd500']}
+                        tintColor="#ffd500"
+                    />
+                }
+            >
+                {/* Current balance */}
+                <View style={styles.balanceCard}>
+                    <Text style={styles.balanceLabel}>Pozostało wejść</Text>
+                    <Text style={styles.balanceValue}>{membership?.remainingEntries ?? 0}</Text>
+                </View>
+
+                {entries.length === 0 ? (
+                    <View style={styles.emptyState}>
+                        <Ionicons name="ticket-outline" size={64} color="#d1d5db" />
+                        <Text style={styles.emptyStateTitle}>Brak wykorzystanych wejść</Text>
+                        <Text style={styles.emptyStateText}>
+                            Tutaj pojawi się każde wejście pobrane z karnetu
+                        </Text>
+                    </View>
+                ) : (
+                    entries.map(entry => {
+                        const usedAt = new Date(entry.usedAt);
+                        const refunded = isEntryRefunded(entry);
+
+                        return (
+                            <View key={entry.id} style={styles.entryItem}>
+                                <View style={styles.entryIcon}>
+                                    <Ionicons name={ENTRY_SOURCE_ICONS[entry.source]} size={22} color="#000" />
+                                </View>
+
+                                <View style={styles.entryContent}>
+                                    <Text style={[styles.entryTitle, refunded && styles.entryTitleRefunded]}>
+                                        {entry.className || ENTRY_SOURCE_LABELS[entry.source]}
+                                    </Text>
+                                    <Text style={styles.entryDate}>
+                                        {formatDate(usedAt)}, {usedAt.toLocaleTimeString('pl-PL', {
+                                            hour: '2-digit',
+                                            minute: '2-digit'
+                                        })}
+                                    </Text>
+                                    {entry.disputeStatus ? (
+                                        <Text style={[styles.disputeStatus, { color: DISPUTE_STATUS_COLORS[entry.disputeStatus] }]}>
+                                            {DISPUTE_STATUS_LABELS[entry.disputeStatus]}
+                                        </Text>
+                                    ) : (
+                                        <TouchableOpacity
+                                            onPress={() => setDisputedEntry(entry)}
+                                            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                                        >
+                                            <Text style={styles.disputeLink}>Zgłoś błędne wejście</Text>
+                                        </TouchableOpacity>
+                                    )}
+                                </View>
+
+                                {!refunded && (
+                                    <View style={styles.entryBalance}>
+                                        <Text style={styles.entryBalanceValue}>{entry.balanceAfter}</Text>
+                                        <Text style={styles.entryBalanceLabel}>pozostało</Text>
+                                    </View>
+                                )}
+                            </View>
+                        );
+                    })
+                )}
+
+                {/* Pagination - Load more button */}
+                {hasMorePages && (
+                    <TouchableOpacity
+                        style={styles.loadMoreButton}
+                        onPress={handleLoadMore}
+                        disabled={loadingMore}
+                    >
+                        {loadingMore ? (
+                            <ActivityIndicator size="small" color="#ffc500" />
+                        ) : (
+                            <>
+                                <Ionicons name="chevron-down" size={20} color="#ffc500" />
+                                <Text style={styles.loadMoreText}>Załaduj więcej</Text>
+                            </>
+                        )}
+                    </TouchableOpacity>
+                )}
+            </ScrollView>
+
+            {membershipId && (
+                <EntryDisputeModal
+                    membershipId={membershipId}
+                    entry={disputedEntry}
+                    onClose={() => setDisputedEntry(null)}
+                    onReported={handleReported}
+                />
+            )}
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#FAFAFA'
+    },
+    loadingContainer: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center'
+    },
+    loadingText: {
+        marginTop: 16,
+        fontSize: 16,
+        color: '#6b7280',
+        fontWeight: '500'
+    },
+    scrollContainer: {
+        padding: 20,
+        paddingBottom: 32
+    },
+    balanceCard: {
+        backgroundColor: '#fff',
+        borderRadius: 16,
+        padding: 20,
+        marginBottom: 20,
+        alignItems: 'center',
+        borderWidth: 2,
+        borderColor: '#ffc500',
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+        elevation: 3
+    },
+    balanceLabel: {
+        fontSize: 16,
+        color: '#666'
+    },
+    balanceValue: {
+        fontSize: 36,
+        fontWeight: 'bold',
+        color: '#000',
+        marginTop: 4
+    },
+    entryItem: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#fff',
+        borderRadius: 12,
+        padding: 16,
+        marginBottom: 10,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 1 },
+        shadowOpacity: 0.08,
+        shadowRadius: 3,
+        elevation: 2
+    },
+    entryIcon: {
+        width: 40,
+        height: 40,
+        borderRadius: 20,
+        backgroundColor: '#fff7cc',
+        justifyContent: 'center',
+        alignItems: 'center',
+        marginRight: 12
+    },
+    entryContent: {
+        flex: 1,
+        gap: 2
+    },
+    entryTitle: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#000'
+    },
+    entryTitleRefunded: {
+        textDecorationLine: 'line-through',
+        color: '#999'
+    },
+    entryDate: {
+        fontSize: 14,
+        color: '#666'
+    },
+    disputeStatus: {
+        fontSize: 13,
+        fontWeight: '600',
+        marginTop: 2
+    },
+    disputeLink: {
+        fontSize: 13,
+        color: '#36b2f4',
+        fontWeight: '600',
+        marginTop: 2
+    },
+    entryBalance: {
+        alignItems: 'center',
+        marginLeft: 12
+    },
+    entryBalanceValue: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#000'
+    },
+    entryBalanceLabel: {
+        fontSize: 12,
+        color: '#999'
+    },
+    emptyState: {
+        alignItems: 'center',
+        paddingVertical: 40
+    },
+    emptyStateTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        color: '#374151',
+        marginTop: 16,
+        marginBottom: 8
+    },
+    emptyStateText: {
+        fontSize: 14,
+        color: '#6b7280',
+        textAlign: 'center'
+    },
+    loadMoreButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: '#fff',
+        borderRadius: 12,
+        padding: 16,
+        marginTop: 10,
+        borderWidth: 2,
+        borderColor: '#ffc500',
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+        elevation: 3
+    },
+    loadMoreText: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#ffc500',
+        marginLeft: 8
+    },
+});
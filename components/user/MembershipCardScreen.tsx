@@ -0,0 +1,250 @@
+import React, { useEffect, useState } from 'react';
+import {
+    StyleSheet,
+    Text,
+    View,
+    StatusBar,
+    ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import QRCode from 'react-native-qrcode-svg';
+import { useUser } from '@/context/UserContext';
+import { formatDate } from '@/utils/formatters';
+import {
+    CARD_CODE_STEP_SECONDS,
+    generateCardCode,
+    getCardCodeStep,
+    getCardSecret,
+    getSecondsUntilRotation
+} from '@/utils/membershipCard';
+
+/**
+ * MembershipCardScreen Component
+ *
+ * Digital membership card shown at reception.
+ *
+ * Key Features:
+ * - QR code derived from the membership id and the card secret provisioned at login
+ * - New code every 30 seconds with a countdown to the next rotation
+ * - Works offline, the code is computed on the device
+ */
+export default function MembershipCardScreen() {
+    const { userInfo, membership } = useUser();
+    const [secret, setSecret] = useState<string | null>(null);
+    const [secretLoading, setSecretLoading] = useState(true);
+    const [step, setStep] = useState(getCardCodeStep());
+    const [secondsLeft, setSecondsLeft] = useState(getSecondsUntilRotation());
+    const [code, setCode] = useState<string | null>(null);
+
+    useEffect(() => {
+        getCardSecret()
+            .then(setSecret)
+            .catch(error => console.error('Error reading card secret:', error))
+            .finally(() => setSecretLoading(false));
+    }, []);
+
+    // Ticks every second, the code itself changes only when the period does
+    useEffect(() => {
+        const interval = setInterval(() => {
+            setStep(getCardCodeStep());
+            setSecondsLeft(getSecondsUntilRotation());
+        }, 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const membershipId = membership?.id;
+    useEffect(() => {
+        if (!membershipId || !secret) return;
+
+        let cancelled = false;
+        generateCardCode(membershipId, secret, new Date(step * CARD_CODE_STEP_SECONDS * 1000))
+            .then(payload => {
+                if (!cancelled) setCode(payload);
+            })
+            .catch(error => console.error('Error generating card code:', error));
+        return () => {
+            cancelled = true;
+        };
+    }, [membershipId, secret, step]);
+
+    const isActive = !!membership?.isActive;
+    const isFrozen = !!membership?.isFrozen;
+    const expiryDate = membership?.expiryDate ? new Date(membership.expiryDate) : null;
+
+    const renderCode = () => {
+        if (secretLoading) {
+            return <ActivityIndicator size="large" color="#ffc500" />;
+        }
+        if (!membership) {
+            return <Text style={styles.messageText}>Brak danych o karnecie</Text>;
+        }
+        if (!secret) {
+            return (
+                <Text style={styles.messageText}>
+                    Karta nie jest jeszcze aktywna na tym urządzeniu. Wyloguj się i zaloguj ponownie, aby ją aktywować.
+                </Text>
+            );
+        }
+        if (!code) {
+            return <ActivityIndicator size="large" color="#ffc500" />;
+        }
+
+        return (
+            <>
+                <QRCode value={code} size={220} ecl="M" />
+                <View style={styles.countdownTrack}>
+                    <View style={[styles.countdownFill, { width: `${secondsLeft / CARD_CODE_STEP_SECONDS * 100}%` }]} />
+                </View>
+                <Text style={styles.countdownText}>Nowy kod za {secondsLeft} s</Text>
+            </>
+        );
+    };
+
+    return (
+        <SafeAreaView style={styles.container} edges={['left', 'right', 'bottom']}>
+            <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+            <View style={styles.content}>
+                <LinearGradient
+                    colors={['#ffd500', '#ff9000']}
+                    style={styles.card}
+                >
+                    <View style={styles.cardHeader}>
+                        <View>
+                            <Text style={styles.cardTitle}>Karta członkowska</Text>
+                            {userInfo && (
+                                <Text style={styles.cardName}>{userInfo.firstName} {userInfo.lastName}</Text>
+                            )}
+                        </View>
+                        <View
+                            style={[
+                                styles.statusBadge,
+                                { backgroundColor: isFrozen ? '#36b2f4' : isActive ? '#4CAF50' : '#F44336' }
+                            ]}
+                        >
+                            <Text style={styles.statusText}>
+                                {isFrozen ? 'Zamrożony' : isActive ? 'Aktywny' : 'Nieaktywny'}
+                            </Text>
+                        </View>
+                    </View>
+
+                    <View style={styles.codeContainer}>
+                        {renderCode()}
+                    </View>
+
+                    {expiryDate && (
+                        <Text style={styles.expiryText}>Ważny do {formatDate(expiryDate)}</Text>
+                    )}
+                </LinearGradient>
+
+                <View style={styles.infoBox}>
+                    <Ionicons name="cloud-offline-outline" size={18} color="#666" />
+                    <Text style={styles.infoText}>
+                        Pokaż kod w recepcji. Kod zmienia się co {CARD_CODE_STEP_SECONDS} sekund i działa bez dostępu do internetu.
+                    </Text>
+                </View>
+            </View>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#FAFAFA'
+    },
+    content: {
+        padding: 20
+    },
+    card: {
+        borderRadius: 20,
+        padding: 20,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.15,
+        shadowRadius: 8,
+        elevation: 6
+    },
+    cardHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'flex-start',
+        marginBottom: 20
+    },
+    cardTitle: {
+        fontSize: 14,
+        color: '#000',
+        fontWeight: '600',
+        opacity: 0.7
+    },
+    cardName: {
+        fontSize: 22,
+        color: '#000',
+        fontWeight: 'bold',
+        marginTop: 4
+    },
+    statusBadge: {
+        paddingHorizontal: 10,
+        paddingVertical: 6,
+        borderRadius: 10
+    },
+    statusText: {
+        color: '#fff',
+        fontSize: 13,
+        fontWeight: 'bold'
+    },
+    codeContainer: {
+        backgroundColor: '#fff',
+        borderRadius: 16,
+        padding: 20,
+        alignItems: 'center',
+        justifyContent: 'center',
+        minHeight: 300
+    },
+    messageText: {
+        fontSize: 15,
+        color: '#666',
+        textAlign: 'center',
+        lineHeight: 22
+    },
+    countdownTrack: {
+        alignSelf: 'stretch',
+        height: 4,
+        borderRadius: 2,
+        backgroundColor: '#f0f0f0',
+        marginTop: 20,
+        overflow: 'hidden'
+    },
+    countdownFill: {
+        height: '100%',
+        backgroundColor: '#ffc500'
+    },
+    countdownText: {
+        fontSize: 13,
+        color: '#666',
+        marginTop: 8
+    },
+    expiryText: {
+        fontSize: 15,
+        color: '#000',
+        fontWeight: '600',
+        textAlign: 'center',
+        marginTop: 16
+    },
+    infoBox: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#f0f0f0',
+        borderRadius: 12,
+        padding: 12,
+        marginTop: 20,
+        gap: 8
+    },
+    infoText: {
+        flex: 1,
+        fontSize: 13,
+        color: '#666'
+    },
+});
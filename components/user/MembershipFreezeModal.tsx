@@ -0,0 +1,482 @@
+import React, { useEffect, useState } from 'react';
+import {
+    StyleSheet,
+    Text,
+    View,
+    Modal,
+    TouchableOpacity,
+    ActivityIndicator,
+    Alert,
+    Platform,
+    ScrollView
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { addDays, startOfDay } from 'date-fns';
+import { freezeMembership, getFreezeRules, unfreezeMembership } from '@/api/membership';
+import { Membership } from '@/types/Membership';
+import { FreezeRules } from '@/types/MembershipFreeze';
+import { formatDate, formatDays } from '@/utils/formatters';
+import { formatGymDate, parseGymDate, toGymTime } from '@/utils/gymTime';
+import { getExpiryAfterFreeze, getFreezeDays, validateFreeze } from '@/utils/membershipFreeze';
+import { getErrorMessage } from '@/utils/errorHandler';
+
+interface MembershipFreezeModalProps {
+    visible: boolean;
+    membership: Membership;
+    onClose: () => void;
+    /** Called after the membership was frozen or unfrozen */
+    onChanged: () => void;
+}
+
+type PickerField = 'start' | 'end';
+
+// Default length of a new freeze before the member adjusts it
+const DEFAULT_FREEZE_DAYS = 7;
+
+/**
+ * Bottom sheet for freezing the membership with a preview of the new expiry date,
+ * or for ending a running freeze early.
+ */
+export default function MembershipFreezeModal({ visible, membership, onClose, onChanged }: MembershipFreezeModalProps) {
+    const [rules, setRules] = useState<FreezeRules | null>(null);
+    const [rulesLoading, setRulesLoading] = useState(false);
+    const [start, setStart] = useState(new Date());
+    const [end, setEnd] = useState(new Date());
+    const [activePicker, setActivePicker] = useState<PickerField | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    const today = startOfDay(toGymTime(new Date()));
+    const isFrozen = membership.isFrozen;
+
+    // Load the rules and reset the range each time the sheet opens
+    useEffect(() => {
+        if (!visible || membership.isFrozen) return;
+
+        const firstDay = startOfDay(toGymTime(new Date()));
+        setStart(firstDay);
+        setEnd(addDays(firstDay, DEFAULT_FREEZE_DAYS - 1));
+        setActivePicker(null);
+        setError(null);
+
+        setRulesLoading(true);
+        getFreezeRules(membership.id)
+            .then(data => {
+                setRules(data);
+                // Respect the minimum length right away
+                setEnd(addDays(firstDay, Math.max(DEFAULT_FREEZE_DAYS, data.minDays) - 1));
+            })
+            .catch(err => {
+                console.error('Error fetching freeze rules:', err);
+                setError(getErrorMessage(err));
+            })
+            .finally(() => setRulesLoading(false));
+    }, [visible, membership.id, membership.isFrozen]);
+
+    const freezeDays = getFreezeDays(start, end);
+    const expiryDate = membership.expiryDate ? parseGymDate(membership.expiryDate) : null;
+    const newExpiryDate = membership.expiryDate && freezeDays > 0
+        ? getExpiryAfterFreeze(membership.expiryDate, freezeDays)
+        : null;
+
+    const handlePickerChange = (event: any, selected?: Date) => {
+        const field = activePicker;
+        setActivePicker(Platform.OS === 'ios' ? field : null);
+        if (!selected || event.type === 'dismissed') return;
+
+        const day = startOfDay(selected);
+        if (field === 'start') {
+            setStart(day);
+            // Keep the length when the whole range moves
+            if (day > end) setEnd(addDays(day, freezeDays - 1));
+        }
+        if (field === 'end') setEnd(day);
+        setError(null);
+    };
+
+    const handleFreeze = async () => {
+        if (!rules) return;
+
+        const validationError = validateFreeze(start, end, rules);
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+
+        setLoading(true);
+        try {
+            await freezeMembership(membership.id, {
+                startDate: formatGymDate(start),
+                endDate: formatGymDate(end),
+            });
+            Alert.alert(
+                'Karnet zamrożony',
+                `Karnet będzie zamrożony od ${formatDate(start)} do ${formatDate(end)}.`
+            );
+            onChanged();
+            onClose();
+        } catch (err) {
+            console.error('Error freezing membership:', err);
+            setError(getErrorMessage(err));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleUnfreeze = () => {
+        Alert.alert(
+            'Odmroź karnet',
+            'Karnet zostanie od razu odmrożony. Ważność przedłuży się tylko o dni, które już minęły.',
+            [
+                { text: 'Anuluj', style: 'cancel' },
+                {
+                    text: 'Odmroź',
+                    onPress: async () => {
+                        setLoading(true);
+                        try {
+                            await unfreezeMembership(membership.id);
+                            onChanged();
+                            onClose();
+                        } catch (err) {
+                            console.error('Error unfreezing membership:', err);
+                            Alert.alert('Błąd', getErrorMessage(err));
+                        } finally {
+                            setLoading(false);
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    const handleClose = () => {
+        if (!loading) {
+            onClose();
+        }
+    };
+
+    const renderField = (field: PickerField, label: string, value: Date) => (
+        <View style={styles.inputGroup}>
+            <Text style={styles.label}>{label}</Text>
+            <TouchableOpacity
+                style={[styles.pickerButton, activePicker === field && styles.pickerButtonActive]}
+                onPress={() => setActivePicker(activePicker === field ? null : field)}
+                disabled={loading}
+            >
+                <Text style={styles.pickerText}>{formatDate(value)}</Text>
+                <Ionicons name="calendar-outline" size={20} color="#666" />
+            </TouchableOpacity>
+        </View>
+    );
+
+    const renderFrozen = () => {
+        const frozenStart = membership.frozenStart ? parseGymDate(membership.frozenStart) : null;
+        const frozenEnd = membership.frozenEnd ? parseGymDate(membership.frozenEnd) : null;
+
+        return (
+            <>
+                <View style={styles.infoBox}>
+                    <Ionicons name="snow-outline" size={18} color="#36b2f4" />
+                    <Text style={styles.infoText}>
+                        {frozenStart ? `Zamrożony od ${formatDate(frozenStart)}` : 'Karnet jest zamrożony'}
+                        {frozenEnd ? ` do ${formatDate(frozenEnd)}` : ''}
+                    </Text>
+                </View>
+
+                <TouchableOpacity
+                    style={[styles.submitButton, loading && styles.submitButtonDisabled]}
+                    onPress={handleUnfreeze}
+                    disabled={loading}
+                >
+                    {loading ? (
+                        <ActivityIndicator color="#000" size="small" />
+                    ) : (
+                        <Text style={styles.submitButtonText}>Odmroź teraz</Text>
+                    )}
+                </TouchableOpacity>
+            </>
+        );
+    };
+
+    const renderFreezeForm = () => {
+        if (rulesLoading) {
+            return <ActivityIndicator style={styles.rulesLoader} color="#ffc500" />;
+        }
+
+        return (
+            <>
+                {rules && (
+                    <View style={styles.infoBox}>
+                        <Ionicons name="information-circle-outline" size={18} color="#666" />
+                        <Text style={styles.infoText}>
+                            Jednorazowo od {formatDays(rules.minDays)} do {formatDays(rules.maxDays)}.
+                            {' '}W tym roku pozostało {formatDays(rules.remainingDays)} zamrożenia.
+                        </Text>
+                    </View>
+                )}
+
+                <View style={styles.dateRow}>
+                    <View style={styles.dateColumn}>
+                        {renderField('start', 'Od', start)}
+                    </View>
+                    <View style={styles.dateColumn}>
+                        {renderField('end', 'Do', end)}
+                    </View>
+                </View>
+
+                {activePicker && (
+                    <DateTimePicker
+                        value={activePicker === 'start' ? start : end}
+                        mode="date"
+                        display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                        onChange={handlePickerChange}
+                        minimumDate={activePicker === 'start' ? today : start}
+                        maximumDate={rules && activePicker === 'start' ? addDays(today, rules.maxStartAheadDays) : undefined}
+                        locale="pl-PL"
+                        textColor="#000000"
+                        themeVariant="light"
+                    />
+                )}
+
+                {/* Preview of the result */}
+                <View style={styles.previewCard}>
+                    <View style={styles.previewRow}>
+                        <Text style={styles.previewLabel}>Okres zamrożenia</Text>
+                        <Text style={styles.previewValue}>{freezeDays > 0 ? formatDays(freezeDays) : '—'}</Text>
+                    </View>
+                    <View style={styles.previewRow}>
+                        <Text style={styles.previewLabel}>Ważność karnetu</Text>
+                        <Text style={styles.previewValue}>
+                            {expiryDate ? formatDate(expiryDate) : 'Bez zmian'}
+                        </Text>
+                    </View>
+                    {newExpiryDate && (
+                        <View style={styles.previewRow}>
+                            <Text style={styles.previewLabel}>Nowa ważność</Text>
+                            <Text style={[styles.previewValue, styles.previewHighlight]}>
+                                {formatDate(newExpiryDate)}
+                            </Text>
+                        </View>
+                    )}
+                </View>
+
+                {error && <Text style={styles.errorText}>{error}</Text>}
+
+                <View style={styles.buttonContainer}>
+                    <TouchableOpacity
+                        style={[styles.cancelButton, loading && styles.disabledButton]}
+                        onPress={handleClose}
+                        disabled={loading}
+                    >
+                        <Text style={styles.cancelButtonText}>Anuluj</Text>
+                    </TouchableOpacity>
+
+                    <TouchableOpacity
+                        style={[styles.submitButton, (loading || !rules) && styles.submitButtonDisabled]}
+                        onPress={handleFreeze}
+                        disabled={loading || !rules}
+                    >
+                        {loading ? (
+                            <ActivityIndicator color="#000" size="small" />
+                        ) : (
+                            <Text style={styles.submitButtonText}>Zamroź</Text>
+                        )}
+                    </TouchableOpacity>
+                </View>
+            </>
+        );
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            transparent={true}
+            animationType="slide"
+            onRequestClose={handleClose}
+        >
+            <View style={styles.overlay}>
+                <View style={styles.sheet}>
+                    <ScrollView
+                        contentContainerStyle={styles.scrollContainer}
+                        showsVerticalScrollIndicator={false}
+                    >
+                        {/* Header */}
+                        <View style={styles.header}>
+                            <Text style={styles.title}>
+                                {isFrozen ? 'Zamrożenie karnetu' : 'Zamroź karnet'}
+                            </Text>
+                            <TouchableOpacity
+                                style={[styles.closeButton, loading && styles.disabledButton]}
+                                onPress={handleClose}
+                                disabled={loading}
+                            >
+                                <Ionicons name="close" size={24} color={loading ? "#ccc" : "#000"} />
+                            </TouchableOpacity>
+                        </View>
+
+                        {isFrozen ? renderFrozen() : renderFreezeForm()}
+                    </ScrollView>
+                </View>
+            </View>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'flex-end',
+    },
+    sheet: {
+        backgroundColor: '#fff',
+        borderTopLeftRadius: 20,
+        borderTopRightRadius: 20,
+        maxHeight: '90%',
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: -4 },
+        shadowOpacity: 0.2,
+        shadowRadius: 8,
+        elevation: 8,
+    },
+    scrollContainer: {
+        padding: 24,
+        paddingBottom: 40,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 20,
+    },
+    title: {
+        fontSize: 22,
+        fontWeight: 'bold',
+        color: '#000',
+    },
+    closeButton: {
+        padding: 8,
+        backgroundColor: '#f5f5f5',
+        borderRadius: 20,
+    },
+    disabledButton: {
+        opacity: 0.5,
+    },
+    rulesLoader: {
+        marginVertical: 40,
+    },
+    infoBox: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#f8f9fa',
+        borderRadius: 8,
+        padding: 12,
+        marginBottom: 20,
+        gap: 8,
+    },
+    infoText: {
+        flex: 1,
+        fontSize: 13,
+        color: '#666',
+    },
+    inputGroup: {
+        marginBottom: 16,
+    },
+    label: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#000',
+        marginBottom: 8,
+    },
+    pickerButton: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        borderWidth: 2,
+        borderColor: '#e0e0e0',
+        borderRadius: 12,
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+    },
+    pickerButtonActive: {
+        borderColor: '#ffc500',
+    },
+    pickerText: {
+        fontSize: 16,
+        color: '#000',
+    },
+    dateRow: {
+        flexDirection: 'row',
+        gap: 12,
+    },
+    dateColumn: {
+        flex: 1,
+    },
+    previewCard: {
+        backgroundColor: '#fffbea',
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: '#ffe680',
+        padding: 16,
+        marginBottom: 16,
+        gap: 8,
+    },
+    previewRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+    },
+    previewLabel: {
+        fontSize: 14,
+        color: '#666',
+    },
+    previewValue: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#000',
+    },
+    previewHighlight: {
+        color: '#4CAF50',
+    },
+    errorText: {
+        color: '#F44336',
+        fontSize: 14,
+        marginBottom: 16,
+        marginLeft: 4,
+    },
+    buttonContainer: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        gap: 12,
+    },
+    cancelButton: {
+        flex: 1,
+        paddingVertical: 12,
+        paddingHorizontal: 24,
+        borderRadius: 12,
+        borderWidth: 2,
+        borderColor: '#e0e0e0',
+        alignItems: 'center',
+    },
+    cancelButtonText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#666',
+    },
+    submitButton: {
+        flex: 1,
+        paddingVertical: 12,
+        paddingHorizontal: 24,
+        borderRadius: 12,
+        backgroundColor: '#ffc500',
+        alignItems: 'center',
+    },
+    submitButtonDisabled: {
+        opacity: 0.6,
+    },
+    submitButtonText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#000',
+    },
+});
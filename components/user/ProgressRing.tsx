@@ -0,0 +1,66 @@
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import Svg, { Circle } from 'react-native-svg';
+
+interface ProgressRingProps {
+    /** Progress between 0 and 1 */
+    progress: number;
+    size?: number;
+    strokeWidth?: number;
+    color?: string;
+    trackColor?: string;
+    children?: React.ReactNode;
+}
+
+/**
+ * Circular progress indicator, children are rendered in the middle of the ring
+ */
+export default function ProgressRing({
+    progress,
+    size = 96,
+    strokeWidth = 10,
+    color = '#ffc500',
+    trackColor = '#f0f0f0',
+    children
+}: ProgressRingProps) {
+    const radius = (size - strokeWidth) / 2;
+    const circumference = 2 * Math.PI * radius;
+    const clamped = Math.min(Math.max(progress, 0), 1);
+
+    return (
+        <View style={{ width: size, height: size }}>
+            <Svg width={size} height={size}>
+                <Circle
+                    cx={size / 2}
+                    cy={size / 2}
+                    r={radius}
+                    stroke={trackColor}
+                    strokeWidth={strokeWidth}
+                    fill="none"
+                />
+                <Circle
+                    cx={size / 2}
+                    cy={size / 2}
+                    r={radius}
+                    stroke={color}
+                    strokeWidth={strokeWidth}
+                    fill="none"
+                    strokeLinecap="round"
+                    strokeDasharray={`${circumference} ${circumference}`}
+                    strokeDashoffset={circumference * (1 - clamped)}
+                    // Start from the top instead of the right side
+                    transform={`rotate(-90 ${size / 2} ${size / 2})`}
+                />
+            </Svg>
+            <View style={styles.content}>{children}</View>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    content: {
+        ...StyleSheet.absoluteFillObject,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+});
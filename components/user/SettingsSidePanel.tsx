@@ -1,4 +1,4 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
     View,
     Text,
@@ -6,6 +6,7 @@ import {
     StyleSheet,
     Dimensions,
     Alert,
+    Switch,
 } from 'react-native';
 import Animated,
 {
@@ -18,6 +19,16 @@ import Animated,
 import { GestureDetector, Gesture } from 'react-native-gesture-handler';
 import { Ionicons } from '@expo/vector-icons';
 import { useUser } from '@/context/UserContext';
+import { useAuth } from '@/context/AuthContext';
+import { getBiometricLabel, isBiometricAvailable } from '@/utils/biometrics';
+import {
+    DEFAULT_LOW_ENTRIES_THRESHOLD,
+    getLowEntriesThreshold,
+    MAX_LOW_ENTRIES_THRESHOLD,
+    MIN_LOW_ENTRIES_THRESHOLD,
+    saveLowEntriesThreshold,
+    syncMembershipReminders
+} from '@/utils/membershipReminders';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const PANEL_WIDTH = SCREEN_WIDTH * 0.85;
@@ -27,6 +38,7 @@ interface SettingsSlidePanelProps {
     onClose: () => void;
     onChangePassword: () => void;
     onChangePhoto: () => void;
+    onEditBilling: () => void;
 }
 
 export default function SettingsSlidePanel({
@@ -34,10 +46,31 @@ export default function SettingsSlidePanel({
                                                onClose,
                                                onChangePassword,
                                                onChangePhoto,
+                                               onEditBilling,
                                            }: SettingsSlidePanelProps) {
     const translateX = useSharedValue(PANEL_WIDTH);
     const backdropOpacity = useSharedValue(0);
-    const { deleteUserAccount } = useUser();
+    const { deleteUserAccount, membership } = useUser();
+    const { user, biometricEnabled, setBiometricEnabled } = useAuth();
+    const [biometricLabel, setBiometricLabel] = useState<string | null>(null);
+    const [biometricBusy, setBiometricBusy] = useState(false);
+    const [lowEntriesThreshold, setLowEntriesThreshold] = useState(DEFAULT_LOW_ENTRIES_THRESHOLD);
+
+    // Only entry based memberships get the low entries notification
+    const hasEntries = !!membership && membership.remainingEntries > 0;
+
+    // Offer the biometric option only on devices that can use it
+    useEffect(() => {
+        if (!visible) return;
+        isBiometricAvailable().then(async (available) => {
+            setBiometricLabel(available ? await getBiometricLabel() : null);
+        });
+    }, [visible]);
+
+    useEffect(() => {
+        if (!visible || !user?.id) return;
+        getLowEntriesThreshold(user.id).then(setLowEntriesThreshold);
+    }, [visible, user?.id]);
 
     // Animate panel entrance/exit based on visibility
     useEffect(() => {
@@ -74,6 +107,32 @@ export default function SettingsSlidePanel({
             }
         });
 
+    // Handler for biometric unlock toggle
+    const handleBiometricToggle = async (enabled: boolean) => {
+        setBiometricBusy(true);
+        try {
+            await setBiometricEnabled(enabled);
+        } catch (error: any) {
+            Alert.alert("Błąd", error.message || "Nie udało się zmienić ustawienia");
+        } finally {
+            setBiometricBusy(false);
+        }
+    };
+
+    // Handler for the low entries threshold stepper, the reminders follow the new value right away
+    const handleThresholdChange = async (threshold: number) => {
+        if (!user?.id) return;
+        setLowEntriesThreshold(threshold);
+        try {
+            await saveLowEntriesThreshold(user.id, threshold);
+            if (membership) {
+                await syncMembershipReminders(membership, threshold);
+            }
+        } catch {
+            Alert.alert("Błąd", "Nie udało się zapisać ustawienia");
+        }
+    };
+
     // Handler for delete account with confirmation
     const handleDeleteAccount = () => {
         // Zamknij panel przed wyświetleniem alertu
@@ -210,6 +269,96 @@ export default function SettingsSlidePanel({
 
                         <View style={styles.divider} />
 
+                        {/* Billing Details Option */}
+                        <TouchableOpacity
+                            style={styles.menuItem}
+                            onPress={onEditBilling}
+                            activeOpacity={0.7}
+                        >
+                            <View style={styles.menuIconContainer}>
+                                <Ionicons name="business-outline" size={22} color="#333" />
+                            </View>
+                            <View style={styles.menuContent}>
+                                <Text style={styles.menuTitle}>Dane do faktury</Text>
+                                <Text style={styles.menuDescription}>
+                                    Nazwa firmy, NIP i adres na fakturach
+                                </Text>
+                            </View>
+                            <Ionicons name="chevron-forward" size={20} color="#999" />
+                        </TouchableOpacity>
+
+                        <View style={styles.divider} />
+
+                        {/* Low Entries Reminder Option */}
+                        {hasEntries && (
+                            <>
+                                <View style={styles.menuItem}>
+                                    <View style={styles.menuIconContainer}>
+                                        <Ionicons name="ticket-outline" size={22} color="#333" />
+                                    </View>
+                                    <View style={styles.menuContent}>
+                                        <Text style={styles.menuTitle}>Kończące się wejścia</Text>
+                                        <Text style={styles.menuDescription}>
+                                            Powiadom, gdy na karnecie zostanie tyle wejść lub mniej
+                                        </Text>
+                                    </View>
+                                    <View style={styles.stepper}>
+                                        <TouchableOpacity
+                                            style={styles.stepperButton}
+                                            onPress={() => handleThresholdChange(lowEntriesThreshold - 1)}
+                                            disabled={lowEntriesThreshold <= MIN_LOW_ENTRIES_THRESHOLD}
+                                        >
+                                            <Ionicons
+                                                name="remove"
+                                                size={18}
+                                                color={lowEntriesThreshold <= MIN_LOW_ENTRIES_THRESHOLD ? '#ccc' : '#333'}
+                                            />
+                                        </TouchableOpacity>
+                                        <Text style={styles.stepperValue}>{lowEntriesThreshold}</Text>
+                                        <TouchableOpacity
+                                            style={styles.stepperButton}
+                                            onPress={() => handleThresholdChange(lowEntriesThreshold + 1)}
+                                            disabled={lowEntriesThreshold >= MAX_LOW_ENTRIES_THRESHOLD}
+                                        >
+                                            <Ionicons
+                                                name="add"
+                                                size={18}
+                                                color={lowEntriesThreshold >= MAX_LOW_ENTRIES_THRESHOLD ? '#ccc' : '#333'}
+                                            />
+                                        </TouchableOpacity>
+                                    </View>
+                                </View>
+
+                                <View style={styles.divider} />
+                            </>
+                        )}
+
+                        {/* Biometric Unlock Option */}
+                        {(biometricLabel || biometricEnabled) && (
+                            <>
+                                <View style={styles.menuItem}>
+                                    <View style={styles.menuIconContainer}>
+                                        <Ionicons name="finger-print-outline" size={22} color="#333" />
+                                    </View>
+                                    <View style={styles.menuContent}>
+                                        <Text style={styles.menuTitle}>Odblokowanie biometryczne</Text>
+                                        <Text style={styles.menuDescription}>
+                                            Wymagaj potwierdzenia ({biometricLabel ?? 'biometria'}) po otwarciu aplikacji
+                                        </Text>
+                                    </View>
+                                    <Switch
+                                        value={biometricEnabled}
+                                        onValueChange={handleBiometricToggle}
+                                        disabled={biometricBusy}
+                                        trackColor={{ false: '#e0e0e0', true: '#ffc500' }}
+                                        thumbColor="#ffffff"
+                                    />
+                                </View>
+
+                                <View style={styles.divider} />
+                            </>
+                        )}
+
                         {/* Delete Account Option */}
                         <TouchableOpacity
                             style={[styles.menuItem, styles.dangerMenuItem]}
@@ -354,6 +503,28 @@ const styles = StyleSheet.create({
         fontSize: 14,
         color: '#666',
     },
+    stepper: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    stepperButton: {
+        width: 32,
+        height: 32,
+        borderRadius: 16,
+        backgroundColor: '#fff',
+        borderWidth: 1,
+        borderColor: '#e0e0e0',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    stepperValue: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#333',
+        minWidth: 20,
+        textAlign: 'center',
+    },
     divider: {
         height: 1,
         backgroundColor: '#e0e0e0',
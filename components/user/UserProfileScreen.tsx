@@ -16,14 +16,20 @@ import { Ionicons } from '@expo/vector-icons';
 import { useUser } from '@/context/UserContext';
 import { useAuth } from '@/context/AuthContext';
 import { useRouter } from 'expo-router';
-import { getUserPhoto } from '@/api/user';
+import { getCachedUserPhoto } from '@/api/photoCache';
+import { expireCache } from '@/api/cache';
 import ChangePasswordModal from './ChangePasswordModal';
+import BillingDetailsModal from './BillingDetailsModal';
 import ChangePhotoModal from './ChangePhotoModal';
+import MembershipFreezeModal from './MembershipFreezeModal';
 import { formatPhoneNumber, formatDate } from '@/utils/formatters';
+import { parseGymDate } from '@/utils/gymTime';
 import { getLastPurchase } from '@/api/purchase';
 import {MembershipPurchase} from "@/types/MembershipPurchase";
 import SettingsSlidePanel from "@/components/user/SettingsSidePanel";
 import {ErrorResponse} from "@/types/ErrorResponse";
+import WorkoutGoalCard from "@/components/user/WorkoutGoalCard";
+import { useWorkoutGoals } from '@/context/WorkoutGoalsContext';
 
 export default function UserProfileScreen() {
     const { user, logout } = useAuth();
@@ -33,15 +39,21 @@ export default function UserProfileScreen() {
     const [photoLoading, setPhotoLoading] = useState(true);
     const [settingsVisible, setSettingsVisible] = useState(false);
     const [changePasswordVisible, setChangePasswordVisible] = useState(false);
+    const [billingDetailsVisible, setBillingDetailsVisible] = useState(false);
     const [changePhotoVisible, setChangePhotoVisible] = useState(false);
+    const [freezeVisible, setFreezeVisible] = useState(false);
     const [lastPurchase, setLastPurchase] = useState<MembershipPurchase | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [refreshing, setRefreshing] = useState(false);
+    const workoutGoals = useWorkoutGoals();
+    const refreshWorkoutGoals = workoutGoals.refresh;
 
+    // The photo is downloaded again only when its photoUpdatedDate changes
+    const photoUpdatedDate = userInfo?.photoUpdatedDate;
     useEffect(() => {
-        if (user?.id) {
+        if (user?.id && photoUpdatedDate) {
             setPhotoLoading(true);
-            getUserPhoto(user.id)
+            getCachedUserPhoto(user.id, photoUpdatedDate)
                 .then(uri => {
                     if (uri) {
                         setPhotoUri(uri);
@@ -54,8 +66,10 @@ export default function UserProfileScreen() {
                     setError(message);
                 })
                 .finally(() => setPhotoLoading(false));
+        } else if (!userLoading) {
+            setPhotoLoading(false);
         }
-    }, [user]);
+    }, [user?.id, photoUpdatedDate, userLoading]);
 
     useEffect(() => {
         const fetchLastPurchase = async () => {
@@ -87,6 +101,10 @@ export default function UserProfileScreen() {
         setSettingsVisible(false);
         setChangePasswordVisible(true);
     }, []);
+    const handleEditBilling = useCallback(() => {
+        setSettingsVisible(false);
+        setBillingDetailsVisible(true);
+    }, []);
     const handleChangePhoto = useCallback(() => {
         setSettingsVisible(false);
         setChangePhotoVisible(true);
@@ -94,13 +112,17 @@ export default function UserProfileScreen() {
     const handlePhotoUpdated = useCallback((newPhotoUri: string) => {
         setPhotoUri(newPhotoUri);
         setChangePhotoVisible(false);
-    }, []);
+        // The new photoUpdatedDate replaces the cached copy
+        refreshUserInfo();
+    }, [refreshUserInfo]);
 
     const handlePushToSchedule = useCallback(() => router.push('/schedule'), [router]);
     const handlePushToActivity = useCallback(() => router.push('/activity'), [router]);
     const handlePushToPurchase = useCallback(() => router.push('/purchase'), [router]);
     const handlePushToRanking = useCallback(() => router.push('/ranking'), [router]);
     const handlePushToMembershipTypes = useCallback(() => router.push('/membershipTypes'), [router]);
+    const handlePushToMembershipCard = useCallback(() => router.push('/membershipCard'), [router]);
+    const handlePushToEntryLedger = useCallback(() => router.push('/entryLedger'), [router]);
 
     // POPRAWIONE: Obsługa wylogowania z potwierdzeniem
     const handleLogout = useCallback(() => {
@@ -124,16 +146,18 @@ export default function UserProfileScreen() {
     const onRefresh = useCallback(async () => {
         setRefreshing(true);
         try {
+            await expireCache('/users/info', '/memberships', '/purchases', '/activities');
             await Promise.all([
                 refreshUserInfo(),
-                refreshMembership()
+                refreshMembership(),
+                refreshWorkoutGoals()
             ]);
         } catch (error) {
             console.error('Error refreshing data:', error);
         } finally {
             setRefreshing(false);
         }
-    }, [refreshUserInfo, refreshMembership]);
+    }, [refreshUserInfo, refreshMembership, refreshWorkoutGoals]);
 
     if (userLoading || photoLoading || membershipLoading) return <ActivityIndicator />;
     if (!userInfo || !user) return null;
@@ -144,6 +168,7 @@ export default function UserProfileScreen() {
     const currentDate = new Date();
     const isActive = !!membership?.isActive;
     const isFrozen = !!membership?.isFrozen;
+    const frozenEndDate = membership?.frozenEnd ? parseGymDate(membership.frozenEnd) : null;
     const daysLeft = membershipExpiryDate ?
         Math.ceil((membershipExpiryDate.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24)) : 0;
 
@@ -215,6 +240,11 @@ export default function UserProfileScreen() {
                                         Pozostało {daysLeft} dni
                                     </Text>
                                 )}
+                                {isFrozen && frozenEndDate && (
+                                    <Text style={styles.frozenText}>
+                                        Zamrożony do {formatDate(frozenEndDate)}
+                                    </Text>
+                                )}
                             </View>
 
                             <View style={styles.membershipInfo}>
@@ -247,8 +277,51 @@ export default function UserProfileScreen() {
                             </Text>
                         </View>
                     )}
+                    <View style={styles.membershipActions}>
+                        {membership && !!isEntries && (
+                            <TouchableOpacity
+                                style={styles.freezeButton}
+                                onPress={handlePushToEntryLedger}
+                                activeOpacity={0.8}
+                            >
+                                <Ionicons name="list-outline" size={18} color="#36b2f4" />
+                                <Text style={styles.freezeButtonText}>Historia wejść</Text>
+                            </TouchableOpacity>
+                        )}
+                        {membership && (isActive || isFrozen) && (
+                            <TouchableOpacity
+                                style={styles.freezeButton}
+                                onPress={() => setFreezeVisible(true)}
+                                activeOpacity={0.8}
+                            >
+                                <Ionicons name="snow-outline" size={18} color="#36b2f4" />
+                                <Text style={styles.freezeButtonText}>
+                                    {isFrozen ? 'Odmroź karnet' : 'Zamroź karnet'}
+                                </Text>
+                            </TouchableOpacity>
+                        )}
+                    </View>
                 </View>
 
+                {/* Przycisk karty członkowskiej */}
+                <TouchableOpacity
+                    style={styles.activityButton}
+                    onPress={handlePushToMembershipCard}
+                >
+                    <Ionicons name="qr-code-outline" size={24} color="#000" />
+                    <Text style={styles.activityButtonText}>Karta</Text>
+                    <Ionicons name="chevron-forward" size={20} color="#666" />
+                </TouchableOpacity>
+
+                {/* Cel tygodniowy i seria treningów */}
+                <WorkoutGoalCard
+                    goal={workoutGoals.goal}
+                    progress={workoutGoals.progress}
+                    streaks={workoutGoals.streaks}
+                    loading={workoutGoals.loading}
+                    onSaveGoal={workoutGoals.setGoal}
+                />
+
                 {/* Przycisk zajęć */}
                 <TouchableOpacity
                     style={styles.activityButton}
@@ -338,6 +411,18 @@ export default function UserProfileScreen() {
                                 </Text>
                             </View>
                         </View>
+                        {userInfo.billingDetails && (
+                            <>
+                                <View style={styles.divider} />
+                                <View style={styles.infoRow}>
+                                    <Ionicons name="business-outline" size={22} color="#000" />
+                                    <View style={styles.infoContent}>
+                                        <Text style={styles.infoLabel}>Dane do faktury</Text>
+                                        <Text style={styles.infoValue}>{userInfo.billingDetails.companyName}</Text>
+                                    </View>
+                                </View>
+                            </>
+                        )}
                     </View>
                 </View>
 
@@ -356,6 +441,7 @@ export default function UserProfileScreen() {
                 onClose={handleCloseSettings}
                 onChangePassword={handleChangePassword}
                 onChangePhoto={handleChangePhoto}
+                onEditBilling={handleEditBilling}
             />
 
             {/* Change Password Modal */}
@@ -364,12 +450,30 @@ export default function UserProfileScreen() {
                 onClose={() => setChangePasswordVisible(false)}
             />
 
+            {/* Billing Details Modal */}
+            <BillingDetailsModal
+                visible={billingDetailsVisible}
+                billingDetails={userInfo.billingDetails}
+                onClose={() => setBillingDetailsVisible(false)}
+                onSaved={refreshUserInfo}
+            />
+
             {/* Change Photo Modal */}
             <ChangePhotoModal
                 visible={changePhotoVisible}
                 onClose={() => setChangePhotoVisible(false)}
                 onPhotoUpdated={handlePhotoUpdated}
             />
+
+            {/* Membership Freeze Modal */}
+            {membership && (
+                <MembershipFreezeModal
+                    visible={freezeVisible}
+                    membership={membership}
+                    onClose={() => setFreezeVisible(false)}
+                    onChanged={refreshMembership}
+                />
+            )}
         </SafeAreaView>
     );
 }
@@ -459,6 +563,9 @@ const styles = StyleSheet.create({
     membershipDate: { fontSize: 20, fontWeight: 'bold', color: '#000', marginBottom: 3 },
     daysLeftText: { fontSize: 16, color: '#ffc500', fontWeight: '600' },
     frozenText: { fontSize: 14, color: '#FF9800', fontWeight: '600', marginTop: 3 },
+    membershipActions: { flexDirection: 'row', justifyContent: 'flex-end', gap: 16, marginTop: 12 },
+    freezeButton: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 6, paddingVertical: 6, paddingHorizontal: 4 },
+    freezeButtonText: { fontSize: 14, color: '#36b2f4', fontWeight: '600' },
     statusButton: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 12, paddingVertical: 8, borderRadius: 10, marginLeft: 15 },
     membershipNameContainer: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', marginBottom: 10 },
     membershipName: { fontSize: 16, fontWeight: '600', color: '#000' },
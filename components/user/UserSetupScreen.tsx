@@ -1,4 +1,4 @@
-import React, {useState} from 'react';
+import React, {useRef, useState} from 'react';
 import {
     StyleSheet,
     Text,
@@ -19,6 +19,7 @@ import {useRouter} from 'expo-router';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import {useImagePicker} from "@/utils/useImagePicker";
 import {formatDate} from "@/utils/formatters";
+import UploadProgress from "@/components/ui/UploadProgress";
 
 export default function UserSetupScreen() {
     const {updateUserInfo, loading} = useUser();
@@ -31,6 +32,8 @@ export default function UserSetupScreen() {
     const [phoneNumber, setPhoneNumber] = useState('');
     const [birthDate, setBirthDate] = useState(new Date());
     const [showDatePicker, setShowDatePicker] = useState(false);
+    const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+    const uploadController = useRef<AbortController | null>(null);
 
     // Phone number formatting and validation
     const formatPhoneNumber = (text: string) => {
@@ -94,6 +97,8 @@ export default function UserSetupScreen() {
             return;
         }
 
+        const controller = new AbortController();
+        uploadController.current = controller;
         try {
             await updateUserInfo({
                 firstName: firstName.trim(),
@@ -101,12 +106,22 @@ export default function UserSetupScreen() {
                 phoneNumber: phoneNumber.trim(),
                 birthDate: birthDate.toISOString(),
                 profileImageUri: selectedImage!,
+            }, {
+                onProgress: setUploadProgress,
+                signal: controller.signal,
             });
         } catch {
             Alert.alert('Błąd', 'Nie udało się zapisać danych. Spróbuj ponownie.');
+        } finally {
+            uploadController.current = null;
+            setUploadProgress(null);
         }
     };
 
+    const handleCancelUpload = () => {
+        uploadController.current?.abort();
+    };
+
     const handleLogout = async () => {
         try {
             await logout();
@@ -265,6 +280,14 @@ export default function UserSetupScreen() {
                     )}
                 </TouchableOpacity>
 
+                {uploadProgress !== null && (
+                    <UploadProgress
+                        progress={uploadProgress}
+                        label="Wysyłanie zdjęcia"
+                        onCancel={handleCancelUpload}
+                    />
+                )}
+
                 {/* Przycisk powrotu */}
                 <TouchableOpacity
                     style={styles.backButton}
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, View, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import ProgressRing from '@/components/user/ProgressRing';
+import WorkoutGoalModal from '@/components/user/WorkoutGoalModal';
+import { WorkoutGoal } from '@/types/WorkoutGoal';
+import { Streaks, WeeklyProgress } from '@/utils/workoutGoals';
+import { formatActivityDuration } from '@/utils/formatters';
+
+interface WorkoutGoalCardProps {
+    goal: WorkoutGoal;
+    progress: WeeklyProgress | null;
+    streaks: Streaks | null;
+    loading: boolean;
+    onSaveGoal: (goal: WorkoutGoal) => Promise<void>;
+}
+
+const formatWeeks = (weeks: number): string => {
+    if (weeks === 1) return '1 tydzień';
+    const lastDigit = weeks % 10;
+    const lastTwoDigits = weeks % 100;
+    if (lastDigit >= 2 && lastDigit <= 4 && (lastTwoDigits < 12 || lastTwoDigits > 14)) {
+        return `${weeks} tygodnie`;
+    }
+    return `${weeks} tygodni`;
+};
+
+/**
+ * Weekly goal progress ring with current and longest streak
+ */
+export default function WorkoutGoalCard({ goal, progress, streaks, loading, onSaveGoal }: WorkoutGoalCardProps) {
+    const [modalVisible, setModalVisible] = useState(false);
+
+    const formatValue = (value: number) =>
+        goal.type === 'visits' ? `${value}` : formatActivityDuration(value);
+
+    return (
+        <View style={styles.card}>
+            <View style={styles.header}>
+                <Text style={styles.title}>Cel tygodniowy</Text>
+                <TouchableOpacity style={styles.editButton} onPress={() => setModalVisible(true)}>
+                    <Ionicons name="create-outline" size={18} color="#000" />
+                    <Text style={styles.editButtonText}>Zmień</Text>
+                </TouchableOpacity>
+            </View>
+
+            {loading && !progress ? (
+                <ActivityIndicator size="small" color="#ffc500" style={styles.loader} />
+            ) : progress && streaks ? (
+                <View style={styles.content}>
+                    <ProgressRing
+                        progress={progress.ratio}
+                        color={progress.isMet ? '#4CAF50' : '#ffc500'}
+                    >
+                        {progress.isMet ? (
+                            <Ionicons name="checkmark" size={32} color="#4CAF50" />
+                        ) : (
+                            <Text style={styles.ringPercent}>{Math.round(progress.ratio * 100)}%</Text>
+                        )}
+                    </ProgressRing>
+
+                    <View style={styles.details}>
+                        <Text style={styles.progressText}>
+                            {formatValue(progress.value)} / {formatValue(progress.target)}
+                            {goal.type === 'visits' ? ' wizyt' : ''}
+                        </Text>
+                        <View style={styles.streakRow}>
+                            <Ionicons name="flame" size={18} color="#FF7043" />
+                            <Text style={styles.streakText}>
+                                Seria: <Text style={styles.streakValue}>{formatWeeks(streaks.current)}</Text>
+                            </Text>
+                        </View>
+                        <View style={styles.streakRow}>
+                            <Ionicons name="trophy-outline" size={18} color="#ffc500" />
+                            <Text style={styles.streakText}>
+                                Rekord: <Text style={styles.streakValue}>{formatWeeks(streaks.longest)}</Text>
+                            </Text>
+                        </View>
+                        <Text style={styles.streakHint}>
+                            Tydzień liczy się do serii od {goal.streakVisits} {goal.streakVisits === 1 ? 'wizyty' : 'wizyt'}
+                        </Text>
+                    </View>
+                </View>
+            ) : (
+                <Text style={styles.noDataText}>Nie udało się wczytać postępu</Text>
+            )}
+
+            <WorkoutGoalModal
+                visible={modalVisible}
+                goal={goal}
+                onClose={() => setModalVisible(false)}
+                onSave={onSaveGoal}
+            />
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    card: {
+        backgroundColor: '#fff',
+        borderRadius: 16,
+        padding: 20,
+        marginBottom: 20,
+        borderWidth: 2,
+        borderColor: '#f0f0f0',
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+        elevation: 3,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 16,
+    },
+    title: { fontSize: 18, fontWeight: 'bold', color: '#000' },
+    editButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 6,
+        paddingHorizontal: 10,
+        backgroundColor: '#f5f5f5',
+        borderRadius: 16,
+    },
+    editButtonText: { fontSize: 14, fontWeight: '600', color: '#000', marginLeft: 4 },
+    loader: { paddingVertical: 30 },
+    content: { flexDirection: 'row', alignItems: 'center' },
+    ringPercent: { fontSize: 20, fontWeight: 'bold', color: '#000' },
+    details: { flex: 1, marginLeft: 20 },
+    progressText: { fontSize: 18, fontWeight: 'bold', color: '#000', marginBottom: 8 },
+    streakRow: { flexDirection: 'row', alignItems: 'center', marginBottom: 4 },
+    streakText: { fontSize: 14, color: '#666', marginLeft: 6 },
+    streakValue: { fontWeight: 'bold', color: '#000' },
+    streakHint: { fontSize: 12, color: '#999', marginTop: 4 },
+    noDataText: { fontSize: 14, color: '#666', textAlign: 'center', paddingVertical: 20 },
+});
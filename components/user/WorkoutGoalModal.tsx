@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from 'react';
+import {
+    StyleSheet,
+    Text,
+    View,
+    Modal,
+    TouchableOpacity,
+    TextInput,
+    ActivityIndicator,
+    Alert,
+    KeyboardAvoidingView,
+    Platform
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { WorkoutGoal, WorkoutGoalType } from '@/types/WorkoutGoal';
+
+interface WorkoutGoalModalProps {
+    visible: boolean;
+    goal: WorkoutGoal;
+    onClose: () => void;
+    onSave: (goal: WorkoutGoal) => Promise<void>;
+}
+
+const MAX_TARGET: Record<WorkoutGoalType, number> = {
+    visits: 14,
+    minutes: 3000,
+};
+
+/**
+ * Modal for setting the weekly workout goal and the streak requirement
+ */
+export default function WorkoutGoalModal({ visible, goal, onClose, onSave }: WorkoutGoalModalProps) {
+    const [type, setType] = useState<WorkoutGoalType>(goal.type);
+    const [target, setTarget] = useState(String(goal.target));
+    const [streakVisits, setStreakVisits] = useState(String(goal.streakVisits));
+    const [error, setError] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    useEffect(() => {
+        if (visible) {
+            setType(goal.type);
+            setTarget(String(goal.target));
+            setStreakVisits(String(goal.streakVisits));
+            setError(null);
+        }
+    }, [visible, goal]);
+
+    const handleSave = async () => {
+        const targetValue = parseInt(target, 10);
+        const streakValue = parseInt(streakVisits, 10);
+
+        if (isNaN(targetValue) || targetValue < 1 || targetValue > MAX_TARGET[type]) {
+            setError(`Cel musi być liczbą od 1 do ${MAX_TARGET[type]}`);
+            return;
+        }
+        if (isNaN(streakValue) || streakValue < 1 || streakValue > MAX_TARGET.visits) {
+            setError(`Liczba wizyt w serii musi być od 1 do ${MAX_TARGET.visits}`);
+            return;
+        }
+
+        setLoading(true);
+        try {
+            await onSave({ type, target: targetValue, streakVisits: streakValue });
+            onClose();
+        } catch (err) {
+            console.error('Error saving workout goal:', err);
+            Alert.alert('Błąd', 'Nie udało się zapisać celu');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            transparent={true}
+            animationType="slide"
+            onRequestClose={onClose}
+        >
+            <KeyboardAvoidingView
+                style={styles.overlay}
+                behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+            >
+                <View style={styles.modalContainer}>
+                    <View style={styles.header}>
+                        <Text style={styles.title}>Cel tygodniowy</Text>
+                        <TouchableOpacity style={styles.closeButton} onPress={onClose} disabled={loading}>
+                            <Ionicons name="close" size={24} color="#000" />
+                        </TouchableOpacity>
+                    </View>
+
+                    <View style={styles.typeSelector}>
+                        {(['visits', 'minutes'] as WorkoutGoalType[]).map(option => (
+                            <TouchableOpacity
+                                key={option}
+                                style={[styles.typeButton, type === option && styles.typeButtonActive]}
+                                onPress={() => setType(option)}
+                                disabled={loading}
+                            >
+                                <Text style={[styles.typeButtonText, type === option && styles.typeButtonTextActive]}>
+                                    {option === 'visits' ? 'Wizyty' : 'Minuty'}
+                                </Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>
+                            {type === 'visits' ? 'Liczba wizyt w tygodniu' : 'Minuty treningu w tygodniu'}
+                        </Text>
+                        <TextInput
+                            style={styles.input}
+                            value={target}
+                            onChangeText={setTarget}
+                            keyboardType="number-pad"
+                            maxLength={4}
+                            editable={!loading}
+                        />
+                    </View>
+
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>Wizyt w tygodniu potrzebnych do serii</Text>
+                        <TextInput
+                            style={styles.input}
+                            value={streakVisits}
+                            onChangeText={setStreakVisits}
+                            keyboardType="number-pad"
+                            maxLength={2}
+                            editable={!loading}
+                        />
+                    </View>
+
+                    {error && <Text style={styles.errorText}>{error}</Text>}
+
+                    <TouchableOpacity
+                        style={[styles.submitButton, loading && styles.submitButtonDisabled]}
+                        onPress={handleSave}
+                        disabled={loading}
+                    >
+                        {loading ? (
+                            <ActivityIndicator color="#000" size="small" />
+                        ) : (
+                            <Text style={styles.submitButtonText}>Zapisz cel</Text>
+                        )}
+                    </TouchableOpacity>
+                </View>
+            </KeyboardAvoidingView>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    modalContainer: {
+        width: '90%',
+        maxWidth: 400,
+        backgroundColor: '#fff',
+        borderRadius: 16,
+        padding: 24,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 8,
+        elevation: 8,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 20,
+    },
+    title: {
+        fontSize: 22,
+        fontWeight: 'bold',
+        color: '#000',
+    },
+    closeButton: {
+        padding: 8,
+        backgroundColor: '#f5f5f5',
+        borderRadius: 20,
+    },
+    typeSelector: {
+        flexDirection: 'row',
+        backgroundColor: '#f8f9fa',
+        borderRadius: 12,
+        padding: 4,
+        marginBottom: 20,
+    },
+    typeButton: {
+        flex: 1,
+        paddingVertical: 10,
+        alignItems: 'center',
+        borderRadius: 8,
+    },
+    typeButtonActive: { backgroundColor: '#ffc500' },
+    typeButtonText: { fontSize: 16, fontWeight: '600', color: '#666' },
+    typeButtonTextActive: { color: '#000' },
+    inputGroup: {
+        marginBottom: 16,
+    },
+    label: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#000',
+        marginBottom: 8,
+    },
+    input: {
+        borderWidth: 2,
+        borderColor: '#e0e0e0',
+        borderRadius: 12,
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        fontSize: 16,
+    },
+    errorText: {
+        color: '#F44336',
+        fontSize: 14,
+        marginBottom: 16,
+        marginLeft: 4,
+    },
+    submitButton: {
+        paddingVertical: 14,
+        borderRadius: 12,
+        backgroundColor: '#ffc500',
+        alignItems: 'center',
+    },
+    submitButtonDisabled: {
+        opacity: 0.6,
+    },
+    submitButtonText: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#000',
+    },
+});
@@ -1,9 +1,18 @@
-import React, { createContext, useState, useEffect, ReactNode, useContext } from 'react';
+import React, { createContext, useState, useEffect, useRef, ReactNode, useContext } from 'react';
+import { AppState } from 'react-native';
 import * as SecureStore from 'expo-secure-store';
 import { User } from '@/types/User';
 import {AuthResponse} from "@/types/AuthResponse";
 import { login as doLogin, register as doRegister, logout as doLogout} from '@/api/auth';
-import { refreshTokenInternal as doRefreshToken } from '@/api/client';
+import { refreshTokenInternal as doRefreshToken, subscribeSessionExpired } from '@/api/tokenManager';
+import { clearPhotoCache } from '@/api/photoCache';
+import {
+    BIOMETRIC_LOCK_TIMEOUT,
+    authenticateWithBiometrics,
+    getBiometricEnabled,
+    isBiometricAvailable,
+    saveBiometricEnabled
+} from '@/utils/biometrics';
 
 /**
  * Interface defining the shape of authentication context values
@@ -15,6 +24,12 @@ interface AuthContextValue {
     register: (email: string, password: string) => Promise<void>;
     logout: () => Promise<void>;
     completeFirstLogin: () => Promise<void>;
+    /** Stored session waits for biometric unlock */
+    locked: boolean;
+    biometricEnabled: boolean;
+    setBiometricEnabled: (enabled: boolean) => Promise<void>;
+    unlock: () => Promise<boolean>;
+    loginWithPassword: () => Promise<void>;
 }
 
 /**
@@ -26,7 +41,12 @@ export const AuthContext = createContext<AuthContextValue>({
     login: async () => {},
     register: async () => {},
     logout: async () => {},
-    completeFirstLogin: async () => {}
+    completeFirstLogin: async () => {},
+    locked: false,
+    biometricEnabled: false,
+    setBiometricEnabled: async () => {},
+    unlock: async () => false,
+    loginWithPassword: async () => {}
 });
 
 interface AuthProviderProps {
@@ -40,6 +60,9 @@ interface AuthProviderProps {
 export const AuthProvider = ({ children }: AuthProviderProps) => {
     const [user, setUser] = useState<User | null>(null);
     const [loading, setLoading] = useState(true);
+    const [locked, setLocked] = useState(false);
+    const [biometricEnabled, setBiometricEnabledState] = useState(false);
+    const backgroundedAt = useRef<number | null>(null);
 
     /**
      * Marks the user as having completed their first login
@@ -87,35 +110,90 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     const logout = async () => {
         await doLogout();
         setUser(null);
+        setBiometricEnabledState(false);
         // Clear stored user data
         await SecureStore.deleteItemAsync('user');
         await SecureStore.deleteItemAsync('refreshToken');
     };
 
+    /**
+     * Restores the stored session by refreshing the tokens
+     * Clears all authentication data if the refresh token is no longer valid
+     */
+    const restoreSession = async () => {
+        const storedUser = await SecureStore.getItemAsync('user');
+        try {
+            setLoading(true);
+            await doRefreshToken();
+            if (storedUser) setUser(JSON.parse(storedUser));
+            console.log('Token refresh successful');
+        } catch  {
+            // If refresh fails, clear all authentication data
+            console.log('Token refresh failed, logging out');
+            await doLogout();
+            setUser(null);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    /**
+     * Enables or disables the biometric gate
+     * Enabling requires a successful biometric check, so the user cannot lock themselves out
+     */
+    const setBiometricEnabled = async (enabled: boolean) => {
+        if (enabled) {
+            if (!(await isBiometricAvailable())) {
+                throw new Error('Na tym urządzeniu nie skonfigurowano Face ID ani odcisku palca');
+            }
+            const confirmed = await authenticateWithBiometrics('Potwierdź, aby włączyć odblokowanie biometryczne');
+            if (!confirmed) return;
+        }
+        await saveBiometricEnabled(enabled);
+        setBiometricEnabledState(enabled);
+    };
+
+    /**
+     * Asks for biometrics and restores the session once the user is recognised
+     * @returns False when the check failed or was cancelled
+     */
+    const unlock = async (): Promise<boolean> => {
+        const recognised = await authenticateWithBiometrics('Odblokuj JodoGym');
+        if (!recognised) return false;
+
+        await restoreSession();
+        setLocked(false);
+        return true;
+    };
+
+    /**
+     * Drops the locked session and falls back to the password login screen
+     */
+    const loginWithPassword = async () => {
+        await logout();
+        setLocked(false);
+    };
+
     /**
      * Effect hook to handle authentication state initialization
      * Attempts to restore user session on app startup using stored tokens
+     * If biometric unlock is enabled, the refresh waits until the user is recognised
      */
     useEffect(() => {
         (async () => {
             const storedUser = await SecureStore.getItemAsync('user');
             const storedRefresh = await SecureStore.getItemAsync('refreshToken');
+            const biometricsOn = await getBiometricEnabled();
+            setBiometricEnabledState(biometricsOn);
 
             // If refresh token exists, attempt to refresh the session
             if (storedRefresh) {
-                try {
-                    setLoading(true);
-                    await doRefreshToken();
-                    if (storedUser) setUser(JSON.parse(storedUser));
-                    console.log('Token refresh successful');
-                } catch  {
-                    // If refresh fails, clear all authentication data
-                    console.log('Token refresh failed, logging out');
-                    await doLogout();
-                    setUser(null);
-                } finally {
+                if (biometricsOn && await isBiometricAvailable()) {
+                    setLocked(true);
                     setLoading(false);
+                    return;
                 }
+                await restoreSession();
             } else {
                 // No refresh token, but check if user data exists (offline mode)
                 if (storedUser) setUser(JSON.parse(storedUser));
@@ -124,8 +202,61 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
         })();
     }, []);
 
+    /**
+     * Returns to the login screen when the API could not refresh the session
+     */
+    useEffect(() => {
+        return subscribeSessionExpired(() => {
+            console.log('Session expired, logging out');
+            clearPhotoCache();
+            setUser(null);
+            setBiometricEnabledState(false);
+            setLocked(false);
+        });
+    }, []);
+
+    /**
+     * Locks the app again after it has spent too long in the background
+     */
+    useEffect(() => {
+        if (!user || !biometricEnabled) {
+            backgroundedAt.current = null;
+            return;
+        }
+
+        const subscription = AppState.addEventListener('change', (nextAppState) => {
+            if (nextAppState === 'background') {
+                backgroundedAt.current = Date.now();
+            } else if (nextAppState === 'active' && backgroundedAt.current !== null) {
+                const elapsed = Date.now() - backgroundedAt.current;
+                backgroundedAt.current = null;
+                if (elapsed >= BIOMETRIC_LOCK_TIMEOUT) {
+                    setLocked(true);
+                }
+            }
+        });
+
+        return () => {
+            subscription.remove();
+        };
+    }, [user, biometricEnabled]);
+
     return (
-        <AuthContext.Provider value={{ user, loading, login, register, logout, completeFirstLogin }}>
+        <AuthContext.Provider
+            value={{
+                user,
+                loading,
+                login,
+                register,
+                logout,
+                completeFirstLogin,
+                locked,
+                biometricEnabled,
+                setBiometricEnabled,
+                unlock,
+                loginWithPassword
+            }}
+        >
             {children}
         </AuthContext.Provider>
     );
@@ -12,6 +12,7 @@ import {
     UpdateUserInfoParams,
     deleteUserAccount as apiDeleteUserAccount
 } from '@/api/user';
+import { isUploadCanceled, UploadOptions } from '@/api/upload';
 import { UserInfo } from '@/types/UserInfo';
 import { useAuth } from './AuthContext';
 import { Membership } from "@/types/Membership";
@@ -35,7 +36,7 @@ interface UserContextValue {
     refreshUserInfo: () => Promise<void>;
     deleteUserAccount: () => Promise<void>;
     refreshMembership: () => Promise<void>;
-    updateUserInfo: (params: UpdateUserInfoParams) => Promise<void>;
+    updateUserInfo: (params: UpdateUserInfoParams, options?: UploadOptions) => Promise<void>;
     setLocationStatus: (isInGym: boolean, sessionDetails: {
         startTime: string | null;
         currentSessionMinutes: number | null;
@@ -148,14 +149,16 @@ export const UserProvider = ({ children }: UserProviderProps) => {
      * Updates user information via API and completes first login if applicable
      * Refreshes local user state with updated data
      */
-    const updateUserInfo = useCallback(async (params: UpdateUserInfoParams) => {
+    const updateUserInfo = useCallback(async (params: UpdateUserInfoParams, options?: UploadOptions) => {
         setLoading(true);
         try {
-            const updated = await apiUpdateUserInfo(params);
+            const updated = await apiUpdateUserInfo(params, options);
             setUserInfo(updated);
             await completeFirstLogin();
         } catch (error: any) {
-            handleApiError(error);
+            if (!isUploadCanceled(error)) {
+                handleApiError(error);
+            }
         } finally {
             setLoading(false);
         }
@@ -0,0 +1,141 @@
+import React, {
+    createContext,
+    useState,
+    useEffect,
+    useCallback,
+    useMemo,
+    ReactNode,
+    useContext
+} from 'react';
+import { getActivityHistory } from '@/api/activity';
+import { ActivityResponse } from '@/types/ActivityResponse';
+import { WorkoutGoal } from '@/types/WorkoutGoal';
+import {
+    DEFAULT_WORKOUT_GOAL,
+    getStreaks,
+    getWeeklyProgress,
+    getWorkoutGoal,
+    saveWorkoutGoal,
+    Streaks,
+    syncGoalReminder,
+    WeeklyProgress
+} from '@/utils/workoutGoals';
+import { useAuth } from './AuthContext';
+
+// Enough history for long streaks without paging through years of sessions
+const HISTORY_PAGE_SIZE = 100;
+const HISTORY_MAX_PAGES = 5;
+
+/**
+ * Interface defining the shape of workout goals context values
+ */
+interface WorkoutGoalsContextValue {
+    goal: WorkoutGoal;
+    progress: WeeklyProgress | null;
+    streaks: Streaks | null;
+    loading: boolean;
+    setGoal: (goal: WorkoutGoal) => Promise<void>;
+    refresh: () => Promise<void>;
+}
+
+/**
+ * Workout goals context shared by every screen showing the goal,
+ * so a change made in one of them is seen by all
+ */
+const WorkoutGoalsContext = createContext<WorkoutGoalsContextValue>({
+    goal: DEFAULT_WORKOUT_GOAL,
+    progress: null,
+    streaks: null,
+    loading: true,
+    setGoal: async () => {},
+    refresh: async () => {}
+});
+
+interface WorkoutGoalsProviderProps {
+    children: ReactNode;
+}
+
+/**
+ * Workout goals provider that loads the weekly goal and activity history of the logged in user,
+ * derives goal progress and streaks, and keeps the Friday reminder in sync
+ */
+export const WorkoutGoalsProvider = ({ children }: WorkoutGoalsProviderProps) => {
+    const { user } = useAuth();
+    const userId = user?.id ?? null;
+
+    const [goal, setGoalState] = useState<WorkoutGoal>(DEFAULT_WORKOUT_GOAL);
+    const [activities, setActivities] = useState<ActivityResponse[] | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    const refresh = useCallback(async () => {
+        if (!userId) return;
+
+        setLoading(true);
+        try {
+            const [storedGoal, history] = await Promise.all([
+                getWorkoutGoal(userId),
+                getActivityHistory(userId, HISTORY_PAGE_SIZE, HISTORY_MAX_PAGES)
+            ]);
+
+            setGoalState(storedGoal);
+            setActivities(history);
+        } catch (error) {
+            console.error('❌ Error loading workout goals:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, [userId]);
+
+    useEffect(() => {
+        if (userId) {
+            refresh();
+        } else {
+            // The next user on the device starts from their own goal
+            setGoalState(DEFAULT_WORKOUT_GOAL);
+            setActivities(null);
+            setLoading(true);
+        }
+    }, [userId, refresh]);
+
+    const progress = useMemo(
+        () => activities ? getWeeklyProgress(activities, goal) : null,
+        [activities, goal]
+    );
+
+    const streaks = useMemo(
+        () => activities ? getStreaks(activities, goal.streakVisits) : null,
+        [activities, goal.streakVisits]
+    );
+
+    useEffect(() => {
+        if (userId && progress) {
+            syncGoalReminder(goal, progress);
+        }
+    }, [userId, goal, progress]);
+
+    const setGoal = useCallback(async (newGoal: WorkoutGoal) => {
+        if (!userId) return;
+        await saveWorkoutGoal(userId, newGoal);
+        setGoalState(newGoal);
+    }, [userId]);
+
+    return (
+        <WorkoutGoalsContext.Provider
+            value={{
+                goal,
+                progress,
+                streaks,
+                loading,
+                setGoal,
+                refresh
+            }}
+        >
+            {children}
+        </WorkoutGoalsContext.Provider>
+    );
+};
+
+/**
+ * Custom hook to access workout goals context
+ */
+export const useWorkoutGoals = () => useContext(WorkoutGoalsContext);
@@ -16,9 +16,12 @@
  * - Workout notifications - stay informed about training progress
  *
  * TECHNICAL IMPLEMENTATION:
- * - Uses Location.startLocationUpdatesAsync with background task
+ * - Uses Location.startGeofencingAsync around the gym locations (fetched once) in the background,
+ *   so entry/exit is detected on the device and only the transitions are synced to the server
+ * - Falls back to Location.startLocationUpdatesAsync with background task when geofencing is unavailable
  * - Updates every 3 minutes or 15 meters (battery-efficient)
  * - Sends location to server to detect gym proximity
+ * - Queues samples while offline and sends them in order once connectivity returns
  * - Shows iOS background location indicator for transparency
  * - Sends local notifications on gym entry/exit
  *
@@ -33,15 +36,23 @@ import { Alert, AppState, AppStateStatus } from 'react-native';
 import * as Location from 'expo-location';
 import * as TaskManager from 'expo-task-manager';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-
-import { updateLocation } from '@/api/activity';
+import NetInfo from '@react-native-community/netinfo';
+
+import { getGymLocations } from '@/api/activity';
+import {
+    clearLocationQueue,
+    flushLocationQueue,
+    hasPendingLocationUpdates,
+    submitLocationUpdate
+} from '@/utils/locationQueue';
 import { sendWorkoutStartedNotification, sendWorkoutEndedNotification } from '@/utils/notifications';
 import type { LocationResponse } from '@/types/LocationResponse';
-import { LocationRequest } from "@/types/LocationRequest";
+import { GeofenceEvent, LocationRequest } from "@/types/LocationRequest";
 
 const LOCATION_UPDATE_INTERVAL = 180_000; // 3 minutes - battery-efficient interval
 const LOCATION_DISTANCE_INTERVAL = 15; // 15 meters - significant movement threshold
 const BACKGROUND_LOCATION_TASK = 'background-location-task';
+const GEOFENCE_TASK = 'gym-geofence-task';
 
 // AsyncStorage keys for background task
 const USER_ID_KEY = 'tracking_user_id';
@@ -50,6 +61,8 @@ const LAST_SESSION_MINUTES_KEY = 'tracking_last_session_minutes';
 const LAST_UPDATE_TIME_KEY = 'tracking_last_update_time';
 const BG_PERMISSION_ALERT_SHOWN_KEY = 'bg_permission_alert_shown';
 const LOCATION_STATUS_KEY = 'tracking_location_status'; // New key for persisting status
+const GYM_REGIONS_KEY = 'tracking_gym_regions';
+const GEOFENCE_ENTERED_AT_KEY = 'tracking_geofence_entered_at';
 
 const LOCATION_CONFIG = {
     accuracy: Location.Accuracy.High,
@@ -114,15 +127,24 @@ TaskManager.defineTask(BACKGROUND_LOCATION_TASK, async ({ data, error }: any) =>
             timeSinceLastUpdate: `${Math.round((now - lastUpdateTime) / 1000)}s`
         });
 
-        // Send location to server
+        // Send location to server, queued behind samples that could not be sent earlier
         const request: LocationRequest = {
             latitude: location.coords.latitude,
             longitude: location.coords.longitude,
+            timestamp: new Date(location.timestamp).toISOString(),
         };
 
         console.log('📤 Background: Sending request:', JSON.stringify(request));
 
-        const resp: LocationResponse = await updateLocation(userId, request);
+        const resp: LocationResponse | null = await submitLocationUpdate(userId, request);
+
+        // Save update time
+        await AsyncStorage.setItem(LAST_UPDATE_TIME_KEY, now.toString());
+
+        if (!resp) {
+            console.log('📥 Background: Offline, sample queued');
+            return;
+        }
 
         console.log('✅ Background: Server response:', {
             isInGym: resp.isInGym,
@@ -130,9 +152,6 @@ TaskManager.defineTask(BACKGROUND_LOCATION_TASK, async ({ data, error }: any) =>
             startTime: resp.startTime
         });
 
-        // Save update time
-        await AsyncStorage.setItem(LAST_UPDATE_TIME_KEY, now.toString());
-
         // Get previous state from AsyncStorage
         const wasInGymStr = await AsyncStorage.getItem(WAS_IN_GYM_KEY);
         const lastSessionMinutesStr = await AsyncStorage.getItem(LAST_SESSION_MINUTES_KEY);
@@ -157,19 +176,8 @@ TaskManager.defineTask(BACKGROUND_LOCATION_TASK, async ({ data, error }: any) =>
             await sendWorkoutEndedNotification(lastSessionMinutes);
         }
 
-        // Save new state to AsyncStorage
-        await AsyncStorage.setItem(WAS_IN_GYM_KEY, resp.isInGym.toString());
-        await AsyncStorage.setItem(
-            LAST_SESSION_MINUTES_KEY,
-            (resp.currentSessionMinutes ?? 0).toString()
-        );
-
-        // Save location status for context recovery
-        await AsyncStorage.setItem(LOCATION_STATUS_KEY, JSON.stringify({
-            isInGym: resp.isInGym,
-            startTime: resp.startTime,
-            currentSessionMinutes: resp.currentSessionMinutes
-        }));
+        // Save new state to AsyncStorage (also used for context recovery)
+        await saveServerStatus(resp);
 
     } catch (error: any) {
         console.error('❌ Background task error:', {
@@ -195,6 +203,162 @@ TaskManager.defineTask(BACKGROUND_LOCATION_TASK, async ({ data, error }: any) =>
     }
 });
 
+/**
+ * Saves the server response as the current tracking state
+ */
+const saveServerStatus = async (resp: LocationResponse) => {
+    await AsyncStorage.setItem(WAS_IN_GYM_KEY, resp.isInGym.toString());
+    await AsyncStorage.setItem(
+        LAST_SESSION_MINUTES_KEY,
+        (resp.currentSessionMinutes ?? 0).toString()
+    );
+    await AsyncStorage.setItem(LOCATION_STATUS_KEY, JSON.stringify({
+        isInGym: resp.isInGym,
+        startTime: resp.startTime,
+        currentSessionMinutes: resp.currentSessionMinutes
+    }));
+};
+
+/**
+ * Geofence task - MUST be defined at module level
+ * Entry/exit is handled locally first (state + notification), then synced to the server
+ */
+TaskManager.defineTask(GEOFENCE_TASK, async ({ data, error }: any) => {
+    if (error) {
+        console.error('❌ Geofence error:', error);
+        return;
+    }
+
+    try {
+        const { eventType, region } = data as {
+            eventType: Location.GeofencingEventType;
+            region: Location.LocationRegion;
+        };
+
+        const userId = await AsyncStorage.getItem(USER_ID_KEY);
+        if (!userId) {
+            console.log('⚠️ Geofence: no userId in storage');
+            return;
+        }
+
+        const wasInGym = (await AsyncStorage.getItem(WAS_IN_GYM_KEY)) === 'true';
+        const now = new Date();
+        let geofenceEvent: GeofenceEvent;
+
+        if (eventType === Location.GeofencingEventType.Enter) {
+            if (wasInGym) {
+                console.log('ℹ️ Geofence: entered', region.identifier, 'but already in gym');
+                return;
+            }
+            geofenceEvent = 'ENTER';
+
+            console.log('🏋️ Geofence: User entered gym', region.identifier);
+            await sendWorkoutStartedNotification(now.toISOString());
+
+            await AsyncStorage.setItem(WAS_IN_GYM_KEY, 'true');
+            await AsyncStorage.setItem(GEOFENCE_ENTERED_AT_KEY, now.getTime().toString());
+            await AsyncStorage.setItem(LOCATION_STATUS_KEY, JSON.stringify({
+                isInGym: true,
+                startTime: now.toISOString(),
+                currentSessionMinutes: 0
+            }));
+        } else if (eventType === Location.GeofencingEventType.Exit) {
+            if (!wasInGym) {
+                console.log('ℹ️ Geofence: left', region.identifier, 'but was not in gym');
+                return;
+            }
+            geofenceEvent = 'EXIT';
+
+            const enteredAtStr = await AsyncStorage.getItem(GEOFENCE_ENTERED_AT_KEY);
+            const lastSessionMinutesStr = await AsyncStorage.getItem(LAST_SESSION_MINUTES_KEY);
+            const sessionMinutes = enteredAtStr
+                ? Math.round((now.getTime() - parseInt(enteredAtStr, 10)) / 60000)
+                : parseInt(lastSessionMinutesStr ?? '0', 10);
+
+            console.log('✅ Geofence: User left gym (duration: ' + sessionMinutes + 'min)');
+            if (sessionMinutes > 0) {
+                await sendWorkoutEndedNotification(sessionMinutes);
+            }
+
+            await AsyncStorage.setItem(WAS_IN_GYM_KEY, 'false');
+            await AsyncStorage.removeItem(GEOFENCE_ENTERED_AT_KEY);
+            await AsyncStorage.setItem(LOCATION_STATUS_KEY, JSON.stringify({
+                isInGym: false,
+                startTime: null,
+                currentSessionMinutes: null
+            }));
+        } else {
+            return;
+        }
+
+        // Sync to server - queued like any other sample if the device is offline
+        const lastKnown = await Location.getLastKnownPositionAsync();
+        const request: LocationRequest = {
+            latitude: lastKnown?.coords.latitude ?? region.latitude,
+            longitude: lastKnown?.coords.longitude ?? region.longitude,
+            timestamp: now.toISOString(),
+            geofenceEvent,
+        };
+
+        const resp = await submitLocationUpdate(userId, request);
+        if (resp) {
+            await saveServerStatus(resp);
+            console.log('✅ Geofence: synced with server', { isInGym: resp.isInGym });
+        } else {
+            console.log('📥 Geofence: Offline, event queued');
+        }
+    } catch (error: any) {
+        console.error('❌ Geofence task error:', error.message);
+    }
+});
+
+/**
+ * Returns geofencing regions of the gyms. They are fetched from the server once
+ * and reused afterwards, gym locations practically never change.
+ */
+const getGymRegions = async (): Promise<Location.LocationRegion[]> => {
+    const stored = await AsyncStorage.getItem(GYM_REGIONS_KEY);
+    if (stored) {
+        return JSON.parse(stored);
+    }
+
+    const gyms = await getGymLocations();
+    const regions: Location.LocationRegion[] = gyms.map(gym => ({
+        identifier: gym.id,
+        latitude: gym.latitude,
+        longitude: gym.longitude,
+        radius: gym.radius,
+        notifyOnEnter: true,
+        notifyOnExit: true,
+    }));
+
+    if (regions.length > 0) {
+        await AsyncStorage.setItem(GYM_REGIONS_KEY, JSON.stringify(regions));
+    }
+    return regions;
+};
+
+/**
+ * Starts geofencing around the gyms
+ * @returns true if geofencing is running, false if periodic updates are needed instead
+ */
+const startGymGeofencing = async (): Promise<boolean> => {
+    try {
+        const regions = await getGymRegions();
+        if (regions.length === 0) {
+            console.log('⚠️ Geofencing: no gym locations available');
+            return false;
+        }
+
+        await Location.startGeofencingAsync(GEOFENCE_TASK, regions);
+        console.log('✅ Geofencing started for', regions.length, 'gym(s)');
+        return true;
+    } catch (error) {
+        console.error('❌ Error starting geofencing:', error);
+        return false;
+    }
+};
+
 export function useLocationTracking(
     userId: string | null,
     onLocationUpdate: (isInGym: boolean, sessionDetails: {
@@ -260,6 +424,7 @@ export function useLocationTracking(
             const request: LocationRequest = {
                 latitude: loc.coords.latitude,
                 longitude: loc.coords.longitude,
+                timestamp: new Date(loc.timestamp).toISOString(),
             };
 
             console.log('📍 Foreground location update:', {
@@ -273,7 +438,15 @@ export function useLocationTracking(
 
             console.log('📤 Foreground: Sending request:', JSON.stringify(request));
 
-            const resp: LocationResponse = await updateLocation(userId, request);
+            const resp: LocationResponse | null = await submitLocationUpdate(userId, request);
+
+            lastLocationUpdate.current = now;
+
+            if (!resp) {
+                console.log('📥 Foreground: Offline, sample queued');
+                await AsyncStorage.setItem(LAST_UPDATE_TIME_KEY, now.toString());
+                return;
+            }
 
             console.log('✅ Foreground: Server response:', {
                 isInGym: resp.isInGym,
@@ -281,7 +454,11 @@ export function useLocationTracking(
                 startTime: resp.startTime
             });
 
-            lastLocationUpdate.current = now;
+            // The geofence task may have changed the state in the meantime
+            const storedWasInGym = await AsyncStorage.getItem(WAS_IN_GYM_KEY);
+            if (storedWasInGym !== null) {
+                wasInGym.current = storedWasInGym === 'true';
+            }
 
             // Detect status changes
             const justEnteredGym = !wasInGym.current && resp.isInGym;
@@ -309,17 +486,8 @@ export function useLocationTracking(
             lastSessionMinutes.current = resp.currentSessionMinutes;
 
             // Save to AsyncStorage (for background task and persistence)
-            await AsyncStorage.setItem(WAS_IN_GYM_KEY, resp.isInGym.toString());
-            await AsyncStorage.setItem(
-                LAST_SESSION_MINUTES_KEY,
-                (resp.currentSessionMinutes ?? 0).toString()
-            );
+            await saveServerStatus(resp);
             await AsyncStorage.setItem(LAST_UPDATE_TIME_KEY, now.toString());
-            await AsyncStorage.setItem(LOCATION_STATUS_KEY, JSON.stringify({
-                isInGym: resp.isInGym,
-                startTime: resp.startTime,
-                currentSessionMinutes: resp.currentSessionMinutes
-            }));
 
         } catch (e: any) {
             console.error('❌ sendLocationUpdate error:', {
@@ -488,21 +656,28 @@ export function useLocationTracking(
                     await Location.stopLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
                 }
 
-                await Location.startLocationUpdatesAsync(BACKGROUND_LOCATION_TASK, {
-                    accuracy: Location.Accuracy.High,
-                    timeInterval: LOCATION_UPDATE_INTERVAL,
-                    distanceInterval: LOCATION_DISTANCE_INTERVAL,
-                    deferredUpdatesInterval: LOCATION_UPDATE_INTERVAL,
-                    foregroundService: {
-                        notificationTitle: 'JodoGym śledzi treningi',
-                        notificationBody: 'Automatyczne wykrywanie treningów jest włączone',
-                    },
-                    // iOS
-                    showsBackgroundLocationIndicator: true,
-                    pausesUpdatesAutomatically: false,
-                });
-
-                console.log('✅ Background location tracking started');
+                // Prefer geofencing - the app is woken up only on gym entry/exit
+                const isGeofencing = await startGymGeofencing();
+
+                if (isGeofencing) {
+                    console.log('✅ Background: using geofencing instead of periodic updates');
+                } else {
+                    await Location.startLocationUpdatesAsync(BACKGROUND_LOCATION_TASK, {
+                        accuracy: Location.Accuracy.High,
+                        timeInterval: LOCATION_UPDATE_INTERVAL,
+                        distanceInterval: LOCATION_DISTANCE_INTERVAL,
+                        deferredUpdatesInterval: LOCATION_UPDATE_INTERVAL,
+                        foregroundService: {
+                            notificationTitle: 'JodoGym śledzi treningi',
+                            notificationBody: 'Automatyczne wykrywanie treningów jest włączone',
+                        },
+                        // iOS
+                        showsBackgroundLocationIndicator: true,
+                        pausesUpdatesAutomatically: false,
+                    });
+
+                    console.log('✅ Background location tracking started');
+                }
             } catch (error) {
                 console.error('❌ Error starting background tracking:', error);
             }
@@ -536,13 +711,33 @@ export function useLocationTracking(
             console.error('❌ Error stopping background tracking:', error);
         }
 
+        // Stop geofencing
+        try {
+            const hasStartedGeofencing = await Location.hasStartedGeofencingAsync(GEOFENCE_TASK);
+            if (hasStartedGeofencing) {
+                await Location.stopGeofencingAsync(GEOFENCE_TASK);
+                console.log('✅ Geofencing stopped');
+            }
+        } catch (error) {
+            console.error('❌ Error stopping geofencing:', error);
+        }
+
+        // Send what is still queued, then drop the rest so no samples outlive the session
+        try {
+            await flushLocationQueue();
+        } catch (error) {
+            console.error('❌ Error flushing location queue:', error);
+        }
+        await clearLocationQueue();
+
         // Clear AsyncStorage (but keep BG_PERMISSION_ALERT_SHOWN_KEY to avoid showing alert again)
         await AsyncStorage.multiRemove([
             USER_ID_KEY,
             WAS_IN_GYM_KEY,
             LAST_SESSION_MINUTES_KEY,
             LAST_UPDATE_TIME_KEY,
-            LOCATION_STATUS_KEY
+            LOCATION_STATUS_KEY,
+            GEOFENCE_ENTERED_AT_KEY
         ]);
         console.log('💾 Cleared AsyncStorage');
 
@@ -598,6 +793,28 @@ export function useLocationTracking(
         };
     }, [isTracking, sendLocationUpdate, startForegroundTracking, stopForegroundTracking]);
 
+    /**
+     * Flush queued samples as soon as connectivity returns.
+     * A fresh sample is sent behind them, so the context reflects the current state.
+     */
+    useEffect(() => {
+        if (!isTracking) return;
+
+        const unsubscribe = NetInfo.addEventListener(async (state) => {
+            if (!state.isConnected || state.isInternetReachable === false) return;
+            if (appState.current !== 'active') return;
+
+            if (await hasPendingLocationUpdates()) {
+                console.log('📡 Connectivity restored - flushing queued location samples');
+                await sendLocationUpdate(undefined, true);
+            }
+        });
+
+        return () => {
+            unsubscribe();
+        };
+    }, [isTracking, sendLocationUpdate]);
+
     /**
      * Cleanup only when component is unmounted PERMANENTLY
      */
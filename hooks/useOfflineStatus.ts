@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { getOfflineStatus, subscribeOfflineStatus, OfflineStatus } from '@/api/cache';
+
+/**
+ * Returns whether responses are currently served from the offline cache
+ * and when the oldest of them was fetched
+ */
+export function useOfflineStatus(): OfflineStatus {
+    return useSyncExternalStore(subscribeOfflineStatus, getOfflineStatus);
+}
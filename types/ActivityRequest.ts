@@ -0,0 +1,5 @@
+export interface ActivityRequest {
+    startTime: string;
+    endTime: string;
+    note?: string;
+}
@@ -1,6 +1,11 @@
+export type ActivitySource = 'AUTO' | 'MANUAL';
+
 export interface ActivityResponse {
   id: string;
   startTime: string;
   endTime: string;
   durationMinutes: number;
-}
\ No newline at end of file
+  /** AUTO for sessions detected from location, MANUAL for ones logged or corrected by the member */
+  source: ActivitySource;
+  note: string | null;
+}
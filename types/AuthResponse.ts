@@ -5,4 +5,6 @@ export interface AuthResponse {
     accessToken: string;
     refreshToken: string;
     expiresIn: number;
+    /** Secret of the digital membership card, provisioned on login */
+    cardSecret?: string;
 }
\ No newline at end of file
@@ -0,0 +1,6 @@
+export interface BillingDetails {
+    companyName: string;
+    /** Polish tax identification number, 10 digits */
+    nip: string;
+    address: string;
+}
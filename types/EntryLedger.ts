@@ -0,0 +1,20 @@
+/** GYM_VISIT for entries through the gate, CLASS_BOOKING for attended classes, RECEPTION for entries registered by staff */
+export type EntrySource = 'GYM_VISIT' | 'CLASS_BOOKING' | 'RECEPTION';
+
+export type EntryDisputeStatus = 'PENDING' | 'ACCEPTED' | 'REJECTED';
+
+export interface EntryLedgerItem {
+    id: string;
+    usedAt: string;
+    source: EntrySource;
+    /** Name of the class, present for CLASS_BOOKING entries */
+    className: string | null;
+    /** Entries left right after this one was used, recorded by the server so renewals in between are accounted for */
+    balanceAfter: number;
+    /** Null until the member reports the entry, ACCEPTED entries are given back */
+    disputeStatus: EntryDisputeStatus | null;
+}
+
+export interface EntryDisputeRequest {
+    reason: string;
+}
@@ -3,4 +3,6 @@ export interface Exercise {
     name: string;
     unit: string;
     iconRN: string;
-}
\ No newline at end of file
+    /** True for results like times, where a smaller value ranks higher */
+    lowerIsBetter: boolean;
+}
@@ -0,0 +1,8 @@
+export interface GymLocation {
+    id: string;
+    name: string;
+    latitude: number;
+    longitude: number;
+    /** Radius of the gym area in meters */
+    radius: number;
+}
@@ -1,4 +1,10 @@
+export type GeofenceEvent = 'ENTER' | 'EXIT';
+
 export interface LocationRequest {
     latitude: number;
     longitude: number;
-}
\ No newline at end of file
+    /** ISO time the sample was taken, so queued samples are not counted from when they were sent */
+    timestamp?: string;
+    /** Set when the device detected the gym entry/exit itself, the server takes it over its own distance check */
+    geofenceEvent?: GeofenceEvent;
+}
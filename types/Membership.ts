@@ -4,5 +4,6 @@ export interface Membership {
     remainingEntries: number;
     isFrozen: boolean;
     frozenStart: string;
+    frozenEnd: string | null;
     isActive: boolean;
 }
@@ -0,0 +1,14 @@
+export interface CardCode {
+    membershipId: string;
+    /** Number of the 30 second period the code belongs to */
+    step: number;
+    code: string;
+}
+
+export type CardCodeStatus = 'valid' | 'malformed' | 'expired' | 'invalid' | 'replayed';
+
+export interface CardCodeVerification {
+    status: CardCodeStatus;
+    /** Present whenever the payload could be parsed */
+    membershipId?: string;
+}
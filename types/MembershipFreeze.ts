@@ -0,0 +1,17 @@
+export interface FreezeRules {
+    /** Shortest freeze the gym accepts */
+    minDays: number;
+    /** Longest single freeze */
+    maxDays: number;
+    /** Freeze days left in the current membership year */
+    remainingDays: number;
+    /** How far ahead a freeze can be scheduled */
+    maxStartAheadDays: number;
+}
+
+export interface FreezeRequest {
+    /** First frozen day, "YYYY-MM-DD" */
+    startDate: string;
+    /** Last frozen day, "YYYY-MM-DD" */
+    endDate: string;
+}
@@ -6,4 +6,6 @@ export interface MembershipPurchase {
     durationMonths: number;
     durationWeeks: number;
     price: number;
+    /** VAT rate the purchase was taxed at, as a fraction, e.g. 0.08 */
+    vatRate: number;
 }
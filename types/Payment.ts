@@ -0,0 +1,22 @@
+export type PaymentMethod = 'card' | 'blik' | 'transfer';
+
+export interface PaymentRequest {
+    /** Amount in PLN */
+    amount: number;
+    description: string;
+    method: PaymentMethod;
+}
+
+export interface PaymentResult {
+    status: 'succeeded' | 'failed' | 'canceled';
+    /** Provider's transaction reference, present when the payment succeeded */
+    transactionId?: string;
+    message?: string;
+}
+
+export interface PaymentProvider {
+    /** Identifier sent to the API together with the transaction reference */
+    id: string;
+    methods: PaymentMethod[];
+    pay: (request: PaymentRequest) => Promise<PaymentResult>;
+}
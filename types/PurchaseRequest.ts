@@ -0,0 +1,10 @@
+import { PaymentMethod } from "@/types/Payment";
+
+export interface PurchaseRequest {
+    membershipTypeId: string;
+    /** First day of the membership, "YYYY-MM-DD" */
+    startDate: string;
+    paymentMethod: PaymentMethod;
+    paymentProvider: string;
+    transactionId: string;
+}
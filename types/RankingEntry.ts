@@ -1,6 +1,14 @@
+export type RankingEntryStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
 export interface RankingEntry {
     id: string;
+    userId: string;
     username: string;
+    exerciseId: string;
     result: number;
     createdAt: string;
-}
\ No newline at end of file
+    /** Leaderboards contain only APPROVED entries, the user's own history contains all of them */
+    status: RankingEntryStatus;
+    proofUrl: string | null;
+    rejectionReason: string | null;
+}
@@ -0,0 +1,17 @@
+export type RankingScope = 'MONTH' | 'YEAR' | 'ALL_TIME';
+
+export type RankingGender = 'MALE' | 'FEMALE';
+
+export interface AgeBracket {
+    id: string;
+    label: string;
+    minAge: number;
+    /** Inclusive upper bound, null for the open-ended oldest bracket */
+    maxAge: number | null;
+}
+
+export interface RankingFilters {
+    scope: RankingScope;
+    gender: RankingGender | null;
+    ageBracket: AgeBracket | null;
+}
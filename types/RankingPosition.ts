@@ -0,0 +1,7 @@
+export interface RankingPosition {
+    /** Current all-time position of the user's best result, null without an approved result */
+    rank: number | null;
+    /** Position before the latest approved result, null if it was the first one */
+    previousRank: number | null;
+    participants: number;
+}
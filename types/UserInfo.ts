@@ -1,3 +1,5 @@
+import { BillingDetails } from "@/types/BillingDetails";
+
 export interface UserInfo {
     id: string;
     firstName: string;
@@ -6,4 +8,6 @@ export interface UserInfo {
     birthDate: string;
     createdDate: string;
     photoUpdatedDate: string;
+    /** Company data printed on invoices, null for private purchases */
+    billingDetails: BillingDetails | null;
 }
\ No newline at end of file
@@ -0,0 +1,13 @@
+import {Schedule} from "@/types/Schedule";
+
+export type WaitlistStatus = 'WAITING' | 'PROMOTED' | 'EXPIRED';
+
+export interface WaitlistEntry {
+    id: string;
+    schedule: Schedule;
+    yearWeek: string;
+    classDate: string;
+    position: number;
+    status: WaitlistStatus;
+    createdDate: string;
+}
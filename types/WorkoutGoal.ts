@@ -0,0 +1,9 @@
+export type WorkoutGoalType = 'minutes' | 'visits';
+
+export interface WorkoutGoal {
+    type: WorkoutGoalType;
+    /** Weekly target in minutes or visits, depending on type */
+    target: number;
+    /** Visits a week needs to count towards a streak */
+    streakVisits: number;
+}
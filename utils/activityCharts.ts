@@ -0,0 +1,119 @@
+import { ActivityResponse } from "@/types/ActivityResponse";
+import { toGymTime } from "@/utils/gymTime";
+
+export interface ChartBar {
+    /** Short axis label, e.g. "Pn" or "sty" */
+    label: string;
+    /** Full description shown when the bar is inspected */
+    detail: string;
+    /** Training minutes in the bucket */
+    value: number;
+}
+
+const DAY_LABELS = ['Pn', 'Wt', 'Śr', 'Cz', 'Pt', 'So', 'Nd'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDayMonth = (date: Date): string =>
+    date.toLocaleDateString('pl-PL', { day: '2-digit', month: '2-digit' });
+
+const startOfDay = (date: Date): Date =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Sums activity minutes into buckets
+ * @param activities - Activities to aggregate
+ * @param bucketCount - Number of buckets
+ * @param getBucket - Returns the bucket index of an activity start in gym time, or -1 to skip it
+ */
+const sumMinutes = (
+    activities: ActivityResponse[],
+    bucketCount: number,
+    getBucket: (start: Date) => number
+): number[] => {
+    const totals = new Array<number>(bucketCount).fill(0);
+    activities.forEach(activity => {
+        const index = getBucket(toGymTime(new Date(activity.startTime)));
+        if (index >= 0 && index < bucketCount) {
+            totals[index] += activity.durationMinutes;
+        }
+    });
+    return totals;
+};
+
+/**
+ * Minutes per day of the week, Monday to Sunday
+ * @param activities - Activities of the week
+ * @param weekStart - Monday of the week as a gym calendar date
+ */
+export const buildWeekBars = (activities: ActivityResponse[], weekStart: Date): ChartBar[] => {
+    const monday = startOfDay(weekStart);
+    const totals = sumMinutes(activities, 7, start =>
+        Math.round((startOfDay(start).getTime() - monday.getTime()) / DAY_MS)
+    );
+
+    return totals.map((value, index) => {
+        const day = new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + index);
+        return {
+            label: DAY_LABELS[index],
+            detail: `${day.toLocaleDateString('pl-PL', { weekday: 'long' })}, ${formatDayMonth(day)}`,
+            value,
+        };
+    });
+};
+
+/**
+ * Minutes per week of the month. Weeks run Monday to Sunday,
+ * the first and last one are cut to the month boundaries.
+ * @param activities - Activities of the month
+ * @param monthStart - First day of the month as a gym calendar date
+ */
+export const buildMonthBars = (activities: ActivityResponse[], monthStart: Date): ChartBar[] => {
+    const year = monthStart.getFullYear();
+    const month = monthStart.getMonth();
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+    // Monday-based index of the first day (0 = Monday)
+    const firstWeekday = (new Date(year, month, 1).getDay() + 6) % 7;
+    const weekCount = Math.ceil((firstWeekday + daysInMonth) / 7);
+
+    const getWeekIndex = (dayOfMonth: number) => Math.floor((firstWeekday + dayOfMonth - 1) / 7);
+
+    const totals = sumMinutes(activities, weekCount, start =>
+        start.getFullYear() === year && start.getMonth() === month ? getWeekIndex(start.getDate()) : -1
+    );
+
+    return totals.map((value, index) => {
+        const firstDay = Math.max(1, index * 7 - firstWeekday + 1);
+        const lastDay = Math.min(daysInMonth, (index + 1) * 7 - firstWeekday);
+        return {
+            label: `${firstDay}-${lastDay}`,
+            detail: `${formatDayMonth(new Date(year, month, firstDay))} – ${formatDayMonth(new Date(year, month, lastDay))}`,
+            value,
+        };
+    });
+};
+
+export const TREND_MONTHS = 12;
+
+/**
+ * First days of the months shown in the 12-month trend, oldest first, including the current one
+ * @param now - Reference instant
+ * @returns Gym calendar dates
+ */
+export const getTrendMonthStarts = (now: Date = new Date()): Date[] => {
+    const gymNow = toGymTime(now);
+    return Array.from({ length: TREND_MONTHS }, (_, index) =>
+        new Date(gymNow.getFullYear(), gymNow.getMonth() - TREND_MONTHS + 1 + index, 1)
+    );
+};
+
+/**
+ * Minutes per month for the last 12 months, including the current one
+ * @param monthlyMinutes - Training minutes of the months from getTrendMonthStarts, oldest first
+ * @param now - Reference instant
+ */
+export const buildYearTrendBars = (monthlyMinutes: number[], now: Date = new Date()): ChartBar[] =>
+    getTrendMonthStarts(now).map((monthDate, index) => ({
+        label: monthDate.toLocaleDateString('pl-PL', { month: 'short' }).replace('.', ''),
+        detail: monthDate.toLocaleDateString('pl-PL', { month: 'long', year: 'numeric' }),
+        value: monthlyMinutes[index] ?? 0,
+    }));
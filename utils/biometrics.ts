@@ -0,0 +1,72 @@
+import * as LocalAuthentication from 'expo-local-authentication';
+import * as SecureStore from 'expo-secure-store';
+
+const BIOMETRIC_ENABLED_KEY = 'biometricEnabled';
+// Time in background after which the stored session has to be unlocked again
+export const BIOMETRIC_LOCK_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * Checks whether the device has biometric hardware with an enrolled face or fingerprint
+ */
+export const isBiometricAvailable = async (): Promise<boolean> => {
+    try {
+        const [hasHardware, isEnrolled] = await Promise.all([
+            LocalAuthentication.hasHardwareAsync(),
+            LocalAuthentication.isEnrolledAsync(),
+        ]);
+        return hasHardware && isEnrolled;
+    } catch (error) {
+        console.error('Error checking biometric availability:', error);
+        return false;
+    }
+};
+
+/**
+ * Returns a user facing name of the available biometric method
+ */
+export const getBiometricLabel = async (): Promise<string> => {
+    try {
+        const types = await LocalAuthentication.supportedAuthenticationTypesAsync();
+        if (types.includes(LocalAuthentication.AuthenticationType.FACIAL_RECOGNITION)) {
+            return 'Face ID';
+        }
+        if (types.includes(LocalAuthentication.AuthenticationType.FINGERPRINT)) {
+            return 'odcisk palca';
+        }
+    } catch (error) {
+        console.error('Error reading biometric types:', error);
+    }
+    return 'biometria';
+};
+
+export const getBiometricEnabled = async (): Promise<boolean> => {
+    return (await SecureStore.getItemAsync(BIOMETRIC_ENABLED_KEY)) === 'true';
+};
+
+export const saveBiometricEnabled = async (enabled: boolean): Promise<void> => {
+    if (enabled) {
+        await SecureStore.setItemAsync(BIOMETRIC_ENABLED_KEY, 'true');
+    } else {
+        await SecureStore.deleteItemAsync(BIOMETRIC_ENABLED_KEY);
+    }
+};
+
+/**
+ * Shows the system biometric prompt. The device passcode is not accepted as a fallback,
+ * the app offers password login instead.
+ * @param promptMessage - Message shown in the system prompt
+ * @returns True when the user was recognised
+ */
+export const authenticateWithBiometrics = async (promptMessage: string): Promise<boolean> => {
+    try {
+        const result = await LocalAuthentication.authenticateAsync({
+            promptMessage,
+            cancelLabel: 'Anuluj',
+            disableDeviceFallback: true,
+        });
+        return result.success;
+    } catch (error) {
+        console.error('Biometric authentication error:', error);
+        return false;
+    }
+};
@@ -0,0 +1,43 @@
+import { addDays, addMonths, addWeeks, differenceInCalendarDays, startOfDay } from 'date-fns';
+import { Membership } from "@/types/Membership";
+import { MembershipType } from "@/types/MembershipType";
+import { PaymentMethod } from "@/types/Payment";
+import { parseGymDate, toGymTime } from "@/utils/gymTime";
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+    card: 'Karta płatnicza',
+    blik: 'BLIK',
+    transfer: 'Szybki przelew',
+};
+
+/**
+ * First day of a newly bought membership. A time based membership that is still valid
+ * is extended, so the new one starts the day after it expires, otherwise it starts today.
+ * @param membership - Current membership of the user
+ * @param now - Reference instant
+ * @returns Gym calendar date
+ */
+export const getPurchaseStartDate = (membership: Membership | null, now: Date = new Date()): Date => {
+    const today = startOfDay(toGymTime(now));
+    const expiry = membership?.isActive && membership.expiryDate ? parseGymDate(membership.expiryDate) : null;
+
+    if (expiry && differenceInCalendarDays(expiry, today) >= 0) {
+        return addDays(expiry, 1);
+    }
+    return today;
+};
+
+/**
+ * Last valid day of a membership type bought from the start date
+ * @param type - Bought membership type
+ * @param startDate - First day of the membership
+ * @returns Gym calendar date, or null for entry based types without a duration
+ */
+export const getPurchaseExpiryDate = (type: MembershipType, startDate: Date): Date | null => {
+    const months = type.durationMonths || 0;
+    const weeks = type.durationWeeks || 0;
+    if (months === 0 && weeks === 0) {
+        return null;
+    }
+    return addDays(addWeeks(addMonths(startDate, months), weeks), -1);
+};
@@ -0,0 +1,162 @@
+import * as Notifications from 'expo-notifications';
+import { Booking } from "@/types/Booking";
+import { getUserBookings } from "@/api/booking";
+import { formatTime } from "@/utils/formatters";
+import { getClassStart, parseGymDate } from "@/utils/gymTime";
+
+export const DEFAULT_REMINDER_MINUTES = 60;
+
+const REMINDER_ID_PREFIX = 'class-reminder-';
+const RECONCILE_PAGE_SIZE = 20;
+const RECONCILE_MAX_PAGES = 5;
+
+/**
+ * Builds a stable notification identifier for a booking,
+ * so rescheduling replaces the previous reminder instead of duplicating it
+ * @param bookingId - Booking identifier
+ */
+const getReminderId = (bookingId: string): string => `${REMINDER_ID_PREFIX}${bookingId}`;
+
+/**
+ * Combines booking class date with schedule start time, both given in gym time
+ * @param booking - Booking with classDate and schedule.startTime
+ * @returns Instant of the class start, or null if the data cannot be parsed
+ */
+export const getClassStartDate = (booking: Booking): Date | null => {
+    const classDay = parseGymDate(booking.classDate);
+    return classDay ? getClassStart(classDay, booking.schedule.startTime) : null;
+};
+
+/**
+ * Schedules a local reminder before the class of the given booking.
+ * Cancelled bookings and classes whose reminder time already passed are skipped.
+ * @param booking - Booking to remind about
+ * @param minutesBefore - How many minutes before the class the reminder fires
+ */
+export async function scheduleClassReminder(
+    booking: Booking,
+    minutesBefore: number = DEFAULT_REMINDER_MINUTES
+): Promise<void> {
+    try {
+        if (booking.isCancelled) {
+            await cancelClassReminder(booking.id);
+            return;
+        }
+
+        const classStart = getClassStartDate(booking);
+        if (!classStart) {
+            console.warn('Nie można ustalić godziny zajęć dla rezerwacji:', booking.id);
+            return;
+        }
+
+        const triggerDate = new Date(classStart.getTime() - minutesBefore * 60 * 1000);
+        if (triggerDate.getTime() <= Date.now()) {
+            return;
+        }
+
+        await Notifications.scheduleNotificationAsync({
+            identifier: getReminderId(booking.id),
+            content: {
+                title: `Zajęcia ${booking.schedule.name} już wkrótce ⏰`,
+                body: `Start o ${formatTime(booking.schedule.startTime)}. Do zobaczenia na sali!`,
+                sound: true,
+                priority: Notifications.AndroidNotificationPriority.HIGH,
+                data: {
+                    type: 'class_reminder',
+                    bookingId: booking.id,
+                    classStart: classStart.toISOString(),
+                },
+            },
+            trigger: {
+                type: Notifications.SchedulableTriggerInputTypes.DATE,
+                date: triggerDate,
+                channelId: 'classes',
+            },
+        });
+    } catch (error) {
+        console.error('Błąd planowania przypomnienia o zajęciach:', error);
+    }
+}
+
+/**
+ * Cancels the reminder of a booking, if one was scheduled
+ * @param bookingId - Booking identifier
+ */
+export async function cancelClassReminder(bookingId: string): Promise<void> {
+    try {
+        await Notifications.cancelScheduledNotificationAsync(getReminderId(bookingId));
+    } catch (error) {
+        console.error('Błąd anulowania przypomnienia o zajęciach:', error);
+    }
+}
+
+/**
+ * Schedules or cancels reminders for a loaded page of bookings.
+ * Reminders of bookings outside the page are left untouched.
+ * @param bookings - Bookings returned by the API
+ */
+export async function syncClassReminders(bookings: Booking[]): Promise<void> {
+    await Promise.all(bookings.map(booking => scheduleClassReminder(booking)));
+}
+
+/**
+ * Cancels every scheduled class reminder, e.g. after logout
+ */
+export async function clearClassReminders(): Promise<void> {
+    try {
+        const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+        await Promise.all(
+            scheduled
+                .filter(request => request.identifier.startsWith(REMINDER_ID_PREFIX))
+                .map(request => Notifications.cancelScheduledNotificationAsync(request.identifier))
+        );
+    } catch (error) {
+        console.error('Błąd czyszczenia przypomnień o zajęciach:', error);
+    }
+}
+
+/**
+ * Brings scheduled reminders in line with the bookings on the server.
+ * Removes reminders of bookings that were cancelled or no longer exist
+ * and schedules the missing ones. Meant to be called on app start.
+ * When the bookings do not fit in the paging limit, only reminders of loaded
+ * cancelled bookings are removed, since the rest may belong to bookings not loaded.
+ */
+export async function reconcileClassReminders(): Promise<void> {
+    try {
+        const bookings: Booking[] = [];
+        let complete = false;
+        for (let page = 0; page < RECONCILE_MAX_PAGES && !complete; page++) {
+            const bookingsData = await getUserBookings({ page, size: RECONCILE_PAGE_SIZE });
+            bookings.push(...bookingsData.content);
+            complete = bookingsData.last;
+        }
+
+        const activeIds = new Set(
+            bookings.filter(booking => !booking.isCancelled).map(booking => getReminderId(booking.id))
+        );
+        const cancelledIds = new Set(
+            bookings.filter(booking => booking.isCancelled).map(booking => getReminderId(booking.id))
+        );
+
+        const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+        const stale = scheduled.filter(request =>
+            request.identifier.startsWith(REMINDER_ID_PREFIX) && (complete
+                ? !activeIds.has(request.identifier)
+                : cancelledIds.has(request.identifier))
+        );
+
+        await Promise.all(
+            stale.map(request => Notifications.cancelScheduledNotificationAsync(request.identifier))
+        );
+        await syncClassReminders(bookings);
+
+        console.log('Przypomnienia o zajęciach uzgodnione:', {
+            bookings: bookings.length,
+            complete,
+            removed: stale.length,
+        });
+    } catch (error) {
+        console.error('Błąd uzgadniania przypomnień o zajęciach:', error);
+    }
+}
@@ -0,0 +1,13 @@
+import { EntryLedgerItem, EntrySource } from "@/types/EntryLedger";
+
+export const ENTRY_SOURCE_LABELS: Record<EntrySource, string> = {
+    GYM_VISIT: 'Wejście na siłownię',
+    CLASS_BOOKING: 'Zajęcia grupowe',
+    RECEPTION: 'Recepcja',
+};
+
+/**
+ * Entries given back after an accepted dispute no longer count as used
+ * @param item - Ledger entry
+ */
+export const isEntryRefunded = (item: EntryLedgerItem): boolean => item.disputeStatus === 'ACCEPTED';
@@ -96,4 +96,11 @@ export const formatDate = (date: Date) =>
 export const formatTime = (timeString: string): string => {
     const [hours, minutes] = timeString.split(':');
     return `${hours.padStart(2, '0')}:${minutes.padStart(2, '0')}`;
-};
\ No newline at end of file
+};
+
+/**
+ * Formats a number of days with the matching Polish form
+ * @param days - Number of days
+ * @returns Formatted string (e.g., "1 dzień" or "5 dni")
+ */
+export const formatDays = (days: number): string => `${days} ${days === 1 ? 'dzień' : 'dni'}`;
@@ -0,0 +1,115 @@
+import { addDays, addWeeks, format, setISOWeek, startOfISOWeek, startOfMonth } from 'date-fns';
+import { fromZonedTime, toZonedTime } from 'date-fns-tz';
+
+/**
+ * Gym related dates (schedule weeks, class starts, stats windows) follow the gym's clock,
+ * not the device's, so members travelling abroad see the same weeks and classes as at home.
+ *
+ * Two kinds of Date values are used here:
+ * - instants: real points in time, e.g. a class start compared with Date.now(),
+ * - gym calendar dates: Dates whose local fields (getFullYear, getDate, getHours...) hold the
+ *   gym's wall-clock time. They are only meant for calendar arithmetic and labels.
+ */
+export const GYM_TIME_ZONE = 'Europe/Warsaw';
+
+const WEEK_DAYS = ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY'];
+
+/**
+ * Converts an instant to a gym calendar date
+ * @param date - Instant
+ */
+export const toGymTime = (date: Date): Date => toZonedTime(date, GYM_TIME_ZONE);
+
+/**
+ * Converts a gym calendar date back to an instant
+ * @param gymDate - Gym calendar date
+ */
+export const fromGymTime = (gymDate: Date): Date =>
+    // A string keeps the wall-clock time away from the device timezone and its DST gaps
+    fromZonedTime(format(gymDate, "yyyy-MM-dd'T'HH:mm:ss"), GYM_TIME_ZONE);
+
+/**
+ * Formats a gym calendar date as "YYYY-MM-DD", the format of API date params
+ * @param gymDate - Gym calendar date
+ */
+export const formatGymDate = (gymDate: Date): string => format(gymDate, 'yyyy-MM-dd');
+
+/**
+ * Reads the day of a server date ("YYYY-MM-DD" or a timestamp starting with it)
+ * as a gym calendar date, without shifting it to the device timezone
+ * @param dateString - Date from the API
+ * @returns Gym calendar date at midnight, or null if the string is not a date
+ */
+export const parseGymDate = (dateString: string): Date | null => {
+    const [year, month, day] = dateString.split('T')[0].split('-').map(Number);
+    if ([year, month, day].some(isNaN)) {
+        return null;
+    }
+    return new Date(year, month - 1, day);
+};
+
+/**
+ * Monday 00:00 of the gym week containing the instant
+ * @param date - Instant, now by default
+ * @returns Gym calendar date
+ */
+export const getGymWeekStart = (date: Date = new Date()): Date => startOfISOWeek(toGymTime(date));
+
+/**
+ * First day 00:00 of the gym month containing the instant
+ * @param date - Instant, now by default
+ * @returns Gym calendar date
+ */
+export const getGymMonthStart = (date: Date = new Date()): Date => startOfMonth(toGymTime(date));
+
+/**
+ * Monday of an ISO week
+ * @param yearWeek - String in format "YYYY-WW"
+ * @returns Gym calendar date of the Monday
+ */
+export const getMondayOfYearWeek = (yearWeek: string): Date => {
+    const [year, week] = yearWeek.split('-').map(Number);
+    // January 4th always lies in ISO week 1
+    return startOfISOWeek(setISOWeek(new Date(year, 0, 4), week));
+};
+
+/**
+ * Moves a year-week string by a number of weeks, crossing year boundaries
+ * @param yearWeek - String in format "YYYY-WW"
+ * @param offset - Number of weeks to move (negative for past weeks)
+ * @returns Shifted year-week string in format "YYYY-WW"
+ */
+export const shiftYearWeek = (yearWeek: string, offset: number): string =>
+    format(addWeeks(getMondayOfYearWeek(yearWeek), offset), 'RRRR-II');
+
+/**
+ * Builds the start instant of a class from its gym day and wall-clock start time
+ * @param gymDate - Gym calendar date of the class
+ * @param startTime - Start time in format "HH:mm" or "HH:mm:ss"
+ * @returns Instant of the class start, or null if the time cannot be parsed
+ */
+export const getClassStart = (gymDate: Date, startTime: string): Date | null => {
+    const [hours, minutes] = startTime.split(':').map(Number);
+    if ([hours, minutes].some(isNaN) || isNaN(gymDate.getTime())) {
+        return null;
+    }
+
+    // A string keeps the wall-clock time away from the device timezone and its DST gaps
+    const wallClock = `${formatGymDate(gymDate)}T${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:00`;
+    return fromZonedTime(wallClock, GYM_TIME_ZONE);
+};
+
+/**
+ * Start instant of a weekly schedule class in the given week
+ * @param yearWeek - String in format "YYYY-WW"
+ * @param dayOfWeek - Day name, e.g. "MONDAY"
+ * @param startTime - Start time in format "HH:mm"
+ * @returns Instant of the class start, or null for an unknown day or time
+ */
+export const getScheduleClassStart = (yearWeek: string, dayOfWeek: string, startTime: string): Date | null => {
+    const dayIndex = WEEK_DAYS.indexOf(dayOfWeek);
+    if (dayIndex === -1) {
+        return null;
+    }
+    return getClassStart(addDays(getMondayOfYearWeek(yearWeek), dayIndex), startTime);
+};
@@ -0,0 +1,163 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Booking } from "@/types/Booking";
+import { getClassStartDate } from "@/utils/classReminders";
+
+export type CalendarMethod = 'PUBLISH' | 'CANCEL';
+
+// Schedule entries carry only a start time, so every class is assumed to last this long
+const CLASS_DURATION_MINUTES = 60;
+const MAX_LINE_OCTETS = 75;
+
+const PRODUCT_ID = '-//JodoGym//JodoApp//PL';
+const UID_DOMAIN = 'jodogym.pl';
+const LOCATION = 'Jodo Gym';
+
+/**
+ * Escapes TEXT property values (RFC 5545, section 3.3.11)
+ * @param value - Raw text
+ */
+const escapeText = (value: string): string =>
+    value
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+
+/**
+ * Returns the number of UTF-8 octets needed to encode a code point
+ * @param codePoint - Unicode code point
+ */
+const utf8Length = (codePoint: number): number => {
+    if (codePoint < 0x80) return 1;
+    if (codePoint < 0x800) return 2;
+    if (codePoint < 0x10000) return 3;
+    return 4;
+};
+
+/**
+ * Folds a content line so no physical line exceeds 75 octets (RFC 5545, section 3.1).
+ * Splits only between code points, so multi-byte characters are never broken.
+ * @param line - Unfolded content line
+ */
+const foldLine = (line: string): string => {
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+
+    for (const char of line) {
+        const charOctets = utf8Length(char.codePointAt(0)!);
+        // Continuation lines start with a space, which counts towards the limit
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+        if (octets + charOctets > limit) {
+            parts.push(current);
+            current = '';
+            octets = 0;
+        }
+
+        current += char;
+        octets += charOctets;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+};
+
+/**
+ * Formats a date as a UTC DATE-TIME value, e.g. 20250101T170000Z
+ * @param date - Date to format
+ */
+const formatUtc = (date: Date): string =>
+    date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Builds the UID of a booking event. It stays the same across exports,
+ * so calendars update or cancel the existing event instead of adding a new one.
+ * @param bookingId - Booking identifier
+ */
+export const getBookingEventUid = (bookingId: string): string => `booking-${bookingId}@${UID_DOMAIN}`;
+
+/**
+ * Builds VEVENT lines for a single booking
+ * @param booking - Booking to convert
+ * @param method - PUBLISH for an active event, CANCEL for a cancelled one
+ * @param stamp - DTSTAMP shared by all events of one calendar
+ * @returns Unfolded content lines, or an empty list if the class date is invalid
+ */
+const buildEventLines = (booking: Booking, method: CalendarMethod, stamp: Date): string[] => {
+    const start = getClassStartDate(booking);
+    if (!start) {
+        console.warn('Pomijam rezerwację z nieprawidłową datą:', booking.id);
+        return [];
+    }
+
+    const end = new Date(start.getTime() + CLASS_DURATION_MINUTES * 60 * 1000);
+    const isCancel = method === 'CANCEL';
+
+    return [
+        'BEGIN:VEVENT',
+        `UID:${getBookingEventUid(booking.id)}`,
+        `DTSTAMP:${formatUtc(stamp)}`,
+        `DTSTART:${formatUtc(start)}`,
+        `DTEND:${formatUtc(end)}`,
+        // A cancellation must carry a higher sequence than the event it cancels
+        `SEQUENCE:${isCancel ? 1 : 0}`,
+        `SUMMARY:${escapeText(booking.schedule.name)}`,
+        `LOCATION:${escapeText(LOCATION)}`,
+        `STATUS:${isCancel ? 'CANCELLED' : 'CONFIRMED'}`,
+        'END:VEVENT',
+    ];
+};
+
+/**
+ * Generates an iCalendar (RFC 5545) document with one VEVENT per booking
+ * @param bookings - Bookings to include
+ * @param method - PUBLISH to add events, CANCEL to remove previously exported ones
+ * @returns iCalendar document with CRLF line endings
+ */
+export const buildBookingsCalendar = (bookings: Booking[], method: CalendarMethod = 'PUBLISH'): string => {
+    const stamp = new Date();
+
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        `METHOD:${method}`,
+        ...bookings.flatMap(booking => buildEventLines(booking, method, stamp)),
+        'END:VCALENDAR',
+    ];
+
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Writes bookings to an .ics file and opens the system share sheet,
+ * from which the user can add the events to their calendar
+ * @param bookings - Bookings to export
+ * @param method - PUBLISH to add events, CANCEL to remove them
+ * @param fileName - Name of the file without extension
+ */
+export async function shareBookingsCalendar(
+    bookings: Booking[],
+    method: CalendarMethod = 'PUBLISH',
+    fileName: string = 'jodogym-zajecia'
+): Promise<void> {
+    if (!(await Sharing.isAvailableAsync())) {
+        throw new Error('Udostępnianie plików nie jest dostępne na tym urządzeniu');
+    }
+
+    const file = new File(Paths.cache, `${fileName}.ics`);
+    if (file.exists) {
+        file.delete();
+    }
+    file.create();
+    file.write(buildBookingsCalendar(bookings, method));
+
+    await Sharing.shareAsync(file.uri, {
+        mimeType: 'text/calendar',
+        UTI: 'public.calendar-event',
+        dialogTitle: method === 'CANCEL' ? 'Usuń z kalendarza' : 'Dodaj do kalendarza',
+    });
+}
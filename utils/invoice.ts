@@ -0,0 +1,212 @@
+import { Platform } from 'react-native';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import axios from 'axios';
+import { Directory, File, Paths } from 'expo-file-system';
+import { getPurchaseInvoice } from "@/api/purchase";
+import { MembershipPurchase } from "@/types/MembershipPurchase";
+import { UserInfo } from "@/types/UserInfo";
+import { formatDate, formatDuration, formatPrice } from "@/utils/formatters";
+
+export interface VatBreakdown {
+    net: number;
+    vat: number;
+    gross: number;
+    /** Rate as a fraction, e.g. 0.08 */
+    rate: number;
+}
+
+export interface InvoiceFile {
+    file: File;
+    /** True when the API had no invoice and a local purchase confirmation was rendered instead */
+    isReceipt: boolean;
+}
+
+const SELLER_NAME = 'JodoGym';
+const NIP_WEIGHTS = [6, 5, 7, 2, 3, 4, 5, 6, 7];
+
+/**
+ * Checks the format and the checksum of a Polish NIP
+ * @param nip - NIP with or without dashes and spaces
+ */
+export const isValidNip = (nip: string): boolean => {
+    const digits = nip.replace(/[\s-]/g, '');
+    if (!/^\d{10}$/.test(digits)) {
+        return false;
+    }
+    const checksum = NIP_WEIGHTS.reduce((sum, weight, index) => sum + weight * Number(digits[index]), 0) % 11;
+    return checksum === Number(digits[9]);
+};
+
+/**
+ * Splits a gross price into net and VAT, rounded to grosze so the parts add up to the price
+ * @param gross - Price paid, VAT included
+ * @param rate - VAT rate of the purchase as a fraction
+ */
+export const getVatBreakdown = (gross: number, rate: number): VatBreakdown => {
+    const grossCents = Math.round(gross * 100);
+    const netCents = Math.round(grossCents / (1 + rate));
+    return {
+        net: netCents / 100,
+        vat: (grossCents - netCents) / 100,
+        gross: grossCents / 100,
+        rate,
+    };
+};
+
+/**
+ * The API answers 404 while the invoice of a purchase is not issued yet
+ * @param error - Error thrown by getPurchaseInvoice
+ */
+const isInvoiceNotIssued = (error: unknown): boolean =>
+    axios.isAxiosError(error) && error.response?.status === 404;
+
+const escapeHtml = (text: string): string =>
+    text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+
+/**
+ * Renders a purchase confirmation with the VAT breakdown for expo-print
+ * @param purchase - Purchase to describe
+ * @param userInfo - Buyer, the billing details are used when present
+ */
+export const buildReceiptHtml = (purchase: MembershipPurchase, userInfo: UserInfo | null): string => {
+    const { net, vat, gross, rate } = getVatBreakdown(purchase.price, purchase.vatRate);
+    const billing = userInfo?.billingDetails;
+    const buyerLines = billing
+        ? [billing.companyName, billing.address, `NIP: ${billing.nip}`]
+        : userInfo ? [`${userInfo.firstName} ${userInfo.lastName}`] : [];
+
+    return `<!DOCTYPE html>
+<html lang="pl">
+<head>
+<meta charset="utf-8" />
+<style>
+    body { font-family: Helvetica, Arial, sans-serif; color: #000; padding: 32px; font-size: 13px; }
+    h1 { font-size: 22px; margin: 0 0 4px; }
+    .muted { color: #666; }
+    .parties { display: flex; justify-content: space-between; margin: 28px 0; }
+    table { width: 100%; border-collapse: collapse; margin-top: 12px; }
+    th, td { border-bottom: 1px solid #ddd; padding: 8px; text-align: left; }
+    th { background: #fff7cc; }
+    .amount { text-align: right; }
+    .total td { font-weight: bold; border-bottom: none; }
+    .note { margin-top: 32px; font-size: 11px; color: #666; }
+</style>
+</head>
+<body>
+    <h1>Potwierdzenie zakupu</h1>
+    <div class="muted">Nr ${escapeHtml(purchase.id.slice(-8).toUpperCase())} z dnia ${formatDate(new Date(purchase.purchaseDate))}</div>
+
+    <div class="parties">
+        <div>
+            <div class="muted">Sprzedawca</div>
+            <strong>${SELLER_NAME}</strong>
+        </div>
+        <div>
+            <div class="muted">Nabywca</div>
+            ${buyerLines.map(line => `<div>${escapeHtml(line)}</div>`).join('')}
+        </div>
+    </div>
+
+    <table>
+        <tr>
+            <th>Nazwa</th>
+            <th>Okres</th>
+            <th class="amount">Netto</th>
+            <th class="amount">VAT ${Math.round(rate * 100)}%</th>
+            <th class="amount">Brutto</th>
+        </tr>
+        <tr>
+            <td>${escapeHtml(purchase.typeName)}</td>
+            <td>${escapeHtml(formatDuration(purchase))}</td>
+            <td class="amount">${formatPrice(net)} zł</td>
+            <td class="amount">${formatPrice(vat)} zł</td>
+            <td class="amount">${formatPrice(gross)} zł</td>
+        </tr>
+        <tr class="total">
+            <td colspan="4">Razem do zapłaty</td>
+            <td class="amount">${formatPrice(gross)} zł</td>
+        </tr>
+    </table>
+
+    <div class="note">
+        Dokument wygenerowany w aplikacji ${SELLER_NAME}. Nie jest fakturą VAT, fakturę wystawia recepcja.
+    </div>
+</body>
+</html>`;
+};
+
+/**
+ * Prepares the invoice PDF of a purchase in the cache directory. The invoice comes from
+ * the API, when it is not issued yet a purchase confirmation is rendered on the device.
+ * Other API errors are thrown, so the user never mistakes them for a missing invoice.
+ * @param purchase - Purchase to document
+ * @param userInfo - Buyer data for the local confirmation
+ */
+export const getInvoiceFile = async (purchase: MembershipPurchase, userInfo: UserInfo | null): Promise<InvoiceFile> => {
+    const fileName = `jodogym-${purchase.id.slice(-8).toLowerCase()}`;
+
+    try {
+        const data = await getPurchaseInvoice(purchase.id);
+        const file = new File(Paths.cache, `faktura-${fileName}.pdf`);
+        file.create({ overwrite: true });
+        file.write(new Uint8Array(data));
+        return { file, isReceipt: false };
+    } catch (error) {
+        if (!isInvoiceNotIssued(error)) {
+            throw error;
+        }
+        console.log('Invoice not issued yet, rendering purchase confirmation');
+    }
+
+    const { uri } = await Print.printToFileAsync({ html: buildReceiptHtml(purchase, userInfo) });
+    const file = new File(Paths.cache, `potwierdzenie-${fileName}.pdf`);
+    if (file.exists) {
+        file.delete();
+    }
+    new File(uri).move(file);
+    return { file, isReceipt: true };
+};
+
+/**
+ * Opens the system share sheet with the invoice PDF
+ * @param invoice - Prepared invoice file
+ */
+export async function shareInvoice(invoice: InvoiceFile): Promise<void> {
+    if (!(await Sharing.isAvailableAsync())) {
+        throw new Error('Udostępnianie plików nie jest dostępne na tym urządzeniu');
+    }
+
+    await Sharing.shareAsync(invoice.file.uri, {
+        mimeType: 'application/pdf',
+        UTI: 'com.adobe.pdf',
+        dialogTitle: invoice.isReceipt ? 'Potwierdzenie zakupu' : 'Faktura',
+    });
+}
+
+/**
+ * Saves the invoice PDF in a folder chosen by the user. iOS has no folder picker
+ * with lasting access, there the share sheet offers "Zapisz w Plikach" instead.
+ * @param invoice - Prepared invoice file
+ * @returns False when the user closed the folder picker
+ */
+export async function saveInvoice(invoice: InvoiceFile): Promise<boolean> {
+    if (Platform.OS !== 'android') {
+        await shareInvoice(invoice);
+        return true;
+    }
+
+    // The picker rejects when it is closed without a choice
+    const directory = await Directory.pickDirectoryAsync().catch(() => null);
+    if (!directory) {
+        return false;
+    }
+
+    const target = directory.createFile(invoice.file.name, 'application/pdf');
+    target.write(await invoice.file.bytes());
+    return true;
+}
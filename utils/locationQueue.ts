@@ -0,0 +1,162 @@
+import axios from 'axios';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { updateLocation } from "@/api/activity";
+import { LocationRequest } from "@/types/LocationRequest";
+import { LocationResponse } from "@/types/LocationResponse";
+
+const LOCATION_QUEUE_KEY = 'tracking_location_queue';
+
+// At one sample per 3 minutes this covers more than a day offline
+const MAX_QUEUE_SIZE = 500;
+// The server does not accept samples this old, so there is no point in keeping them
+const MAX_SAMPLE_AGE = 24 * 60 * 60 * 1000;
+
+interface QueuedLocationUpdate {
+    userId: string;
+    request: LocationRequest;
+}
+
+let queueLock: Promise<unknown> = Promise.resolve();
+let flushInProgress: Promise<LocationResponse | null> | null = null;
+// Response to the newest sample sent so far, it reflects the current state on the server
+let latestResponse: LocationResponse | null = null;
+
+/**
+ * Runs queue mutations one after another, so the background task
+ * and the foreground tracking never overwrite each other's changes
+ * @param operation - Read-modify-write operation on the queue
+ */
+const withQueueLock = <T>(operation: () => Promise<T>): Promise<T> => {
+    const result = queueLock.then(operation);
+    queueLock = result.catch(() => undefined);
+    return result;
+};
+
+const readQueue = async (): Promise<QueuedLocationUpdate[]> => {
+    try {
+        const stored = await AsyncStorage.getItem(LOCATION_QUEUE_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+        console.warn('Location queue read failed:', error);
+        return [];
+    }
+};
+
+const writeQueue = async (queue: QueuedLocationUpdate[]): Promise<void> => {
+    if (queue.length === 0) {
+        await AsyncStorage.removeItem(LOCATION_QUEUE_KEY);
+    } else {
+        await AsyncStorage.setItem(LOCATION_QUEUE_KEY, JSON.stringify(queue));
+    }
+};
+
+const isExpired = (item: QueuedLocationUpdate): boolean =>
+    !item.request.timestamp || Date.now() - new Date(item.request.timestamp).getTime() > MAX_SAMPLE_AGE;
+
+/**
+ * Retrying makes sense only when the server was not reached or failed on its side.
+ * Any other error status means the sample itself was rejected.
+ * @param error - Error thrown by updateLocation
+ */
+const isRetryable = (error: any): boolean =>
+    axios.isAxiosError(error) && (!error.response || error.response.status >= 500);
+
+/**
+ * Appends a sample to the persistent queue, dropping the oldest ones over the size limit
+ * @param userId - User the sample belongs to
+ * @param request - Location sample with the time it was taken
+ */
+export const enqueueLocationUpdate = (userId: string, request: LocationRequest): Promise<void> =>
+    withQueueLock(async () => {
+        const queue = (await readQueue()).filter(item => !isExpired(item));
+        queue.push({ userId, request });
+        await writeQueue(queue.slice(-MAX_QUEUE_SIZE));
+    });
+
+/**
+ * Checks whether any samples are waiting to be sent
+ */
+export const hasPendingLocationUpdates = async (): Promise<boolean> =>
+    (await readQueue()).length > 0;
+
+const removeHead = (expected: QueuedLocationUpdate): Promise<void> =>
+    withQueueLock(async () => {
+        const queue = await readQueue();
+        const [head] = queue;
+        if (head && head.userId === expected.userId && head.request.timestamp === expected.request.timestamp) {
+            await writeQueue(queue.slice(1));
+        }
+    });
+
+const flush = async (): Promise<LocationResponse | null> => {
+    while (true) {
+        const [head] = await readQueue();
+        if (!head) {
+            return latestResponse;
+        }
+
+        if (isExpired(head)) {
+            console.warn('📭 Location queue: dropping expired sample from', head.request.timestamp);
+            await removeHead(head);
+            continue;
+        }
+
+        try {
+            latestResponse = await updateLocation(head.userId, head.request);
+            await removeHead(head);
+        } catch (error: any) {
+            if (isRetryable(error)) {
+                console.log('📡 Location queue: server unreachable, keeping samples for later');
+                return null;
+            }
+            console.error('⚠️ Location queue: sample rejected by server, dropping it:', {
+                status: error.response?.status,
+                data: error.response?.data,
+                timestamp: head.request.timestamp,
+            });
+            await removeHead(head);
+        }
+    }
+};
+
+/**
+ * Sends queued samples to the server, oldest first, stopping at the first network failure.
+ * Concurrent calls share a single flush.
+ * @returns Response to the newest sent sample if the whole queue was sent, null otherwise
+ */
+export const flushLocationQueue = (): Promise<LocationResponse | null> => {
+    if (!flushInProgress) {
+        flushInProgress = flush().finally(() => {
+            flushInProgress = null;
+        });
+    }
+    return flushInProgress;
+};
+
+/**
+ * Queues a sample behind any pending ones and sends them all in order,
+ * so the server always sees samples in the order they were taken
+ * @param userId - User the sample belongs to
+ * @param request - Location sample with the time it was taken
+ * @returns Latest server response once the sample is sent, or null if it stays queued until connectivity returns
+ */
+export const submitLocationUpdate = async (
+    userId: string,
+    request: LocationRequest
+): Promise<LocationResponse | null> => {
+    await enqueueLocationUpdate(userId, request);
+    if (flushInProgress) {
+        // A running flush may already have passed its last queue read, start over once it ends
+        await flushInProgress;
+    }
+    return flushLocationQueue();
+};
+
+/**
+ * Removes all queued samples, e.g. after logout
+ */
+export const clearLocationQueue = (): Promise<void> =>
+    withQueueLock(async () => {
+        latestResponse = null;
+        await AsyncStorage.removeItem(LOCATION_QUEUE_KEY);
+    });
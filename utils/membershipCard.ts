@@ -0,0 +1,143 @@
+import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+import { CardCode, CardCodeVerification } from "@/types/MembershipCard";
+
+const CARD_SECRET_KEY = 'cardSecret';
+const CARD_CODE_PREFIX = 'JODO1';
+const CARD_CODE_DIGITS = 8;
+const SHA256_BLOCK_SIZE = 64;
+// Codes of neighbouring periods are accepted to tolerate clock drift between devices
+const ALLOWED_DRIFT_STEPS = 1;
+export const CARD_CODE_STEP_SECONDS = 30;
+
+// Last accepted period per membership, used by verifyCardCode to reject replayed codes
+const acceptedSteps = new Map<string, number>();
+
+export const getCardSecret = async (): Promise<string | null> => {
+    return SecureStore.getItemAsync(CARD_SECRET_KEY);
+};
+
+export const saveCardSecret = async (secret: string): Promise<void> => {
+    await SecureStore.setItemAsync(CARD_SECRET_KEY, secret);
+};
+
+export const clearCardSecret = async (): Promise<void> => {
+    await SecureStore.deleteItemAsync(CARD_SECRET_KEY);
+};
+
+/**
+ * Number of the 30 second period containing the instant, as in TOTP
+ * @param now - Reference instant
+ */
+export const getCardCodeStep = (now: Date = new Date()): number =>
+    Math.floor(now.getTime() / 1000 / CARD_CODE_STEP_SECONDS);
+
+/**
+ * Seconds left until the code of the current period rotates
+ * @param now - Reference instant
+ */
+export const getSecondsUntilRotation = (now: Date = new Date()): number =>
+    CARD_CODE_STEP_SECONDS - Math.floor(now.getTime() / 1000) % CARD_CODE_STEP_SECONDS;
+
+const concatBytes = (first: Uint8Array, second: Uint8Array): Uint8Array => {
+    const result = new Uint8Array(first.length + second.length);
+    result.set(first);
+    result.set(second, first.length);
+    return result;
+};
+
+const sha256 = async (data: Uint8Array): Promise<Uint8Array> =>
+    new Uint8Array(await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, data));
+
+/**
+ * HMAC-SHA256 (RFC 2104) built on expo-crypto's digest, which has no HMAC of its own
+ */
+const hmacSha256 = async (key: Uint8Array, message: Uint8Array): Promise<Uint8Array> => {
+    const blockKey = new Uint8Array(SHA256_BLOCK_SIZE);
+    blockKey.set(key.length > SHA256_BLOCK_SIZE ? await sha256(key) : key);
+
+    const innerPad = blockKey.map(byte => byte ^ 0x36);
+    const outerPad = blockKey.map(byte => byte ^ 0x5c);
+    const innerHash = await sha256(concatBytes(innerPad, message));
+    return sha256(concatBytes(outerPad, innerHash));
+};
+
+/**
+ * Code of a membership in the given period, derived like HOTP (RFC 4226)
+ * with the membership id bound into the signed message
+ */
+const computeCode = async (secret: string, membershipId: string, step: number): Promise<string> => {
+    const encoder = new TextEncoder();
+    const mac = await hmacSha256(encoder.encode(secret), encoder.encode(`${membershipId}:${step}`));
+
+    // Dynamic truncation
+    const offset = mac[mac.length - 1] & 0x0f;
+    const binary = ((mac[offset] & 0x7f) << 24)
+        | (mac[offset + 1] << 16)
+        | (mac[offset + 2] << 8)
+        | mac[offset + 3];
+    return String(binary % 10 ** CARD_CODE_DIGITS).padStart(CARD_CODE_DIGITS, '0');
+};
+
+/**
+ * Builds the QR payload of the membership card. Works offline, only the secret
+ * provisioned at login and the device clock are needed.
+ * @param membershipId - Membership shown on the card
+ * @param secret - Card secret from login
+ * @param now - Reference instant
+ * @returns Payload in format "JODO1:<membershipId>:<step>:<code>"
+ */
+export const generateCardCode = async (membershipId: string, secret: string, now: Date = new Date()): Promise<string> => {
+    const step = getCardCodeStep(now);
+    const code = await computeCode(secret, membershipId, step);
+    return [CARD_CODE_PREFIX, membershipId, step, code].join(':');
+};
+
+/**
+ * Reads a scanned QR payload, so the reception can look up the membership's secret
+ * @param payload - Scanned text
+ * @returns Parsed code, or null when it is not a membership card code
+ */
+export const parseCardCode = (payload: string): CardCode | null => {
+    const parts = payload.split(':');
+    if (parts.length !== 4 || parts[0] !== CARD_CODE_PREFIX) {
+        return null;
+    }
+
+    const [, membershipId, stepText, code] = parts;
+    const step = Number(stepText);
+    if (!membershipId || !Number.isInteger(step) || !new RegExp(`^\\d{${CARD_CODE_DIGITS}}$`).test(code)) {
+        return null;
+    }
+    return { membershipId, step, code };
+};
+
+/**
+ * Validates a scanned card code on the reception side. An accepted code, or any
+ * code older than it, is rejected afterwards, so a photo of the QR cannot be reused.
+ * @param payload - Scanned text
+ * @param secret - Card secret of the membership from the payload
+ * @param now - Reference instant
+ */
+export const verifyCardCode = async (payload: string, secret: string, now: Date = new Date()): Promise<CardCodeVerification> => {
+    const cardCode = parseCardCode(payload);
+    if (!cardCode) {
+        return { status: 'malformed' };
+    }
+
+    const { membershipId, step, code } = cardCode;
+    if (Math.abs(getCardCodeStep(now) - step) > ALLOWED_DRIFT_STEPS) {
+        return { status: 'expired', membershipId };
+    }
+    if (code !== await computeCode(secret, membershipId, step)) {
+        return { status: 'invalid', membershipId };
+    }
+
+    const lastAcceptedStep = acceptedSteps.get(membershipId);
+    if (lastAcceptedStep !== undefined && step <= lastAcceptedStep) {
+        return { status: 'replayed', membershipId };
+    }
+
+    acceptedSteps.set(membershipId, step);
+    return { status: 'valid', membershipId };
+};
@@ -0,0 +1,61 @@
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns';
+import { FreezeRules } from "@/types/MembershipFreeze";
+import { formatDays } from "@/utils/formatters";
+import { parseGymDate, toGymTime } from "@/utils/gymTime";
+
+/**
+ * Counts frozen days, both the first and the last day included
+ * @param start - First frozen day
+ * @param end - Last frozen day
+ */
+export const getFreezeDays = (start: Date, end: Date): number =>
+    differenceInCalendarDays(end, start) + 1;
+
+/**
+ * Expiry date after the membership is extended by the frozen days
+ * @param expiryDate - Current expiry date from the API
+ * @param days - Number of frozen days
+ * @returns Gym calendar date, or null if the expiry date cannot be read
+ */
+export const getExpiryAfterFreeze = (expiryDate: string, days: number): Date | null => {
+    const expiryDay = parseGymDate(expiryDate);
+    return expiryDay ? addDays(expiryDay, days) : null;
+};
+
+/**
+ * Checks a freeze range against the gym's rules
+ * @param start - First frozen day, a gym calendar date
+ * @param end - Last frozen day, a gym calendar date
+ * @param rules - Freeze limits of the membership
+ * @param now - Reference instant
+ * @returns Error message, or null when the freeze is allowed
+ */
+export const validateFreeze = (
+    start: Date,
+    end: Date,
+    rules: FreezeRules,
+    now: Date = new Date()
+): string | null => {
+    const today = startOfDay(toGymTime(now));
+    const days = getFreezeDays(start, end);
+
+    if (differenceInCalendarDays(start, today) < 0) {
+        return 'Zamrożenie nie może zaczynać się w przeszłości';
+    }
+    if (differenceInCalendarDays(start, today) > rules.maxStartAheadDays) {
+        return `Zamrożenie można zaplanować najwyżej ${formatDays(rules.maxStartAheadDays)} naprzód`;
+    }
+    if (days <= 0) {
+        return 'Data zakończenia nie może być wcześniejsza niż rozpoczęcia';
+    }
+    if (days < rules.minDays) {
+        return `Minimalny okres zamrożenia to ${formatDays(rules.minDays)}`;
+    }
+    if (days > rules.maxDays) {
+        return `Jednorazowo można zamrozić karnet najwyżej na ${formatDays(rules.maxDays)}`;
+    }
+    if (days > rules.remainingDays) {
+        return `W tym roku pozostało Ci ${formatDays(rules.remainingDays)} zamrożenia`;
+    }
+    return null;
+};
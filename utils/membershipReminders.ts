@@ -0,0 +1,184 @@
+import * as Notifications from 'expo-notifications';
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { addDays } from 'date-fns';
+import { Membership } from "@/types/Membership";
+import { formatDate, formatDays } from "@/utils/formatters";
+import { getClassStart, parseGymDate } from "@/utils/gymTime";
+
+export const EXPIRY_REMINDER_DAYS = [7, 3, 1];
+export const DEFAULT_LOW_ENTRIES_THRESHOLD = 2;
+export const MIN_LOW_ENTRIES_THRESHOLD = 1;
+export const MAX_LOW_ENTRIES_THRESHOLD = 10;
+
+const EXPIRY_REMINDER_ID_PREFIX = 'membership-expiry-';
+// Gym wall-clock time at which expiry reminders fire
+const EXPIRY_REMINDER_TIME = '10:00';
+const NOTIFIED_LOW_ENTRIES_KEY = 'notified_low_entries';
+const THRESHOLD_KEY_PREFIX = 'low_entries_threshold:';
+// Screen opened from the reminders to renew the membership
+const RENEW_URL = '/membershipTypes';
+
+/**
+ * Loads the number of remaining entries at which the user wants to be notified
+ * @param userId - Setting owner, it is kept separately for every account on the device
+ */
+export async function getLowEntriesThreshold(userId: string): Promise<number> {
+    try {
+        const stored = await AsyncStorage.getItem(`${THRESHOLD_KEY_PREFIX}${userId}`);
+        return stored ? Number(stored) : DEFAULT_LOW_ENTRIES_THRESHOLD;
+    } catch (error) {
+        console.error('Błąd odczytu progu wejść:', error);
+        return DEFAULT_LOW_ENTRIES_THRESHOLD;
+    }
+}
+
+/**
+ * Saves the low entries threshold of a user
+ * @param userId - Setting owner
+ * @param threshold - Remaining entries that trigger the notification
+ */
+export async function saveLowEntriesThreshold(userId: string, threshold: number): Promise<void> {
+    await AsyncStorage.setItem(`${THRESHOLD_KEY_PREFIX}${userId}`, String(threshold));
+}
+
+/**
+ * Builds a stable notification identifier, so rescheduling replaces the previous reminder
+ * @param daysBefore - Days between the reminder and the expiry date
+ */
+const getExpiryReminderId = (daysBefore: number): string => `${EXPIRY_REMINDER_ID_PREFIX}${daysBefore}`;
+
+/**
+ * Cancels every scheduled expiry reminder
+ */
+const cancelExpiryReminders = async (): Promise<void> => {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    await Promise.all(
+        scheduled
+            .filter(request => request.identifier.startsWith(EXPIRY_REMINDER_ID_PREFIX))
+            .map(request => Notifications.cancelScheduledNotificationAsync(request.identifier))
+    );
+};
+
+/**
+ * Schedules reminders 7, 3 and 1 day before the expiry date of an active, time based membership.
+ * A frozen membership gets none, its expiry date moves until the freeze ends.
+ * @param membership - Current membership
+ * @param now - Reference instant
+ */
+const scheduleExpiryReminders = async (membership: Membership, now: Date): Promise<void> => {
+    await cancelExpiryReminders();
+
+    const expiryDay = membership.expiryDate ? parseGymDate(membership.expiryDate) : null;
+    if (!expiryDay || !membership.isActive || membership.isFrozen) {
+        return;
+    }
+
+    for (const daysBefore of EXPIRY_REMINDER_DAYS) {
+        const triggerDate = getClassStart(addDays(expiryDay, -daysBefore), EXPIRY_REMINDER_TIME);
+        if (!triggerDate || triggerDate.getTime() <= now.getTime()) {
+            continue;
+        }
+
+        await Notifications.scheduleNotificationAsync({
+            identifier: getExpiryReminderId(daysBefore),
+            content: {
+                title: daysBefore === 1 ? 'Karnet wygasa jutro ⏳' : `Karnet wygasa za ${formatDays(daysBefore)} ⏳`,
+                body: `Ważność karnetu kończy się ${formatDate(expiryDay)}. Przedłuż go, aby nie przerywać treningów.`,
+                sound: true,
+                data: {
+                    type: 'membership_expiry',
+                    membershipId: membership.id,
+                    url: RENEW_URL,
+                },
+            },
+            trigger: {
+                type: Notifications.SchedulableTriggerInputTypes.DATE,
+                date: triggerDate,
+                channelId: 'membership',
+            },
+        });
+    }
+};
+
+/**
+ * Polish sentence about the remaining entries, e.g. "Zostały Ci 3 wejścia"
+ */
+const describeRemainingEntries = (entries: number): string => {
+    if (entries === 1) {
+        return 'Zostało Ci ostatnie wejście';
+    }
+    const lastDigit = entries % 10;
+    const lastTwoDigits = entries % 100;
+    return lastDigit >= 2 && lastDigit <= 4 && (lastTwoDigits < 12 || lastTwoDigits > 14)
+        ? `Zostały Ci ${entries} wejścia`
+        : `Zostało Ci ${entries} wejść`;
+};
+
+/**
+ * Sends a notification once the remaining entries drop to the threshold.
+ * The announced count is remembered in AsyncStorage, so a refresh never repeats it.
+ * @param membership - Current membership
+ * @param threshold - Number of entries at or below which the user is notified
+ */
+const notifyLowEntries = async (membership: Membership, threshold: number): Promise<void> => {
+    const entries = membership.remainingEntries;
+    // Time based memberships report no entries at all
+    if (!membership.isActive || entries <= 0 || entries > threshold) {
+        await AsyncStorage.removeItem(NOTIFIED_LOW_ENTRIES_KEY);
+        return;
+    }
+
+    const notified = await AsyncStorage.getItem(NOTIFIED_LOW_ENTRIES_KEY);
+    const notifiedKey = `${membership.id}:${entries}`;
+    if (notified === notifiedKey) {
+        return;
+    }
+
+    await Notifications.scheduleNotificationAsync({
+        content: {
+            title: 'Kończą się wejścia na karnecie 🎟️',
+            body: `${describeRemainingEntries(entries)}. Kup nowy karnet, aby trenować dalej.`,
+            sound: true,
+            data: {
+                type: 'membership_low_entries',
+                membershipId: membership.id,
+                url: RENEW_URL,
+            },
+        },
+        trigger: null,
+    });
+
+    await AsyncStorage.setItem(NOTIFIED_LOW_ENTRIES_KEY, notifiedKey);
+};
+
+/**
+ * Brings membership reminders in line with the loaded membership.
+ * Meant to be called whenever the membership data changes.
+ * @param membership - Current membership
+ * @param lowEntriesThreshold - Remaining entries that trigger the low entries notification
+ * @param now - Reference instant
+ */
+export async function syncMembershipReminders(
+    membership: Membership,
+    lowEntriesThreshold: number = DEFAULT_LOW_ENTRIES_THRESHOLD,
+    now: Date = new Date()
+): Promise<void> {
+    try {
+        await scheduleExpiryReminders(membership, now);
+        await notifyLowEntries(membership, lowEntriesThreshold);
+    } catch (error) {
+        console.error('Błąd planowania przypomnień o karnecie:', error);
+    }
+}
+
+/**
+ * Cancels membership reminders and forgets announced entries, e.g. after logout
+ */
+export async function clearMembershipReminders(): Promise<void> {
+    try {
+        await cancelExpiryReminders();
+        await AsyncStorage.removeItem(NOTIFIED_LOW_ENTRIES_KEY);
+    } catch (error) {
+        console.error('Błąd czyszczenia przypomnień o karnecie:', error);
+    }
+}
@@ -1,8 +1,12 @@
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { WaitlistEntry } from "@/types/WaitlistEntry";
+import { formatTime } from "@/utils/formatters";
+import { parseGymDate } from "@/utils/gymTime";
 
 const LAST_NOTIFICATION_KEY = 'last_workout_notification';
+const NOTIFIED_PROMOTIONS_KEY = 'notified_waitlist_promotions';
 const NOTIFICATION_COOLDOWN_MS = 5 * 60 * 1000; // 5 minutes
 
 Notifications.setNotificationHandler({
@@ -41,6 +45,26 @@ export async function registerForPushNotificationsAsync(): Promise<boolean> {
                 enableVibrate: true,
                 showBadge: true,
             });
+
+            await Notifications.setNotificationChannelAsync('classes', {
+                name: 'Zajęcia',
+                importance: Notifications.AndroidImportance.HIGH,
+                vibrationPattern: [0, 250, 250, 250],
+                lightColor: '#ffc500',
+                sound: 'default',
+                enableVibrate: true,
+                showBadge: true,
+            });
+
+            await Notifications.setNotificationChannelAsync('membership', {
+                name: 'Karnet',
+                importance: Notifications.AndroidImportance.HIGH,
+                vibrationPattern: [0, 250, 250, 250],
+                lightColor: '#ffc500',
+                sound: 'default',
+                enableVibrate: true,
+                showBadge: true,
+            });
         }
 
         const { status: existingStatus } = await Notifications.getPermissionsAsync();
@@ -137,3 +161,64 @@ export async function sendWorkoutEndedNotification(duration: number): Promise<vo
         console.error('Błąd wysyłania powiadomienia o zakończeniu:', error);
     }
 }
+
+let promotionsLock: Promise<void> = Promise.resolve();
+
+/**
+ * Sends a notification for every waitlist entry that was promoted into a booking
+ * since the last check. Already announced promotions are remembered in AsyncStorage.
+ * Calls run one after another, so the startup check and the schedule screen
+ * never announce the same promotion twice.
+ * @param entries - Current waitlist entries of the user
+ */
+export function notifyWaitlistPromotions(entries: WaitlistEntry[]): Promise<void> {
+    const result = promotionsLock.then(() => announcePromotions(entries));
+    promotionsLock = result;
+    return result;
+}
+
+async function announcePromotions(entries: WaitlistEntry[]): Promise<void> {
+    try {
+        const notifiedStr = await AsyncStorage.getItem(NOTIFIED_PROMOTIONS_KEY);
+        const notifiedIds: string[] = notifiedStr ? JSON.parse(notifiedStr) : [];
+
+        const promoted = entries.filter(entry => entry.status === 'PROMOTED');
+        const newlyPromoted = promoted.filter(entry => !notifiedIds.includes(entry.id));
+
+        for (const entry of newlyPromoted) {
+            const classDate = (parseGymDate(entry.classDate) ?? new Date(entry.classDate)).toLocaleDateString('pl-PL', {
+                weekday: 'long',
+                day: '2-digit',
+                month: '2-digit',
+            });
+
+            await Notifications.scheduleNotificationAsync({
+                content: {
+                    title: 'Zwolniło się miejsce! 🎉',
+                    body: `Zostałeś zapisany na ${entry.schedule.name} (${classDate}, ${formatTime(entry.schedule.startTime)})`,
+                    sound: true,
+                    priority: Notifications.AndroidNotificationPriority.HIGH,
+                    data: {
+                        type: 'waitlist_promoted',
+                        waitlistEntryId: entry.id,
+                        classScheduleId: entry.schedule.id,
+                        yearWeek: entry.yearWeek,
+                    },
+                },
+                trigger: null,
+            });
+        }
+
+        // Keep only ids the server still reports so the list does not grow forever
+        await AsyncStorage.setItem(
+            NOTIFIED_PROMOTIONS_KEY,
+            JSON.stringify(promoted.map(entry => entry.id))
+        );
+
+        if (newlyPromoted.length > 0) {
+            console.log('Powiadomienia o awansie z listy rezerwowej wysłane:', newlyPromoted.length);
+        }
+    } catch (error) {
+        console.error('Błąd wysyłania powiadomienia o liście rezerwowej:', error);
+    }
+}
@@ -0,0 +1,167 @@
+import axios from 'axios';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { purchaseMembership } from "@/api/purchase";
+import { PurchaseRequest } from "@/types/PurchaseRequest";
+
+const PENDING_PURCHASES_KEY = 'pending_purchases';
+
+interface PendingPurchase {
+    userId: string;
+    request: PurchaseRequest;
+    /** Rejected by the API for good, kept only as a record for support */
+    needsSupport?: boolean;
+}
+
+/**
+ * Outcome of sending a paid purchase to the API
+ * - recorded: the membership was added
+ * - pending: the API could not be reached, the purchase is sent again later
+ * - needsSupport: the API rejected the purchase, the gym has to sort out the payment
+ */
+export type PurchaseStatus = 'recorded' | 'pending' | 'needsSupport';
+
+export interface FlushResult {
+    /** Transaction ids the API recorded */
+    recorded: string[];
+    /** Transaction ids the API rejected, paid but without a membership */
+    rejected: string[];
+}
+
+let queueLock: Promise<unknown> = Promise.resolve();
+let flushInProgress: Promise<FlushResult> | null = null;
+
+/**
+ * Runs queue mutations one after another, so the checkout and the startup flush
+ * never overwrite each other's changes
+ * @param operation - Read-modify-write operation on the queue
+ */
+const withQueueLock = <T>(operation: () => Promise<T>): Promise<T> => {
+    const result = queueLock.then(operation);
+    queueLock = result.catch(() => undefined);
+    return result;
+};
+
+const readQueue = async (): Promise<PendingPurchase[]> => {
+    try {
+        const stored = await AsyncStorage.getItem(PENDING_PURCHASES_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+        console.warn('Pending purchases read failed:', error);
+        return [];
+    }
+};
+
+const writeQueue = async (queue: PendingPurchase[]): Promise<void> => {
+    if (queue.length === 0) {
+        await AsyncStorage.removeItem(PENDING_PURCHASES_KEY);
+    } else {
+        await AsyncStorage.setItem(PENDING_PURCHASES_KEY, JSON.stringify(queue));
+    }
+};
+
+/**
+ * The API answers 409 when the transaction is already recorded, e.g. when
+ * an earlier attempt reached the server but its response was lost
+ * @param error - Error thrown by purchaseMembership
+ */
+const isAlreadyRecorded = (error: unknown): boolean =>
+    axios.isAxiosError(error) && error.response?.status === 409;
+
+/**
+ * Network failures, server errors and an expired session may pass, any other
+ * client error means the API will never accept the purchase as sent
+ * @param error - Error thrown by purchaseMembership
+ */
+const isRetryable = (error: unknown): boolean => {
+    if (!axios.isAxiosError(error) || !error.response) return true;
+    const { status } = error.response;
+    return status >= 500 || status === 401;
+};
+
+const removePurchase = (transactionId: string): Promise<void> =>
+    withQueueLock(async () => {
+        const queue = await readQueue();
+        await writeQueue(queue.filter(item => item.request.transactionId !== transactionId));
+    });
+
+const markNeedsSupport = (transactionId: string): Promise<void> =>
+    withQueueLock(async () => {
+        const queue = await readQueue();
+        await writeQueue(queue.map(item =>
+            item.request.transactionId === transactionId ? { ...item, needsSupport: true } : item
+        ));
+    });
+
+/**
+ * Stores a paid purchase before it is sent to the API, so the transaction
+ * reference survives a failed request or the app being closed
+ * @param userId - User who paid
+ * @param request - Purchase with the provider's transaction reference
+ */
+export const savePendingPurchase = (userId: string, request: PurchaseRequest): Promise<void> =>
+    withQueueLock(async () => {
+        const queue = (await readQueue())
+            .filter(item => item.request.transactionId !== request.transactionId);
+        queue.push({ userId, request });
+        await writeQueue(queue);
+    });
+
+const flush = async (userId: string): Promise<FlushResult> => {
+    const result: FlushResult = { recorded: [], rejected: [] };
+    const pending = (await readQueue()).filter(item => item.userId === userId && !item.needsSupport);
+
+    for (const { request } of pending) {
+        try {
+            await purchaseMembership(request);
+        } catch (error) {
+            if (isRetryable(error)) {
+                console.error('⚠️ Pending purchase not recorded yet:', request.transactionId, error);
+                continue;
+            }
+            if (!isAlreadyRecorded(error)) {
+                // Paid purchases are never dropped, the record stays for the gym to resolve
+                console.error('❌ Pending purchase rejected:', request.transactionId, error);
+                await markNeedsSupport(request.transactionId);
+                result.rejected.push(request.transactionId);
+                continue;
+            }
+        }
+        await removePurchase(request.transactionId);
+        result.recorded.push(request.transactionId);
+    }
+    return result;
+};
+
+/**
+ * Sends the user's paid but unrecorded purchases to the API. The transaction id is
+ * the idempotency key, so resending a purchase the server already has is safe.
+ * Purchases the API rejects are not sent again. Concurrent calls share a single flush.
+ * @param userId - Logged in user, purchases of other accounts on the device stay queued
+ * @returns Transaction ids recorded and rejected by this flush
+ */
+export const flushPendingPurchases = (userId: string): Promise<FlushResult> => {
+    if (!flushInProgress) {
+        flushInProgress = flush(userId).finally(() => {
+            flushInProgress = null;
+        });
+    }
+    return flushInProgress;
+};
+
+/**
+ * Records a paid purchase, keeping it queued for later retries when the API cannot be reached
+ * @param userId - User who paid
+ * @param request - Purchase with the provider's transaction reference
+ */
+export const submitPurchase = async (userId: string, request: PurchaseRequest): Promise<PurchaseStatus> => {
+    await savePendingPurchase(userId, request);
+    if (flushInProgress) {
+        // A running flush may have read the queue before this purchase was added
+        await flushInProgress;
+    }
+    await flushPendingPurchases(userId);
+
+    const queued = (await readQueue()).find(item => item.request.transactionId === request.transactionId);
+    if (!queued) return 'recorded';
+    return queued.needsSupport ? 'needsSupport' : 'pending';
+};
@@ -0,0 +1,70 @@
+import { ActivityResponse } from "@/types/ActivityResponse";
+import { MembershipType } from "@/types/MembershipType";
+
+export interface PlanCost {
+    membershipTypeId: string;
+    /** Visits the member is expected to use during the plan */
+    expectedVisits: number;
+    /** Price divided by expected visits, null when no visit is expected */
+    costPerVisit: number | null;
+}
+
+// Recent habits matter more than a busy season a year ago
+const FREQUENCY_WINDOW_WEEKS = 12;
+const WEEKS_PER_MONTH = 52 / 12;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Average visits per week over the last 12 weeks, or since the first visit for newer members
+ * @param activities - Activity history, every activity counts as one visit
+ * @param now - Reference instant
+ */
+export const getAverageVisitsPerWeek = (activities: ActivityResponse[], now: Date = new Date()): number => {
+    if (activities.length === 0) {
+        return 0;
+    }
+
+    const windowStart = now.getTime() - FREQUENCY_WINDOW_WEEKS * WEEK_MS;
+    const firstVisit = Math.min(...activities.map(activity => new Date(activity.startTime).getTime()));
+    const observedWeeks = Math.max((now.getTime() - Math.max(windowStart, firstVisit)) / WEEK_MS, 1);
+
+    const visits = activities.filter(activity => new Date(activity.startTime).getTime() >= windowStart).length;
+    return visits / observedWeeks;
+};
+
+/**
+ * Effective cost per visit of a plan at the given visit frequency.
+ * Time based plans are expected to be used for their whole duration,
+ * entry based ones up to their entry count.
+ * @param type - Membership type
+ * @param visitsPerWeek - Average visits per week of the member
+ */
+export const getPlanCost = (type: MembershipType, visitsPerWeek: number): PlanCost => {
+    const durationWeeks = (type.durationMonths || 0) * WEEKS_PER_MONTH + (type.durationWeeks || 0);
+
+    let expectedVisits = durationWeeks > 0 ? visitsPerWeek * durationWeeks : type.entryCount;
+    if (type.entryCount > 0) {
+        expectedVisits = Math.min(expectedVisits, type.entryCount);
+    }
+
+    return {
+        membershipTypeId: type.id,
+        expectedVisits,
+        costPerVisit: expectedVisits > 0 ? type.price / expectedVisits : null,
+    };
+};
+
+/**
+ * Picks the plan with the lowest cost per visit
+ * @param costs - Costs of the available plans
+ * @returns Membership type id, or null when no plan has a cost per visit
+ */
+export const getCheapestPlanId = (costs: PlanCost[]): string | null => {
+    const priced = costs.filter(cost => cost.costPerVisit !== null);
+    if (priced.length === 0) {
+        return null;
+    }
+    return priced
+        .reduce((cheapest, cost) => cost.costPerVisit! < cheapest.costPerVisit! ? cost : cheapest)
+        .membershipTypeId;
+};
@@ -0,0 +1,81 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AgeBracket, RankingFilters, RankingScope } from "@/types/RankingFilters";
+
+const SCOPES_KEY = 'ranking_scopes';
+
+export const DEFAULT_RANKING_SCOPE: RankingScope = 'ALL_TIME';
+
+export const RANKING_SCOPES: { value: RankingScope; label: string }[] = [
+    { value: 'MONTH', label: 'Ten miesiąc' },
+    { value: 'YEAR', label: 'Ten rok' },
+    { value: 'ALL_TIME', label: 'Cały czas' },
+];
+
+export const AGE_BRACKETS: AgeBracket[] = [
+    { id: 'under-25', label: 'do 24 lat', minAge: 0, maxAge: 24 },
+    { id: '25-34', label: '25–34', minAge: 25, maxAge: 34 },
+    { id: '35-44', label: '35–44', minAge: 35, maxAge: 44 },
+    { id: '45-plus', label: '45+', minAge: 45, maxAge: null },
+];
+
+export const createDefaultFilters = (scope: RankingScope = DEFAULT_RANKING_SCOPE): RankingFilters => ({
+    scope,
+    gender: null,
+    ageBracket: null,
+});
+
+/**
+ * Calculates age in full years
+ * @param birthDate - ISO birth date
+ * @param now - Reference date
+ */
+export const getAge = (birthDate: string, now: Date = new Date()): number | null => {
+    const birth = new Date(birthDate);
+    if (isNaN(birth.getTime())) return null;
+
+    let age = now.getFullYear() - birth.getFullYear();
+    const hadBirthday = now.getMonth() > birth.getMonth()
+        || (now.getMonth() === birth.getMonth() && now.getDate() >= birth.getDate());
+    if (!hadBirthday) age--;
+    return age;
+};
+
+/**
+ * Finds the age bracket a user belongs to
+ * @param birthDate - ISO birth date from UserInfo
+ */
+export const getAgeBracket = (birthDate: string): AgeBracket | null => {
+    const age = getAge(birthDate);
+    if (age === null) return null;
+    return AGE_BRACKETS.find(bracket =>
+        age >= bracket.minAge && (bracket.maxAge === null || age <= bracket.maxAge)
+    ) ?? null;
+};
+
+const readScopes = async (): Promise<Record<string, RankingScope>> => {
+    try {
+        const stored = await AsyncStorage.getItem(SCOPES_KEY);
+        return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+        console.error('Error reading ranking scopes:', error);
+        return {};
+    }
+};
+
+/**
+ * Returns the scope last selected for an exercise
+ * @param exerciseId - Exercise identifier
+ */
+export const getSavedRankingScope = async (exerciseId: string): Promise<RankingScope> =>
+    (await readScopes())[exerciseId] ?? DEFAULT_RANKING_SCOPE;
+
+/**
+ * Remembers the scope selected for an exercise
+ * @param exerciseId - Exercise identifier
+ * @param scope - Selected scope
+ */
+export const saveRankingScope = async (exerciseId: string, scope: RankingScope): Promise<void> => {
+    const scopes = await readScopes();
+    scopes[exerciseId] = scope;
+    await AsyncStorage.setItem(SCOPES_KEY, JSON.stringify(scopes));
+};
@@ -0,0 +1,56 @@
+import { RankingEntry } from "@/types/RankingEntry";
+
+export interface ProgressPoint {
+    entry: RankingEntry;
+    /** Best counted result before this entry, null for the first one */
+    previousBest: number | null;
+    /** Improvement over the previous best, positive means better regardless of direction */
+    improvement: number | null;
+    isPersonalBest: boolean;
+}
+
+/**
+ * Checks whether result a beats result b
+ * @param lowerIsBetter - Direction of the exercise unit
+ */
+export const isBetterResult = (a: number, b: number, lowerIsBetter: boolean): boolean =>
+    lowerIsBetter ? a < b : a > b;
+
+/**
+ * Orders the user's entries by date and compares each one to the best result before it.
+ * Rejected entries are listed but never count as a best.
+ * @param entries - User's entries of one exercise
+ * @param lowerIsBetter - Direction of the exercise unit
+ */
+export const buildProgress = (entries: RankingEntry[], lowerIsBetter: boolean): ProgressPoint[] => {
+    const sorted = [...entries].sort(
+        (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+
+    let best: number | null = null;
+    return sorted.map(entry => {
+        const previousBest = best;
+        const counts = entry.status !== 'REJECTED';
+        const improvement = previousBest === null
+            ? null
+            : lowerIsBetter ? previousBest - entry.result : entry.result - previousBest;
+        const isPersonalBest = counts && (best === null || isBetterResult(entry.result, best, lowerIsBetter));
+
+        if (isPersonalBest) {
+            best = entry.result;
+        }
+
+        return { entry, previousBest, improvement, isPersonalBest };
+    });
+};
+
+/**
+ * Formats a signed difference of results, e.g. "+2.5 kg"
+ * @param value - Difference in the exercise unit
+ * @param unit - Exercise unit
+ */
+export const formatResultDelta = (value: number, unit: string): string => {
+    const rounded = Math.round(value * 100) / 100;
+    const sign = rounded > 0 ? '+' : rounded < 0 ? '−' : '±';
+    return `${sign}${Math.abs(rounded)} ${unit}`;
+};
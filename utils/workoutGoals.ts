@@ -0,0 +1,218 @@
+import * as Notifications from 'expo-notifications';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { addDays } from 'date-fns';
+import { ActivityResponse } from "@/types/ActivityResponse";
+import { WorkoutGoal } from "@/types/WorkoutGoal";
+import { formatActivityDuration } from "@/utils/formatters";
+import { getClassStart, getGymWeekStart } from "@/utils/gymTime";
+
+export const DEFAULT_WORKOUT_GOAL: WorkoutGoal = {
+    type: 'visits',
+    target: 3,
+    streakVisits: 2,
+};
+
+export interface WeeklyProgress {
+    value: number;
+    target: number;
+    /** Share of the target reached, capped at 1 */
+    ratio: number;
+    isMet: boolean;
+}
+
+export interface Streaks {
+    /** Consecutive qualifying weeks up to now, the current week counts once it qualifies */
+    current: number;
+    longest: number;
+}
+
+const GOAL_KEY_PREFIX = 'workout_goal:';
+const GOAL_REMINDER_ID = 'weekly-goal-reminder';
+// Friday 18:00, late enough to see the week, early enough to still train
+const REMINDER_WEEKDAY = 5;
+const REMINDER_TIME = '18:00';
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Weeks are the gym's weeks, the same ones the weekly stats use
+const getWeekKey = (date: Date): number => getGymWeekStart(date).getTime();
+
+/**
+ * Loads the weekly goal of a user
+ * @param userId - Goal owner, goals are kept separately for every account on the device
+ */
+export async function getWorkoutGoal(userId: string): Promise<WorkoutGoal> {
+    try {
+        const stored = await AsyncStorage.getItem(`${GOAL_KEY_PREFIX}${userId}`);
+        return stored ? { ...DEFAULT_WORKOUT_GOAL, ...JSON.parse(stored) } : DEFAULT_WORKOUT_GOAL;
+    } catch (error) {
+        console.error('Błąd odczytu celu treningowego:', error);
+        return DEFAULT_WORKOUT_GOAL;
+    }
+}
+
+/**
+ * Saves the weekly goal of a user
+ * @param userId - Goal owner
+ * @param goal - New goal
+ */
+export async function saveWorkoutGoal(userId: string, goal: WorkoutGoal): Promise<void> {
+    await AsyncStorage.setItem(`${GOAL_KEY_PREFIX}${userId}`, JSON.stringify(goal));
+}
+
+/**
+ * Calculates progress towards the weekly goal
+ * @param activities - Activity history, only the week of the reference date is used
+ * @param goal - Weekly goal
+ * @param now - Reference date
+ */
+export const getWeeklyProgress = (
+    activities: ActivityResponse[],
+    goal: WorkoutGoal,
+    now: Date = new Date()
+): WeeklyProgress => {
+    const weekKey = getWeekKey(now);
+    const weekActivities = activities.filter(activity => getWeekKey(new Date(activity.startTime)) === weekKey);
+
+    const value = goal.type === 'visits'
+        ? weekActivities.length
+        : weekActivities.reduce((sum, activity) => sum + activity.durationMinutes, 0);
+
+    return {
+        value,
+        target: goal.target,
+        ratio: goal.target > 0 ? Math.min(value / goal.target, 1) : 0,
+        isMet: value >= goal.target,
+    };
+};
+
+/**
+ * Calculates streaks of consecutive weeks with at least the required number of visits
+ * @param activities - Activity history
+ * @param minVisits - Visits a week needs to qualify
+ * @param now - Reference date
+ */
+export const getStreaks = (
+    activities: ActivityResponse[],
+    minVisits: number,
+    now: Date = new Date()
+): Streaks => {
+    const visitsPerWeek = new Map<number, number>();
+    activities.forEach(activity => {
+        const key = getWeekKey(new Date(activity.startTime));
+        visitsPerWeek.set(key, (visitsPerWeek.get(key) ?? 0) + 1);
+    });
+
+    const qualifies = (weekKey: number) => (visitsPerWeek.get(weekKey) ?? 0) >= minVisits;
+
+    // Longest run over the whole history
+    const qualifyingWeeks = [...visitsPerWeek.keys()].filter(qualifies).sort((a, b) => a - b);
+    let longest = 0;
+    let run = 0;
+    qualifyingWeeks.forEach((weekKey, index) => {
+        // Week keys are local midnights, so DST shifts make the gap differ from a week by up to an hour
+        const isConsecutive = index > 0 && Math.abs(weekKey - qualifyingWeeks[index - 1] - WEEK_MS) < WEEK_MS / 7;
+        run = isConsecutive ? run + 1 : 1;
+        longest = Math.max(longest, run);
+    });
+
+    // Current run, a week still in progress does not break it yet
+    const weekStart = getGymWeekStart(now);
+    let week = qualifies(weekStart.getTime())
+        ? weekStart
+        : new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() - 7);
+    let current = 0;
+    while (qualifies(week.getTime())) {
+        current++;
+        week = new Date(week.getFullYear(), week.getMonth(), week.getDate() - 7);
+    }
+
+    return { current, longest };
+};
+
+interface GoalReminder {
+    /** Instant the reminder fires at */
+    date: Date;
+    /** Gym calendar date of the Monday of the reminder's week */
+    weekStart: Date;
+}
+
+/**
+ * Returns the upcoming Friday-evening reminder, on the gym's clock
+ * @param now - Reference instant
+ */
+const getNextReminder = (now: Date): GoalReminder | null => {
+    let weekStart = getGymWeekStart(now);
+    let date = getClassStart(addDays(weekStart, REMINDER_WEEKDAY - 1), REMINDER_TIME);
+    if (date && date.getTime() <= now.getTime()) {
+        weekStart = addDays(weekStart, 7);
+        date = getClassStart(addDays(weekStart, REMINDER_WEEKDAY - 1), REMINDER_TIME);
+    }
+    return date ? { date, weekStart } : null;
+};
+
+/**
+ * Describes what is missing to reach the goal
+ */
+const describeRemaining = (goal: WorkoutGoal, value: number): string => {
+    const remaining = Math.max(goal.target - value, 0);
+    return goal.type === 'visits'
+        ? `Brakuje Ci jeszcze ${remaining} ${remaining === 1 ? 'wizyty' : 'wizyt'}`
+        : `Brakuje Ci jeszcze ${formatActivityDuration(remaining)}`;
+};
+
+/**
+ * Schedules the Friday-evening reminder if the weekly goal is still unmet,
+ * or cancels it once the goal is reached. Meant to be called whenever progress changes.
+ * @param goal - Weekly goal
+ * @param progress - Progress of the current week
+ * @param now - Reference date
+ */
+export async function syncGoalReminder(
+    goal: WorkoutGoal,
+    progress: WeeklyProgress,
+    now: Date = new Date()
+): Promise<void> {
+    try {
+        const reminder = getNextReminder(now);
+        if (!reminder) return;
+
+        const isThisWeek = reminder.weekStart.getTime() === getGymWeekStart(now).getTime();
+        // Next week's reminder starts from zero progress
+        const value = isThisWeek ? progress.value : 0;
+
+        if (isThisWeek && progress.isMet) {
+            await Notifications.cancelScheduledNotificationAsync(GOAL_REMINDER_ID);
+            return;
+        }
+
+        await Notifications.scheduleNotificationAsync({
+            identifier: GOAL_REMINDER_ID,
+            content: {
+                title: 'Tygodniowy cel jeszcze przed Tobą 🎯',
+                body: `${describeRemaining(goal, value)}. Weekend to dobry moment na trening!`,
+                sound: true,
+                data: {
+                    type: 'weekly_goal_reminder',
+                },
+            },
+            trigger: {
+                type: Notifications.SchedulableTriggerInputTypes.DATE,
+                date: reminder.date,
+                channelId: 'workout',
+            },
+        });
+    } catch (error) {
+        console.error('Błąd planowania przypomnienia o celu:', error);
+    }
+}
+
+/**
+ * Cancels the weekly goal reminder, e.g. after logout
+ */
+export async function cancelGoalReminder(): Promise<void> {
+    try {
+        await Notifications.cancelScheduledNotificationAsync(GOAL_REMINDER_ID);
+    } catch (error) {
+        console.error('Błąd anulowania przypomnienia o celu:', error);
+    }
+}